@@ -47,11 +47,18 @@ import { getDeviceStatus } from "@/lib/formatters"
 import { DEVICE_TYPE_CONFIG, DEFAULT_DAYS, DEFAULT_TIMEZONE } from "@/lib/constants"
 import { analyzeUplinkFailures } from "@/lib/failure-analysis"
 import { useSetDeviceControls } from "@/lib/device-controls-context"
-import type { DeviceSummary, DeviceType, Reading, Uplink, DailyConsumption, Anomaly, SSEEvent } from "@/lib/types"
+import type { DeviceSummary, DeviceType, Reading, ReadingQuality, Uplink, DailyConsumption, Anomaly, SSEEvent } from "@/lib/types"
 
 const CONSUMPTION_DAYS = 365
 const CONSUMPTION_HISTORY_DAYS = 1200
 
+// which validated readings the charts use
+const QUALITY_FILTERS: Array<{ label: string; quality?: ReadingQuality[] }> = [
+  { label: "Alle Werte" },
+  { label: "Ohne abgelehnte", quality: ["valid", "suspect"] },
+  { label: "Nur gültige", quality: ["valid"] },
+]
+
 export default function DeviceDetailPage() {
   const params = useParams()
   const deviceUuid = decodeURIComponent(params.uuid as string)
@@ -64,6 +71,10 @@ export default function DeviceDetailPage() {
   const [uplinks, setUplinks] = useState<Uplink[]>([])
   const [lastUplink, setLastUplink] = useState<Uplink | null>(null)
   const [dailyData, setDailyData] = useState<DailyConsumption[]>([])
+  const [seriesUnit, setSeriesUnit] = useState<string | null>(null)
+  const [energyUnit, setEnergyUnit] = useState<string | null>(null)
+  const [showEnergy, setShowEnergy] = useState(false)
+  const [qualityFilter, setQualityFilter] = useState(0)
   const [anomalies, setAnomalies] = useState<Anomaly[]>([])
   const [failureResetAt, setFailureResetAt] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
@@ -94,25 +105,29 @@ export default function DeviceDetailPage() {
       const from = new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString()
       const fromConsumption = new Date(now.getTime() - CONSUMPTION_DAYS * 24 * 60 * 60 * 1000).toISOString()
       const to = now.toISOString()
+      const quality = QUALITY_FILTERS[qualityFilter].quality
 
       const [summaries, readingsData, consumptionReadingsData, uplinksData, lastUp, daily, anomalyData, resetAt] = await Promise.all([
         getDeviceSummaries(),
-        getReadings(deviceUuid, from, to),
-        getReadings(deviceUuid, fromConsumption, to),
+        getReadings(deviceUuid, from, to, quality),
+        getReadings(deviceUuid, fromConsumption, to, quality),
         getUplinks(deviceUuid, from, to),
         getLastUplink(deviceUuid),
-        getDailyConsumption(deviceUuid, CONSUMPTION_HISTORY_DAYS, timezone),
+        getDailyConsumption(deviceUuid, CONSUMPTION_HISTORY_DAYS, timezone, undefined, quality),
         getAnomalies(deviceUuid),
         getFailureLogsResetAt(deviceUuid),
       ])
 
-      const dev = summaries.find((d) => d.dev_eui === devEui || d.uuid === deviceUuid) || null
+      const dev = summaries.find((d) => d.uuid === deviceUuid) || null
       setDevice(dev)
       setReadings(readingsData)
-      setConsumptionReadings(consumptionReadingsData)
+      // consumption charts work on the counter stitched across meter swaps
+      setConsumptionReadings(consumptionReadingsData.map((r) => ({ ...r, meter_value: r.total_value ?? r.meter_value })))
       setUplinks(uplinksData)
       setLastUplink(lastUp)
       setDailyData(daily.series)
+      setSeriesUnit(daily.unit)
+      setEnergyUnit(daily.energy_unit)
       setAnomalies(anomalyData)
       setFailureResetAt(resetAt)
     } catch (err) {
@@ -122,7 +137,7 @@ export default function DeviceDetailPage() {
       setLoading(false)
       setRefreshing(false)
     }
-  }, [deviceUuid, devEui, days, timezone])
+  }, [deviceUuid, days, timezone, qualityFilter])
 
   useEffect(() => {
     if (devEui) fetchData()
@@ -147,7 +162,12 @@ export default function DeviceDetailPage() {
   )
   const { connected } = useSSE(handleSSE)
 
-  const unit = DEVICE_TYPE_CONFIG[deviceType].unit
+  const unit = seriesUnit ?? DEVICE_TYPE_CONFIG[deviceType].unit
+  const hasEnergy = energyUnit != null && dailyData.some((d) => d.energy_kwh != null)
+  const energyDailyData = useMemo<DailyConsumption[]>(
+    () => dailyData.map((d) => ({ date: d.date, consumption: d.energy_kwh ?? null, closing: null })),
+    [dailyData]
+  )
   const failureAnalysis = useMemo(() => {
     const analysis = analyzeUplinkFailures(uplinks, device?.avg_interval_seconds ?? null)
     if (failureResetAt) {
@@ -270,7 +290,7 @@ export default function DeviceDetailPage() {
           </div>
         )
       case "sectionDeleteDevice":
-        return <DeleteDevicePanel deviceUuid={deviceUuid} devEui={devEui} />
+        return <DeleteDevicePanel deviceUuid={deviceUuid} />
       case "sectionCharts":
       default:
         return (
@@ -297,9 +317,50 @@ export default function DeviceDetailPage() {
             </div>
 
             <div className="space-y-6">
+              <div className="flex justify-end gap-1">
+                {QUALITY_FILTERS.map((f, i) => (
+                  <button
+                    key={f.label}
+                    type="button"
+                    onClick={() => setQualityFilter(i)}
+                    className={`px-2.5 py-1 text-xs rounded-lg border transition-colors ${
+                      qualityFilter === i
+                        ? "border-blue-500 bg-blue-50 dark:bg-blue-950/40 text-blue-700 dark:text-blue-300"
+                        : "border-zinc-200 dark:border-zinc-700 text-zinc-500 hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                    }`}
+                  >
+                    {f.label}
+                  </button>
+                ))}
+              </div>
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 <ConsumptionHeatmap readings={consumptionReadings} unit={unit} />
-                <DailyConsumptionChart data={dailyData} inhouseData={inhouseDailyData} unit={unit} dailyWindowDays={CONSUMPTION_DAYS} />
+                <div className="space-y-2">
+                  {hasEnergy && (
+                    <div className="flex justify-end gap-1">
+                      {[false, true].map((energy) => (
+                        <button
+                          key={String(energy)}
+                          type="button"
+                          onClick={() => setShowEnergy(energy)}
+                          className={`px-2.5 py-1 text-xs rounded-lg border transition-colors ${
+                            showEnergy === energy
+                              ? "border-blue-500 bg-blue-50 dark:bg-blue-950/40 text-blue-700 dark:text-blue-300"
+                              : "border-zinc-200 dark:border-zinc-700 text-zinc-500 hover:bg-zinc-50 dark:hover:bg-zinc-800"
+                          }`}
+                        >
+                          {energy ? energyUnit : unit}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  <DailyConsumptionChart
+                    data={hasEnergy && showEnergy ? energyDailyData : dailyData}
+                    inhouseData={inhouseDailyData}
+                    unit={hasEnergy && showEnergy ? energyUnit! : unit}
+                    dailyWindowDays={CONSUMPTION_DAYS}
+                  />
+                </div>
               </div>
 
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -0,0 +1,261 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { toast } from "sonner"
+import { ArrowLeft, ChevronDown, ChevronRight, MapPin, RadioTower, Save } from "lucide-react"
+
+import { BackgroundPlus } from "@/demos/background-plus"
+import { StatusBadge } from "@/components/status-badge"
+import { getGateway, getGateways, updateGateway } from "@/lib/api"
+import { formatInterval, formatRSSI, formatTimeAgo, getGatewayStatus } from "@/lib/formatters"
+import { useSSE } from "@/lib/use-sse"
+import type { Gateway, GatewayDevice, SSEEvent } from "@/lib/types"
+
+function formatLocation(g: Gateway): string {
+  if (g.latitude == null || g.longitude == null) return "—"
+  return `${g.latitude.toFixed(5)}, ${g.longitude.toFixed(5)}`
+}
+
+function parseCoordinate(value: string): number | null {
+  const v = value.trim().replace(",", ".")
+  return v === "" ? null : Number(v)
+}
+
+function GatewayRow({ gateway, onChanged }: { gateway: Gateway; onChanged: () => void }) {
+  const [open, setOpen] = useState(false)
+  const [devices, setDevices] = useState<GatewayDevice[] | null>(null)
+  const [name, setName] = useState(gateway.name ?? "")
+  const [lat, setLat] = useState(gateway.latitude != null ? String(gateway.latitude) : "")
+  const [lon, setLon] = useState(gateway.longitude != null ? String(gateway.longitude) : "")
+  const [busy, setBusy] = useState(false)
+  const status = getGatewayStatus(gateway)
+
+  const toggle = async () => {
+    const next = !open
+    setOpen(next)
+    if (next && devices == null) {
+      try {
+        const data = await getGateway(gateway.gateway_id)
+        setDevices(data.devices)
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : "Fehler beim Laden")
+      }
+    }
+  }
+
+  const handleSave = async () => {
+    const latitude = parseCoordinate(lat)
+    const longitude = parseCoordinate(lon)
+    if (Number.isNaN(latitude) || Number.isNaN(longitude)) {
+      toast.error("Ungültige Koordinaten")
+      return
+    }
+    setBusy(true)
+    try {
+      await updateGateway(gateway.gateway_id, { name: name.trim() || null, latitude, longitude })
+      toast.success("Gateway gespeichert")
+      onChanged()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Speichern fehlgeschlagen")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const inputClass =
+    "px-3 py-2 text-xs rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 placeholder-zinc-400 focus:outline-none focus:ring-1 focus:ring-blue-500"
+
+  return (
+    <div className="rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 bg-white/70 dark:bg-zinc-950/70 p-4 space-y-3">
+      <button type="button" onClick={toggle} className="w-full flex flex-wrap items-center justify-between gap-3 text-left">
+        <div className="flex items-center gap-2">
+          {open ? <ChevronDown size={16} className="text-zinc-400" /> : <ChevronRight size={16} className="text-zinc-400" />}
+          <div>
+            <div className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">
+              {gateway.name || gateway.reported_name || gateway.gateway_id}
+            </div>
+            <div className="text-xs text-zinc-500 font-mono">{gateway.gateway_id}</div>
+          </div>
+        </div>
+        <StatusBadge status={status} />
+      </button>
+
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-xs">
+        <div>
+          <div className="text-zinc-500">Standort</div>
+          <div className="text-zinc-900 dark:text-zinc-100 flex items-center gap-1">
+            <MapPin size={12} className="text-zinc-400" />
+            {formatLocation(gateway)}
+            {gateway.location_manual ? <span className="text-zinc-400">(manuell)</span> : null}
+          </div>
+        </div>
+        <div>
+          <div className="text-zinc-500">Zuerst gesehen</div>
+          <div className="text-zinc-900 dark:text-zinc-100">{formatTimeAgo(gateway.first_seen)}</div>
+        </div>
+        <div>
+          <div className="text-zinc-500">Zuletzt gesehen</div>
+          <div className="text-zinc-900 dark:text-zinc-100">{formatTimeAgo(gateway.last_seen)}</div>
+        </div>
+        <div>
+          <div className="text-zinc-500">Geräte / Uplinks</div>
+          <div className="text-zinc-900 dark:text-zinc-100">
+            {gateway.devices_heard} / {gateway.uplinks_forwarded}
+          </div>
+        </div>
+        <div>
+          <div className="text-zinc-500">Ø Intervall</div>
+          <div className="text-zinc-900 dark:text-zinc-100">{formatInterval(gateway.avg_interval_seconds)}</div>
+        </div>
+      </div>
+
+      {open && (
+        <div className="space-y-3 pt-2 border-t border-zinc-200/60 dark:border-zinc-800/60">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={gateway.reported_name ?? "Name"}
+              className={`flex-1 min-w-[160px] ${inputClass}`}
+            />
+            <input
+              type="text"
+              value={lat}
+              onChange={(e) => setLat(e.target.value)}
+              placeholder="Breitengrad"
+              className={`w-32 ${inputClass}`}
+            />
+            <input
+              type="text"
+              value={lon}
+              onChange={(e) => setLon(e.target.value)}
+              placeholder="Längengrad"
+              className={`w-32 ${inputClass}`}
+            />
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={busy}
+              className="inline-flex items-center gap-1.5 px-3 py-2 text-xs rounded-lg bg-emerald-600 text-white hover:bg-emerald-700 transition-colors disabled:opacity-50"
+            >
+              <Save size={14} />
+              Speichern
+            </button>
+          </div>
+
+          {devices == null ? (
+            <div className="text-xs text-zinc-500">Lade Geräte...</div>
+          ) : devices.length === 0 ? (
+            <div className="text-xs text-zinc-500">Keine Geräte empfangen.</div>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-zinc-500">
+                  <th className="py-1 font-medium">Gerät</th>
+                  <th className="py-1 font-medium text-right">Uplinks</th>
+                  <th className="py-1 font-medium text-right">Ø RSSI</th>
+                  <th className="py-1 font-medium text-right">Ø SNR</th>
+                  <th className="py-1 font-medium text-right">Zuletzt</th>
+                </tr>
+              </thead>
+              <tbody>
+                {devices.map((d) => (
+                  <tr key={d.dev_eui} className="border-t border-zinc-100 dark:border-zinc-800/60 text-zinc-900 dark:text-zinc-100">
+                    <td className="py-1">
+                      <Link href={`/device/${encodeURIComponent(d.dev_eui)}`} className="hover:underline">
+                        {d.device_name || <span className="font-mono">{d.dev_eui}</span>}
+                      </Link>
+                    </td>
+                    <td className="py-1 text-right">{d.uplinks_heard}</td>
+                    <td className="py-1 text-right">{formatRSSI(d.avg_rssi != null ? Math.round(d.avg_rssi) : null)}</td>
+                    <td className="py-1 text-right">{d.avg_snr != null ? `${d.avg_snr.toFixed(1)} dB` : "—"}</td>
+                    <td className="py-1 text-right">{formatTimeAgo(d.last_heard)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function GatewaysPage() {
+  const [gateways, setGateways] = useState<Gateway[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchData = useCallback(async () => {
+    try {
+      setGateways(await getGateways())
+      setError(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Fehler beim Laden")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const handleSSE = useCallback(
+    (event: SSEEvent) => {
+      if (event.type === "gateway-offline" || event.type === "gateway-online") fetchData()
+    },
+    [fetchData]
+  )
+  useSSE(handleSSE)
+
+  const offline = gateways.filter((g) => getGatewayStatus(g) === "offline").length
+
+  return (
+    <div className="min-h-screen p-4 sm:p-6 lg:p-8">
+      <BackgroundPlus className="fixed inset-0 opacity-[0.03]" plusColor="#10b981" plusSize={60} fade={true} />
+
+      <div className="relative max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center gap-3">
+          <Link
+            href="/"
+            className="p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors"
+          >
+            <ArrowLeft size={16} className="text-zinc-500" />
+          </Link>
+          <div>
+            <h1 className="text-xl font-bold text-zinc-900 dark:text-zinc-100 flex items-center gap-2">
+              <RadioTower size={18} className="text-emerald-500" />
+              Gateways
+            </h1>
+            <p className="text-xs text-zinc-500">
+              {gateways.length} Gateways{offline > 0 ? ` · ${offline} offline` : ""}
+            </p>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white/70 dark:bg-zinc-950/70 p-8 text-center text-zinc-500">
+            Lade Gateways...
+          </div>
+        ) : error ? (
+          <div className="rounded-xl border border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-950/30 p-4 text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        ) : gateways.length === 0 ? (
+          <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white/70 dark:bg-zinc-950/70 p-8 text-center text-zinc-500">
+            Noch keine Gateways gesehen.
+          </div>
+        ) : (
+          <section className="space-y-3">
+            {gateways.map((g) => (
+              <GatewayRow key={g.gateway_id} gateway={g} onChanged={fetchData} />
+            ))}
+          </section>
+        )}
+      </div>
+    </div>
+  )
+}
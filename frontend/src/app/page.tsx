@@ -86,9 +86,13 @@ export default function Home() {
         })
       } else if (event.type === "manual-recalibrate") {
         toast.info(`Manuelle Rekalibrierung: ${event.devEui}`)
+      } else if (event.type === "device-pending") {
+        toast.info(`Neues Gerät wartet auf Freigabe: ${event.deviceName || event.devEui}`, {
+          action: { label: "Ansehen", onClick: () => router.push("/provisioning") },
+        })
       }
     },
-    [fetchData]
+    [fetchData, router]
   )
   const { connected } = useSSE(handleSSE)
 
@@ -0,0 +1,238 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { toast } from "sonner"
+import { ArrowLeft, Check, Inbox, RotateCcw, X } from "lucide-react"
+
+import { BackgroundPlus } from "@/demos/background-plus"
+import { acceptPendingDevice, forgetPendingDevice, getProvisioning, rejectPendingDevice } from "@/lib/api"
+import { DEVICE_TYPE_CONFIG } from "@/lib/constants"
+import { formatTimeAgo } from "@/lib/formatters"
+import { useSSE } from "@/lib/use-sse"
+import type { DeviceType, PendingDevice, ProvisioningPolicy, SSEEvent } from "@/lib/types"
+
+const POLICY_LABELS: Record<ProvisioningPolicy, string> = {
+  auto: "Automatisch anlegen",
+  pending: "Freigabe erforderlich",
+  reject: "Unbekannte Geräte ablehnen",
+}
+
+function PendingRow({
+  device,
+  onChanged,
+}: {
+  device: PendingDevice
+  onChanged: () => void
+}) {
+  const [name, setName] = useState(device.device_name ?? "")
+  const [deviceType, setDeviceType] = useState<DeviceType>(device.guessed_type)
+  const [busy, setBusy] = useState(false)
+  const rejected = device.status === "rejected"
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true)
+    try {
+      await action()
+      onChanged()
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Aktion fehlgeschlagen")
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleAccept = () =>
+    run(async () => {
+      const res = await acceptPendingDevice(device.dev_eui, { name: name.trim(), device_type: deviceType })
+      toast.success(`Gerät "${res.device.name || res.device.dev_eui}" freigegeben`, {
+        description: `${res.imported.uplinks} Uplinks übernommen`,
+      })
+    })
+
+  const handleReject = () =>
+    run(async () => {
+      await rejectPendingDevice(device.dev_eui)
+      toast.info(`Gerät ${device.dev_eui} abgelehnt`)
+    })
+
+  const handleForget = () =>
+    run(async () => {
+      await forgetPendingDevice(device.dev_eui)
+    })
+
+  return (
+    <div className="rounded-xl border border-zinc-200/60 dark:border-zinc-800/60 bg-white/70 dark:bg-zinc-950/70 p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <div className="text-sm font-semibold text-zinc-900 dark:text-zinc-100 font-mono">{device.dev_eui}</div>
+          <div className="text-xs text-zinc-500">
+            {device.provider ?? "—"}
+            {device.application_id ? ` · ${device.application_id}` : ""}
+            {` · ${device.uplink_count} Uplinks · zuletzt ${formatTimeAgo(device.last_seen_at)}`}
+          </div>
+        </div>
+        {rejected && (
+          <span className="text-xs px-2 py-1 rounded-md bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400">
+            Abgelehnt
+          </span>
+        )}
+      </div>
+
+      {device.last_decoded_json && (
+        <pre className="text-[11px] font-mono text-zinc-600 dark:text-zinc-400 bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md px-2.5 py-1.5 overflow-x-auto">
+          {device.last_decoded_json}
+        </pre>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name"
+          className="flex-1 min-w-[160px] px-3 py-2 text-xs rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 placeholder-zinc-400 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <select
+          value={deviceType}
+          onChange={(e) => setDeviceType(e.target.value as DeviceType)}
+          className="text-xs px-3 py-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-700 dark:text-zinc-300 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        >
+          {Object.entries(DEVICE_TYPE_CONFIG).map(([key, cfg]) => (
+            <option key={key} value={key}>
+              {cfg.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleAccept}
+          disabled={busy}
+          className="inline-flex items-center gap-1.5 px-3 py-2 text-xs rounded-lg bg-emerald-600 text-white hover:bg-emerald-700 transition-colors disabled:opacity-50"
+        >
+          <Check size={14} />
+          Freigeben
+        </button>
+        {rejected ? (
+          <button
+            type="button"
+            onClick={handleForget}
+            disabled={busy}
+            title="Eintrag entfernen; das nächste Uplink wird wieder nach Richtlinie behandelt"
+            className="inline-flex items-center gap-1.5 px-3 py-2 text-xs rounded-lg border border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors disabled:opacity-50"
+          >
+            <RotateCcw size={14} />
+            Zurücksetzen
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={handleReject}
+            disabled={busy}
+            className="inline-flex items-center gap-1.5 px-3 py-2 text-xs rounded-lg bg-red-600 text-white hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            <X size={14} />
+            Ablehnen
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function ProvisioningPage() {
+  const [policy, setPolicy] = useState<ProvisioningPolicy | null>(null)
+  const [devices, setDevices] = useState<PendingDevice[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchData = useCallback(async () => {
+    try {
+      const data = await getProvisioning()
+      setPolicy(data.policy)
+      setDevices(data.devices)
+      setError(null)
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Fehler beim Laden")
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const handleSSE = useCallback(
+    (event: SSEEvent) => {
+      if (event.type === "device-pending" || event.type === "device-accepted") fetchData()
+    },
+    [fetchData]
+  )
+  useSSE(handleSSE)
+
+  const pending = devices.filter((d) => d.status === "pending")
+  const rejected = devices.filter((d) => d.status === "rejected")
+
+  return (
+    <div className="min-h-screen p-4 sm:p-6 lg:p-8">
+      <BackgroundPlus className="fixed inset-0 opacity-[0.03]" plusColor="#10b981" plusSize={60} fade={true} />
+
+      <div className="relative max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center gap-3">
+          <Link
+            href="/"
+            className="p-2 rounded-lg border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 hover:bg-zinc-50 dark:hover:bg-zinc-800 transition-colors"
+          >
+            <ArrowLeft size={16} className="text-zinc-500" />
+          </Link>
+          <div>
+            <h1 className="text-xl font-bold text-zinc-900 dark:text-zinc-100 flex items-center gap-2">
+              <Inbox size={18} className="text-emerald-500" />
+              Neue Geräte
+            </h1>
+            <p className="text-xs text-zinc-500">
+              Richtlinie für unbekannte DevEUIs: {policy ? POLICY_LABELS[policy] : "—"}
+            </p>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white/70 dark:bg-zinc-950/70 p-8 text-center text-zinc-500">
+            Lade Geräte...
+          </div>
+        ) : error ? (
+          <div className="rounded-xl border border-red-200 dark:border-red-900/50 bg-red-50 dark:bg-red-950/30 p-4 text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        ) : (
+          <>
+            <section className="space-y-3">
+              <h2 className="text-xs font-semibold text-zinc-500 uppercase tracking-wide">
+                Warten auf Freigabe ({pending.length})
+              </h2>
+              {pending.length === 0 ? (
+                <div className="rounded-xl border border-zinc-200 dark:border-zinc-800 bg-white/70 dark:bg-zinc-950/70 p-8 text-center text-zinc-500">
+                  Keine Geräte warten auf Freigabe.
+                </div>
+              ) : (
+                pending.map((d) => <PendingRow key={d.dev_eui} device={d} onChanged={fetchData} />)
+              )}
+            </section>
+
+            {rejected.length > 0 && (
+              <section className="space-y-3">
+                <h2 className="text-xs font-semibold text-zinc-500 uppercase tracking-wide">
+                  Abgelehnt ({rejected.length})
+                </h2>
+                {rejected.map((d) => (
+                  <PendingRow key={d.dev_eui} device={d} onChanged={fetchData} />
+                ))}
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -9,6 +9,9 @@ const EVENT_COLORS: Record<string, string> = {
   overshoot: "#ef4444",
   auto_recalibrate: "#f97316",
   manual_recalibrate: "#3b82f6",
+  fcnt_gap: "#a855f7",
+  fcnt_reset: "#14b8a6",
+  rollover: "#22c55e",
 }
 
 export function AnomalyChart({ anomalies }: { anomalies: Anomaly[] }) {
@@ -4,15 +4,9 @@ import { useState } from "react"
 import { useRouter } from "next/navigation"
 import { Trash2 } from "lucide-react"
 import { toast } from "sonner"
-import { deleteConfiguredDevice, deleteDevice } from "@/lib/api"
+import { deleteConfiguredDevice } from "@/lib/api"
 
-export function DeleteDevicePanel({
-  deviceUuid,
-  devEui,
-}: {
-  deviceUuid: string
-  devEui: string
-}) {
+export function DeleteDevicePanel({ deviceUuid }: { deviceUuid: string }) {
   const router = useRouter()
   const [showConfirm, setShowConfirm] = useState(false)
   const [deleting, setDeleting] = useState(false)
@@ -21,7 +15,6 @@ export function DeleteDevicePanel({
     setDeleting(true)
     try {
       await deleteConfiguredDevice(deviceUuid)
-      await deleteDevice(devEui)
       toast.success("Gerät gelöscht")
       router.push("/")
     } catch (err) {
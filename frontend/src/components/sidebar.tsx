@@ -13,6 +13,8 @@ import {
   Download,
   Plus,
   Trash2,
+  Inbox,
+  RadioTower,
 } from "lucide-react"
 import { EmoniLogo } from "./emoni-logo"
 import { useDeviceControls } from "@/lib/device-controls-context"
@@ -20,6 +22,8 @@ import { useHomeControls } from "@/lib/home-controls-context"
 
 const navItems = [
   { label: "Dashboard", href: "/", icon: LayoutDashboard },
+  { label: "Neue Geräte", href: "/provisioning", icon: Inbox },
+  { label: "Gateways", href: "/gateways", icon: RadioTower },
 ]
 
 const deviceSectionGroups = [
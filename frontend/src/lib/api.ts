@@ -2,7 +2,13 @@ import type {
   DeviceSummary,
   DeviceType,
   ConfiguredDevice,
+  Gateway,
+  GatewayDevice,
+  PendingDevice,
+  PendingDeviceStatus,
+  ProvisioningPolicy,
   Reading,
+  ReadingQuality,
   Uplink,
   DailyConsumption,
   Anomaly,
@@ -65,6 +71,8 @@ export async function createConfiguredDevice(input: {
   dev_eui: string
   name: string
   device_type: string
+  /** Reassigns a DevEUI that is already bound from this time on (default: now) */
+  bound_from?: string
 }): Promise<ConfiguredDevice> {
   const data = await fetchJSON<{ device: ConfiguredDevice }>("/api/configured-devices", {
     method: "POST",
@@ -86,17 +94,68 @@ export async function updateConfiguredDevice(
   return data.device
 }
 
-export async function deleteConfiguredDevice(uuid: string): Promise<void> {
-  await fetchJSON(`/api/configured-devices/${encodeURIComponent(uuid)}`, { method: "DELETE" })
+export async function deleteConfiguredDevice(uuid: string): Promise<{ readingsDeleted: number; uplinksDeleted: number }> {
+  return fetchJSON(`/api/configured-devices/${encodeURIComponent(uuid)}`, { method: "DELETE" })
+}
+
+// Provisioning (unknown DevEUIs awaiting approval)
+export async function getProvisioning(
+  status?: PendingDeviceStatus,
+): Promise<{ policy: ProvisioningPolicy; devices: PendingDevice[] }> {
+  const params = new URLSearchParams()
+  if (status) params.set("status", status)
+  return fetchJSON(`/api/provisioning?${params}`)
+}
+
+export async function acceptPendingDevice(
+  devEui: string,
+  input: { name?: string; device_type?: DeviceType },
+): Promise<{ device: ConfiguredDevice; imported: { uplinks: number; readings: number } }> {
+  return fetchJSON(`/api/provisioning/${encodeURIComponent(devEui)}/accept`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  })
+}
+
+export async function rejectPendingDevice(devEui: string): Promise<void> {
+  await fetchJSON(`/api/provisioning/${encodeURIComponent(devEui)}/reject`, { method: "POST" })
+}
+
+export async function forgetPendingDevice(devEui: string): Promise<void> {
+  await fetchJSON(`/api/provisioning/${encodeURIComponent(devEui)}`, { method: "DELETE" })
+}
+
+// Gateways
+export async function getGateways(): Promise<Gateway[]> {
+  const data = await fetchJSON<{ gateways: Gateway[] }>("/api/gateways")
+  return data.gateways
+}
+
+export async function getGateway(gatewayId: string): Promise<{ gateway: Gateway; devices: GatewayDevice[] }> {
+  return fetchJSON(`/api/gateways/${encodeURIComponent(gatewayId)}`)
+}
+
+export async function updateGateway(
+  gatewayId: string,
+  data: { name?: string | null; latitude?: number | null; longitude?: number | null; altitude?: number | null },
+): Promise<Gateway> {
+  const res = await fetchJSON<{ gateway: Gateway }>(`/api/gateways/${encodeURIComponent(gatewayId)}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  })
+  return res.gateway
 }
 
 // Readings & Uplinks
-export async function getReadings(devEuiOrUuid: string, from?: string, to?: string): Promise<Reading[]> {
+export async function getReadings(devEuiOrUuid: string, from?: string, to?: string, quality?: ReadingQuality[]): Promise<Reading[]> {
   const params = new URLSearchParams()
   if (isUUID(devEuiOrUuid)) params.set("uuid", devEuiOrUuid)
   else params.set("devEui", devEuiOrUuid)
   if (from) params.set("from", from)
   if (to) params.set("to", to)
+  if (quality) params.set("quality", quality.join(","))
   const data = await fetchJSON<{ readings: Reading[] }>(`/api/readings?${params}`)
   return data.readings
 }
@@ -126,13 +185,15 @@ export async function getDailyConsumption(
   days?: number,
   tz?: string,
   end?: string,
-): Promise<{ series: DailyConsumption[]; days: number; tz: string }> {
+  quality?: ReadingQuality[],
+): Promise<{ series: DailyConsumption[]; days: number; tz: string; unit: string | null; energy_unit: string | null }> {
   const params = new URLSearchParams()
   if (isUUID(devEuiOrUuid)) params.set("uuid", devEuiOrUuid)
   else params.set("devEui", devEuiOrUuid)
   if (days) params.set("days", String(days))
   if (tz) params.set("tz", tz)
   if (end) params.set("end", end)
+  if (quality) params.set("quality", quality.join(","))
   return fetchJSON(`/api/consumption/daily?${params}`)
 }
 
@@ -1,4 +1,4 @@
-import type { DeviceType, DeviceStatus, DeviceSummary } from "./types"
+import type { DeviceType, DeviceStatus, DeviceSummary, Gateway } from "./types"
 import { DEVICE_TYPE_CONFIG, STATUS_ACTIVE_MULTIPLIER, STATUS_WARNING_MULTIPLIER } from "./constants"
 
 export function formatMeterValue(value: number | null, deviceType: DeviceType = "unknown"): string {
@@ -99,15 +99,24 @@ export function estimateBatteryLifetime(batteryMv: number | null, intervalSecond
   return `~${(daysLeft / 365).toFixed(1)} Jahre`
 }
 
-export function getDeviceStatus(device: DeviceSummary): DeviceStatus {
-  if (!device.last_seen) return "inactive"
-  const elapsed = (Date.now() - new Date(device.last_seen).getTime()) / 1000
-  const interval = device.avg_interval_seconds || 3600
+/** Status from the last sign of life, relative to the usual interval (defaults to one hour). */
+export function getStatusFromLastSeen(lastSeen: string | null, avgIntervalSeconds: number | null): DeviceStatus {
+  if (!lastSeen) return "inactive"
+  const elapsed = (Date.now() - new Date(lastSeen).getTime()) / 1000
+  const interval = avgIntervalSeconds || 3600
   if (elapsed <= interval * STATUS_ACTIVE_MULTIPLIER) return "active"
   if (elapsed <= interval * STATUS_WARNING_MULTIPLIER) return "warning"
   return "offline"
 }
 
+export function getDeviceStatus(device: DeviceSummary): DeviceStatus {
+  return getStatusFromLastSeen(device.last_seen, device.avg_interval_seconds)
+}
+
+export function getGatewayStatus(gateway: Gateway): DeviceStatus {
+  return getStatusFromLastSeen(gateway.last_seen, gateway.avg_interval_seconds)
+}
+
 export function estimateDeviceUptimeMs(device: DeviceSummary): number | null {
   const status = getDeviceStatus(device)
   if (status === "inactive") return null
@@ -27,6 +27,58 @@ export interface ConfiguredDevice {
   name: string
   device_type: DeviceType
   created_at: string
+  payload_format: "wmbus" | null
+  has_wmbus_key: boolean
+  /** The part of the DevEUI's history this device owns, [bound_from, bound_to); null = unbounded */
+  bound_from: string | null
+  bound_to: string | null
+}
+
+export type ProvisioningPolicy = "auto" | "pending" | "reject"
+export type PendingDeviceStatus = "pending" | "rejected"
+
+/** A DevEUI that sent uplinks but has no configured device yet */
+export interface PendingDevice {
+  dev_eui: string
+  status: PendingDeviceStatus
+  provider: string | null
+  device_name: string | null
+  application_id: string | null
+  guessed_type: DeviceType
+  first_seen_at: string
+  last_seen_at: string
+  uplink_count: number
+  last_decoded_json: string | null
+  decided_at: string | null
+}
+
+/** A LoRaWAN gateway that forwarded at least one uplink */
+export interface Gateway {
+  gateway_id: string
+  name: string | null
+  reported_name: string | null
+  latitude: number | null
+  longitude: number | null
+  altitude: number | null
+  location_manual: number
+  first_seen: string
+  last_seen: string
+  status: DeviceStatus
+  status_changed_at: string | null
+  uplinks_forwarded: number
+  devices_heard: number
+  avg_interval_seconds: number | null
+}
+
+/** Reception statistics of one device as heard by a gateway */
+export interface GatewayDevice {
+  dev_eui: string
+  device_name: string | null
+  uplinks_heard: number
+  avg_rssi: number | null
+  avg_snr: number | null
+  best_rssi: number | null
+  last_heard: string
 }
 
 export interface Reading {
@@ -41,8 +93,14 @@ export interface Reading {
   battery_mv: number | null
   rssi: number | null
   snr: number | null
+  /** Counter continued across meter replacements and offset corrections */
+  total_value?: number | null
+  quality?: ReadingQuality
+  quality_reasons?: string | null
 }
 
+export type ReadingQuality = "valid" | "suspect" | "rejected"
+
 export interface Uplink {
   id: number
   dev_eui: string
@@ -57,6 +115,12 @@ export interface Uplink {
   battery_mv: number | null
   rssi: number | null
   snr: number | null
+  f_cnt: number | null
+  f_port: number | null
+  data_rate: number | null
+  spreading_factor: number | null
+  frequency: number | null
+  confirmed: number | null
   decoded_json: Record<string, unknown> | null
   payload_json: Record<string, unknown> | null
 }
@@ -65,6 +129,8 @@ export interface DailyConsumption {
   date: string
   consumption: number | null
   closing: number | null
+  /** Gas only: consumption × Zustandszahl × Brennwert; null without a conversion factor for the day */
+  energy_kwh?: number | null
 }
 
 export interface Anomaly {
@@ -82,7 +148,7 @@ export interface Anomaly {
 }
 
 export interface SSEEvent {
-  type: "up" | "auto-recalibrate" | "manual-recalibrate"
+  type: "up" | "auto-recalibrate" | "manual-recalibrate" | "device-pending" | "device-accepted" | "gateway-offline" | "gateway-online"
   devEui: string
   deviceName?: string | null
   at?: string
@@ -0,0 +1,244 @@
+import type { NetworkEventKind, ParsedNetworkEvent, ParsedUplink, WebhookAdapter, WebhookContext } from "./types.js";
+import {
+  asRecord,
+  bestSignal,
+  boolOrNull,
+  buildDeduplicationId,
+  decodeBase64,
+  extractBatteryMv,
+  extractMeter,
+  firstDefined,
+  frequencyHz,
+  getDeep,
+  mapReceptions,
+  normalizeDevEui,
+  numOrNull,
+  parseJsonObject,
+  strOrNull,
+  validateCommon,
+} from "./util.js";
+
+const CHIRPSTACK_EVENTS: Record<string, "up" | NetworkEventKind> = {
+  up: "up",
+  join: "join",
+  ack: "ack",
+  txack: "txack",
+  status: "status",
+  log: "log",
+  error: "log", // v3 name for what v4 calls `log`
+  location: "location",
+};
+
+/** Map the `?event=` query parameter; a missing parameter means uplink. */
+function classifyChirpstackEvent(ctx: WebhookContext): "up" | NetworkEventKind | null {
+  const event = ctx.event.trim().toLowerCase();
+  if (!event) return "up";
+  return CHIRPSTACK_EVENTS[event] ?? null;
+}
+
+function parseLocation(loc: Record<string, unknown> | null) {
+  return {
+    latitude: numOrNull(loc?.latitude),
+    longitude: numOrNull(loc?.longitude),
+    altitude: numOrNull(loc?.altitude),
+    locationSource: strOrNull(loc?.source),
+  };
+}
+
+/**
+ * ChirpStack v4 HTTP integration (`deviceInfo` envelope, hex DevEUI).
+ * https://www.chirpstack.io/docs/chirpstack/integrations/events.html
+ */
+export const chirpstackV4Adapter: WebhookAdapter = {
+  id: "chirpstack",
+
+  detect(body) {
+    return !!asRecord(body?.deviceInfo);
+  },
+
+  parse(body): ParsedUplink {
+    const info = asRecord(body.deviceInfo) ?? {};
+    const { hex: devEui, base64: devEuiB64 } = normalizeDevEui(info.devEui);
+
+    const at = String(body.time ?? new Date().toISOString());
+    const rx = Array.isArray(body.rxInfo) ? body.rxInfo : [];
+    const signal = bestSignal(rx, ["rssi"], ["snr"]);
+    const decodedObj = asRecord(body.object);
+    const frmPayload = decodeBase64(body.data);
+    const { meterValue, meterValueRaw } = extractMeter(decodedObj, frmPayload);
+
+    return {
+      provider: this.id,
+      devEui,
+      devEuiB64,
+      deviceName: strOrNull(info.deviceName),
+      applicationId: strOrNull(info.applicationId),
+      applicationName: strOrNull(info.applicationName),
+      at,
+      deduplicationId: buildDeduplicationId(body.deduplicationId, at),
+      rssi: signal.rssi,
+      snr: signal.snr,
+      receptions: mapReceptions(rx, r => {
+        const loc = asRecord(r.location);
+        return {
+          gatewayId: String(r.gatewayId ?? "").toLowerCase(),
+          gatewayName: null,
+          rssi: numOrNull(r.rssi),
+          snr: numOrNull(r.snr),
+          channel: numOrNull(r.channel),
+          at: strOrNull(r.gwTime ?? r.nsTime ?? r.time),
+          latitude: numOrNull(loc?.latitude),
+          longitude: numOrNull(loc?.longitude),
+          altitude: numOrNull(loc?.altitude),
+        };
+      }),
+      fCnt: numOrNull(body.fCnt),
+      fPort: numOrNull(body.fPort),
+      dataRate: numOrNull(body.dr),
+      spreadingFactor: numOrNull(getDeep(body, ["txInfo", "modulation", "lora", "spreadingFactor"])),
+      frequency: frequencyHz(getDeep(body, ["txInfo", "frequency"])),
+      confirmed: boolOrNull(body.confirmed),
+      battery_mv: extractBatteryMv(decodedObj),
+      meterValue,
+      meterValueRaw,
+      decodedObj,
+      frmPayload,
+      payloadObj: body,
+    };
+  },
+
+  validate(parsed) {
+    return validateCommon(parsed);
+  },
+
+  classify(_body, ctx) {
+    return classifyChirpstackEvent(ctx);
+  },
+
+  parseEvent(kind, body): ParsedNetworkEvent {
+    const info = asRecord(body.deviceInfo) ?? {};
+    const { hex: devEui, base64: devEuiB64 } = normalizeDevEui(info.devEui);
+
+    return {
+      provider: this.id,
+      kind,
+      devEui,
+      devEuiB64,
+      deviceName: strOrNull(info.deviceName),
+      applicationId: strOrNull(info.applicationId),
+      at: String(body.time ?? new Date().toISOString()),
+      devAddr: strOrNull(body.devAddr),
+      margin: numOrNull(body.margin),
+      batteryLevel: body.batteryLevelUnavailable ? null : numOrNull(body.batteryLevel),
+      externalPower: boolOrNull(body.externalPowerSource),
+      downlinkRef: strOrNull(body.queueItemId ?? body.downlinkId),
+      acknowledged: kind === "ack" ? (boolOrNull(body.acknowledged) ?? false) : null,
+      fCntDown: numOrNull(body.fCntDown),
+      gatewayId: strOrNull(body.gatewayId),
+      level: strOrNull(body.level),
+      code: strOrNull(body.code),
+      description: strOrNull(body.description),
+      ...parseLocation(asRecord(body.location)),
+      payloadObj: body,
+    };
+  },
+};
+
+/**
+ * ChirpStack v3 (legacy) HTTP integration: flat body, base64 `devEUI`,
+ * `objectJSON` as a string and `loRaSNR` per gateway.
+ */
+export const chirpstackV3Adapter: WebhookAdapter = {
+  id: "chirpstack-v3",
+
+  detect(body) {
+    return body?.devEUI != null && (body.applicationID != null || Array.isArray(body.rxInfo));
+  },
+
+  parse(body): ParsedUplink {
+    const { hex: devEui, base64: devEuiB64 } = normalizeDevEui(body.devEUI);
+
+    const rx = Array.isArray(body.rxInfo) ? body.rxInfo : [];
+    const at = String(firstDefined(body, [["publishedAt"], ["rxInfo", 0, "time"]]) ?? new Date().toISOString());
+    const signal = bestSignal(rx, ["rssi"], ["loRaSNR", "loraSNR"]);
+    const decodedObj = asRecord(body.object) ?? parseJsonObject(body.objectJSON);
+    const frmPayload = decodeBase64(body.data);
+    const { meterValue, meterValueRaw } = extractMeter(decodedObj, frmPayload);
+
+    return {
+      provider: this.id,
+      devEui,
+      devEuiB64,
+      deviceName: strOrNull(body.deviceName),
+      applicationId: strOrNull(body.applicationID),
+      applicationName: strOrNull(body.applicationName),
+      at,
+      deduplicationId: buildDeduplicationId(body.fCnt, at),
+      rssi: signal.rssi,
+      snr: signal.snr,
+      receptions: mapReceptions(rx, r => {
+        const loc = asRecord(r.location);
+        return {
+          gatewayId: normalizeDevEui(r.gatewayID).hex ?? "",
+          gatewayName: strOrNull(r.name),
+          rssi: numOrNull(r.rssi),
+          snr: numOrNull(r.loRaSNR ?? r.loraSNR),
+          channel: numOrNull(r.channel),
+          at: strOrNull(r.time),
+          latitude: numOrNull(loc?.latitude),
+          longitude: numOrNull(loc?.longitude),
+          altitude: numOrNull(loc?.altitude),
+        };
+      }),
+      fCnt: numOrNull(body.fCnt),
+      fPort: numOrNull(body.fPort),
+      dataRate: numOrNull(body.dr),
+      spreadingFactor: numOrNull(getDeep(body, ["txInfo", "loRaModulationInfo", "spreadingFactor"])),
+      frequency: frequencyHz(getDeep(body, ["txInfo", "frequency"])),
+      confirmed: boolOrNull(body.confirmedUplink),
+      battery_mv: extractBatteryMv(decodedObj),
+      meterValue,
+      meterValueRaw,
+      decodedObj,
+      frmPayload,
+      payloadObj: body,
+    };
+  },
+
+  validate(parsed, body) {
+    const errors = validateCommon(parsed);
+    if (numOrNull(body?.fCnt) == null) errors.push("missing fCnt");
+    return errors;
+  },
+
+  classify(_body, ctx) {
+    return classifyChirpstackEvent(ctx);
+  },
+
+  parseEvent(kind, body): ParsedNetworkEvent {
+    const { hex: devEui, base64: devEuiB64 } = normalizeDevEui(body.devEUI);
+
+    return {
+      provider: this.id,
+      kind,
+      devEui,
+      devEuiB64,
+      deviceName: strOrNull(body.deviceName),
+      applicationId: strOrNull(body.applicationID),
+      at: String(body.publishedAt ?? new Date().toISOString()),
+      devAddr: strOrNull(body.devAddr),
+      margin: numOrNull(body.margin),
+      batteryLevel: body.batteryLevelUnavailable ? null : numOrNull(body.batteryLevel),
+      externalPower: boolOrNull(body.externalPowerSource),
+      downlinkRef: null,
+      acknowledged: kind === "ack" ? (boolOrNull(body.acknowledged) ?? false) : null,
+      fCntDown: numOrNull(body.fCnt),
+      gatewayId: strOrNull(body.gatewayID),
+      level: kind === "log" ? "ERROR" : null,
+      code: strOrNull(body.type),
+      description: strOrNull(body.error),
+      ...parseLocation(asRecord(body.location)),
+      payloadObj: body,
+    };
+  },
+};
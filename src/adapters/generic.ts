@@ -0,0 +1,81 @@
+import type { ParsedUplink, WebhookAdapter } from "./types.js";
+import {
+  asRecord,
+  boolOrNull,
+  buildDeduplicationId,
+  decodeBase64,
+  extractBatteryMv,
+  extractMeter,
+  firstDefined,
+  frequencyHz,
+  normalizeDevEui,
+  numOrNull,
+  parseJsonObject,
+  spreadingFactorOf,
+  strOrNull,
+  validateCommon,
+} from "./util.js";
+
+/**
+ * Fallback for our own gateway bridges and hand-rolled integrations: flat
+ * bodies such as `{ devEui, meterValue, battery_mv }` or `{ device: { devEui } }`.
+ * Always detects, so it must stay last in the registry.
+ */
+export const genericAdapter: WebhookAdapter = {
+  id: "generic",
+
+  detect() {
+    return true;
+  },
+
+  parse(body): ParsedUplink {
+    const devEuiRaw = firstDefined(body, [
+      ["device", "devEui"],
+      ["devEui"],
+      ["devEUI"],
+      ["dev_eui"],
+      ["deviceEui"],
+    ]);
+    const { hex: devEui, base64: devEuiB64 } = normalizeDevEui(devEuiRaw);
+
+    const at = String(firstDefined(body, [["time"], ["publishedAt"], ["received_at"]]) ?? new Date().toISOString());
+    const decodedObj =
+      asRecord(firstDefined(body, [["object"], ["decoded_payload"]])) ??
+      parseJsonObject(firstDefined(body, [["objectJSON"], ["objectJson"]])) ??
+      null;
+
+    const direct = firstDefined(body, [["meterValue"], ["meter_value"], ["obis_1_8_0"], ["message"]]);
+    const frmPayload = decodeBase64(firstDefined(body, [["data"], ["frm_payload"], ["payload_raw"]]));
+    const { meterValue, meterValueRaw } = extractMeter(decodedObj, frmPayload, direct);
+
+    return {
+      provider: asRecord(body?.device) ? "generic-device" : this.id,
+      devEui,
+      devEuiB64,
+      deviceName: strOrNull(firstDefined(body, [["device", "name"], ["deviceName"]])),
+      applicationId: strOrNull(body?.applicationId),
+      applicationName: strOrNull(body?.applicationName),
+      at,
+      deduplicationId: buildDeduplicationId(firstDefined(body, [["deduplicationId"], ["deduplication_id"], ["f_cnt"]]), at),
+      rssi: numOrNull(body?.rssi),
+      snr: numOrNull(firstDefined(body, [["loRaSNR"], ["loraSNR"], ["snr"]])),
+      receptions: [],
+      fCnt: numOrNull(firstDefined(body, [["fCnt"], ["f_cnt"], ["fcnt"]])),
+      fPort: numOrNull(firstDefined(body, [["fPort"], ["f_port"], ["port"]])),
+      dataRate: numOrNull(firstDefined(body, [["dr"], ["dataRate"], ["data_rate"]])),
+      spreadingFactor: spreadingFactorOf(firstDefined(body, [["spreadingFactor"], ["spreading_factor"], ["sf"]])),
+      frequency: frequencyHz(firstDefined(body, [["frequency"], ["freq"]])),
+      confirmed: boolOrNull(body?.confirmed),
+      battery_mv: extractBatteryMv(decodedObj, firstDefined(body, [["battery_mv"], ["batteryMv"]])),
+      meterValue,
+      meterValueRaw,
+      decodedObj,
+      frmPayload,
+      payloadObj: body,
+    };
+  },
+
+  validate(parsed) {
+    return validateCommon(parsed);
+  },
+};
@@ -0,0 +1,82 @@
+import type { ParsedUplink, WebhookAdapter } from "./types.js";
+import {
+  asRecord,
+  bestSignal,
+  buildDeduplicationId,
+  decodeBase64,
+  extractBatteryMv,
+  extractMeter,
+  firstDefined,
+  frequencyHz,
+  mapReceptions,
+  normalizeDevEui,
+  numOrNull,
+  spreadingFactorOf,
+  strOrNull,
+  toIsoTime,
+  validateCommon,
+} from "./util.js";
+
+/**
+ * Helium Console HTTP integration: `hotspots[]` receptions, `reported_at` in
+ * epoch milliseconds, decoder output under `decoded.payload`.
+ */
+export const heliumAdapter: WebhookAdapter = {
+  id: "helium",
+
+  detect(body) {
+    return Array.isArray(body?.hotspots) && body?.dev_eui != null;
+  },
+
+  parse(body): ParsedUplink {
+    const { hex: devEui, base64: devEuiB64 } = normalizeDevEui(body.dev_eui);
+
+    const at = toIsoTime(body.reported_at) ?? new Date().toISOString();
+    const signal = bestSignal(body.hotspots, ["rssi"], ["snr"]);
+    const decodedObj = asRecord(asRecord(body.decoded)?.payload);
+    const frmPayload = decodeBase64(body.payload);
+    const { meterValue, meterValueRaw } = extractMeter(decodedObj, frmPayload);
+
+    return {
+      provider: this.id,
+      devEui,
+      devEuiB64,
+      deviceName: strOrNull(body.name),
+      applicationId: strOrNull(body.app_eui),
+      applicationName: null,
+      at,
+      deduplicationId: buildDeduplicationId(body.fcnt, at),
+      rssi: signal.rssi,
+      snr: signal.snr,
+      receptions: mapReceptions(body.hotspots, r => ({
+        gatewayId: String(r.id ?? ""),
+        gatewayName: strOrNull(r.name),
+        rssi: numOrNull(r.rssi),
+        snr: numOrNull(r.snr),
+        channel: numOrNull(r.channel),
+        at: toIsoTime(r.reported_at),
+        latitude: numOrNull(r.lat),
+        longitude: numOrNull(r.long),
+        altitude: null,
+      })),
+      fCnt: numOrNull(body.fcnt),
+      fPort: numOrNull(body.port),
+      dataRate: null,
+      spreadingFactor: spreadingFactorOf(firstDefined(body, [["hotspots", 0, "spreading"]])),
+      frequency: frequencyHz(firstDefined(body, [["hotspots", 0, "frequency"]])),
+      confirmed: null,
+      battery_mv: extractBatteryMv(decodedObj),
+      meterValue,
+      meterValueRaw,
+      decodedObj,
+      frmPayload,
+      payloadObj: body,
+    };
+  },
+
+  validate(parsed, body) {
+    const errors = validateCommon(parsed);
+    if (body?.type != null && body.type !== "uplink") errors.push(`unsupported Helium message type "${body.type}"`);
+    return errors;
+  },
+};
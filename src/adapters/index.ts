@@ -0,0 +1,67 @@
+import type { ParsedNetworkEvent, ParsedUplink, WebhookAdapter, WebhookContext } from "./types.js";
+import { ttnAdapter } from "./ttn.js";
+import { chirpstackV4Adapter, chirpstackV3Adapter } from "./chirpstack.js";
+import { heliumAdapter } from "./helium.js";
+import { loriotAdapter } from "./loriot.js";
+import { genericAdapter } from "./generic.js";
+
+export type {
+  NetworkEventKind,
+  ParsedNetworkEvent,
+  ParsedReception,
+  ParsedUplink,
+  WebhookAdapter,
+  WebhookContext,
+} from "./types.js";
+export { TTN_CORRELATION_PREFIX } from "./ttn.js";
+
+// Detection runs in this order; the generic adapter is always tried last.
+const adapters: readonly WebhookAdapter[] = [
+  ttnAdapter,
+  chirpstackV4Adapter,
+  chirpstackV3Adapter,
+  heliumAdapter,
+  loriotAdapter,
+];
+
+export function listAdapters(): string[] {
+  return [...adapters, genericAdapter].map(a => a.id);
+}
+
+export function detectAdapter(body: unknown, ctx: WebhookContext): WebhookAdapter {
+  for (const a of adapters) {
+    try {
+      if (a.detect(body, ctx)) return a;
+    } catch {}
+  }
+  return genericAdapter;
+}
+
+export interface AdapterResult {
+  adapter: string;
+  parsed: ParsedUplink;
+  errors: string[];
+}
+
+export type WebhookResult =
+  | ({ type: "up" } & AdapterResult)
+  | { type: "event"; adapter: string; event: ParsedNetworkEvent }
+  | { type: "ignored"; adapter: string; reason: string };
+
+/**
+ * Classify a body into an uplink, a non-uplink network event, or something
+ * we deliberately ignore (e.g. ChirpStack `integration` events).
+ */
+export function routeWebhookBody(body: unknown, ctx: WebhookContext): WebhookResult {
+  const adapter = detectAdapter(body, ctx);
+  const kind = adapter.classify ? adapter.classify(body ?? {}, ctx) : "up";
+
+  if (kind === "up") {
+    const parsed = adapter.parse(body ?? {}, ctx);
+    return { type: "up", adapter: adapter.id, parsed, errors: adapter.validate(parsed, body) };
+  }
+  if (kind == null || !adapter.parseEvent) {
+    return { type: "ignored", adapter: adapter.id, reason: `unsupported event "${ctx.event}"` };
+  }
+  return { type: "event", adapter: adapter.id, event: adapter.parseEvent(kind, body ?? {}, ctx) };
+}
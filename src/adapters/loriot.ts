@@ -0,0 +1,81 @@
+import type { ParsedUplink, WebhookAdapter } from "./types.js";
+import {
+  asRecord,
+  bestSignal,
+  buildDeduplicationId,
+  decodeHex,
+  extractBatteryMv,
+  extractMeter,
+  frequencyHz,
+  mapReceptions,
+  normalizeDevEui,
+  numOrNull,
+  spreadingFactorOf,
+  toIsoTime,
+  validateCommon,
+} from "./util.js";
+
+/**
+ * LORIOT application output (`cmd: "rx"` / `"gw"`): uppercase hex `EUI`,
+ * hex `data`, `ts` in epoch milliseconds, optional `gws[]` receptions.
+ */
+export const loriotAdapter: WebhookAdapter = {
+  id: "loriot",
+
+  detect(body) {
+    return typeof body?.cmd === "string" && body?.EUI != null;
+  },
+
+  parse(body): ParsedUplink {
+    const { hex: devEui, base64: devEuiB64 } = normalizeDevEui(body.EUI);
+
+    const at = toIsoTime(body.ts) ?? new Date().toISOString();
+    const gws = Array.isArray(body.gws) ? body.gws : [];
+    const signal = bestSignal(gws, ["rssi"], ["snr"]);
+    const decodedObj = asRecord(body.decoded) ?? asRecord(body.object);
+    const frmPayload = decodeHex(body.data);
+    const { meterValue, meterValueRaw } = extractMeter(decodedObj, frmPayload);
+
+    return {
+      provider: this.id,
+      devEui,
+      devEuiB64,
+      deviceName: null,
+      applicationId: null,
+      applicationName: null,
+      at,
+      deduplicationId: buildDeduplicationId(body.fcnt, at),
+      rssi: signal.rssi ?? numOrNull(body.rssi),
+      snr: signal.snr ?? numOrNull(body.snr),
+      receptions: mapReceptions(gws, r => ({
+        gatewayId: String(r.gweui ?? "").toLowerCase(),
+        gatewayName: null,
+        rssi: numOrNull(r.rssi),
+        snr: numOrNull(r.snr),
+        channel: numOrNull(r.chan ?? r.channel),
+        at: toIsoTime(r.ts ?? r.time),
+        latitude: numOrNull(r.lat),
+        longitude: numOrNull(r.lon),
+        altitude: numOrNull(r.alt),
+      })),
+      fCnt: numOrNull(body.fcnt),
+      fPort: numOrNull(body.port),
+      dataRate: null,
+      spreadingFactor: spreadingFactorOf(body.dr),
+      frequency: frequencyHz(body.freq),
+      confirmed: null,
+      battery_mv: extractBatteryMv(decodedObj),
+      meterValue,
+      meterValueRaw,
+      decodedObj,
+      frmPayload,
+      payloadObj: body,
+    };
+  },
+
+  validate(parsed, body) {
+    const errors = validateCommon(parsed);
+    if (body?.cmd !== "rx" && body?.cmd !== "gw") errors.push(`unsupported LORIOT cmd "${body?.cmd}"`);
+    return errors;
+  },
+};
@@ -0,0 +1,151 @@
+import type { NetworkEventKind, ParsedNetworkEvent, ParsedUplink, WebhookAdapter } from "./types.js";
+import {
+  asRecord,
+  bestSignal,
+  boolOrNull,
+  buildDeduplicationId,
+  decodeBase64,
+  extractBatteryMv,
+  extractMeter,
+  frequencyHz,
+  getDeep,
+  mapReceptions,
+  normalizeDevEui,
+  numOrNull,
+  strOrNull,
+  validateCommon,
+} from "./util.js";
+
+/** Prefix of the correlation id we attach to every downlink we push. */
+export const TTN_CORRELATION_PREFIX = "emoni:downlink:";
+
+/** TTN message key → our event kind. `downlink_nack` becomes an unacknowledged `ack`. */
+const TTN_MESSAGE_KINDS: Array<[string, NetworkEventKind]> = [
+  ["join_accept", "join"],
+  ["downlink_ack", "ack"],
+  ["downlink_nack", "ack"],
+  ["downlink_sent", "txack"],
+  ["downlink_queued", "downlink_queued"],
+  ["downlink_failed", "downlink_failed"],
+  ["location_solved", "location"],
+];
+
+function findOurCorrelationId(...lists: unknown[]): string | null {
+  for (const list of lists) {
+    if (!Array.isArray(list)) continue;
+    const hit = list.find(c => typeof c === "string" && c.startsWith(TTN_CORRELATION_PREFIX));
+    if (hit) return hit as string;
+  }
+  return null;
+}
+
+/**
+ * The Things Stack (TTN v3) webhook format.
+ * https://www.thethingsindustries.com/docs/reference/data-formats/#uplink-messages
+ */
+export const ttnAdapter: WebhookAdapter = {
+  id: "ttn",
+
+  detect(body) {
+    return !!asRecord(body?.end_device_ids);
+  },
+
+  parse(body): ParsedUplink {
+    const ids = asRecord(body.end_device_ids) ?? {};
+    const msg = asRecord(body.uplink_message) ?? {};
+    const { hex: devEui, base64: devEuiB64 } = normalizeDevEui(ids.dev_eui);
+
+    const at = String(body.received_at ?? msg.received_at ?? new Date().toISOString());
+    const rx = Array.isArray(msg.rx_metadata) ? msg.rx_metadata : [];
+    const signal = bestSignal(rx, ["rssi", "channel_rssi"], ["snr"]);
+    const decodedObj = asRecord(msg.decoded_payload);
+    const frmPayload = decodeBase64(msg.frm_payload);
+    const { meterValue, meterValueRaw } = extractMeter(decodedObj, frmPayload);
+
+    return {
+      provider: this.id,
+      devEui,
+      devEuiB64,
+      deviceName: strOrNull(ids.device_id),
+      applicationId: strOrNull(asRecord(ids.application_ids)?.application_id),
+      applicationName: null,
+      at,
+      deduplicationId: buildDeduplicationId(msg.f_cnt, at),
+      rssi: signal.rssi ?? numOrNull(msg.rssi),
+      snr: signal.snr ?? numOrNull(msg.snr),
+      receptions: mapReceptions(rx, r => {
+        const gw = asRecord(r.gateway_ids) ?? {};
+        const loc = asRecord(r.location);
+        return {
+          gatewayId: String(gw.eui ?? gw.gateway_id ?? "").toLowerCase(),
+          gatewayName: strOrNull(gw.gateway_id),
+          rssi: numOrNull(r.rssi ?? r.channel_rssi),
+          snr: numOrNull(r.snr),
+          channel: numOrNull(r.channel_index),
+          at: strOrNull(r.time ?? r.received_at),
+          latitude: numOrNull(loc?.latitude),
+          longitude: numOrNull(loc?.longitude),
+          altitude: numOrNull(loc?.altitude),
+        };
+      }),
+      fCnt: numOrNull(msg.f_cnt),
+      fPort: numOrNull(msg.f_port),
+      dataRate: numOrNull(getDeep(msg, ["settings", "data_rate_index"])),
+      spreadingFactor: numOrNull(getDeep(msg, ["settings", "data_rate", "lora", "spreading_factor"])),
+      frequency: frequencyHz(getDeep(msg, ["settings", "frequency"])),
+      confirmed: boolOrNull(msg.confirmed),
+      battery_mv: extractBatteryMv(decodedObj),
+      meterValue,
+      meterValueRaw,
+      decodedObj,
+      frmPayload,
+      payloadObj: body,
+    };
+  },
+
+  validate(parsed, body) {
+    const errors = validateCommon(parsed);
+    if (!asRecord(body?.uplink_message)) errors.push("missing uplink_message");
+    return errors;
+  },
+
+  classify(body) {
+    if (asRecord(body?.uplink_message)) return "up";
+    const hit = TTN_MESSAGE_KINDS.find(([key]) => asRecord(body?.[key]));
+    return hit ? hit[1] : null;
+  },
+
+  parseEvent(kind, body): ParsedNetworkEvent {
+    const ids = asRecord(body.end_device_ids) ?? {};
+    const { hex: devEui, base64: devEuiB64 } = normalizeDevEui(ids.dev_eui);
+    const key = TTN_MESSAGE_KINDS.find(([k, v]) => v === kind && asRecord(body[k]))?.[0] ?? "";
+    const msg = asRecord(body[key]) ?? {};
+
+    // downlink_failed wraps the downlink and an error; the others are the downlink itself
+    const downlink = asRecord(msg.downlink) ?? msg;
+    const error = asRecord(msg.error);
+    const location = asRecord(msg.location);
+
+    return {
+      provider: this.id,
+      kind,
+      devEui,
+      devEuiB64,
+      deviceName: strOrNull(ids.device_id),
+      applicationId: strOrNull(asRecord(ids.application_ids)?.application_id),
+      at: String(body.received_at ?? msg.received_at ?? new Date().toISOString()),
+      devAddr: strOrNull(ids.dev_addr),
+      downlinkRef: findOurCorrelationId(downlink.correlation_ids, body.correlation_ids),
+      downlinkRefRequired: true,
+      acknowledged: kind === "ack" ? key === "downlink_ack" : null,
+      fCntDown: numOrNull(downlink.f_cnt),
+      code: error ? strOrNull(`${error.namespace ?? ""}:${error.name ?? ""}`) : null,
+      description: error ? strOrNull(error.message_format ?? error.name) : null,
+      latitude: numOrNull(location?.latitude),
+      longitude: numOrNull(location?.longitude),
+      altitude: numOrNull(location?.altitude),
+      locationSource: strOrNull(location?.source ?? msg.service),
+      payloadObj: body,
+    };
+  },
+};
@@ -0,0 +1,123 @@
+/** Request-level information handed to every adapter alongside the JSON body. */
+export interface WebhookContext {
+  /** Route the body arrived on, e.g. `/webhooks/ttn` */
+  path: string;
+  /** ChirpStack `?event=` query parameter (empty when absent) */
+  event: string;
+}
+
+/** One gateway's reception of an uplink. */
+export interface ParsedReception {
+  /** Gateway EUI (lowercase hex) where the provider exposes one, otherwise its gateway id */
+  gatewayId: string;
+  /** Human-readable gateway id/name when the provider has one besides the EUI */
+  gatewayName: string | null;
+  rssi: number | null;
+  snr: number | null;
+  channel: number | null;
+  /** Gateway receive time, when reported */
+  at: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  altitude: number | null;
+}
+
+/** Normalized uplink as produced by a provider adapter. */
+export interface ParsedUplink {
+  provider: string;
+  devEui: string | undefined;
+  devEuiB64: string | undefined;
+  deviceName: string | null;
+  applicationId: string | null;
+  applicationName: string | null;
+  at: string;
+  deduplicationId: string | null;
+  rssi: number | null;
+  snr: number | null;
+  /** Every gateway reception; `rssi`/`snr` above are the best of these */
+  receptions: ParsedReception[];
+  /** LoRaWAN frame metadata; null where the provider does not report it */
+  fCnt: number | null;
+  fPort: number | null;
+  /** Regional data-rate index (DR0…DR15) */
+  dataRate: number | null;
+  spreadingFactor: number | null;
+  /** Uplink frequency in Hz */
+  frequency: number | null;
+  confirmed: boolean | null;
+  battery_mv: number | null;
+  meterValue: number | null;
+  meterValueRaw: string | number | null;
+  decodedObj: Record<string, unknown> | null;
+  /** Raw application payload (FRMPayload), when the body carries it */
+  frmPayload: Buffer | null;
+  payloadObj: unknown;
+}
+
+/**
+ * A network-server specific webhook parser. Each adapter owns detection of its
+ * body shape, field extraction and validation; nothing is shared between
+ * providers except the helpers in `util.ts`.
+ */
+export interface WebhookAdapter {
+  /** Stable identifier, also stored as `uplinks.provider` */
+  id: string;
+  /** Return true when `body` looks like this provider's uplink format */
+  detect(body: any, ctx: WebhookContext): boolean;
+  parse(body: any, ctx: WebhookContext): ParsedUplink;
+  /** Return a list of problems; an empty list means the uplink can be stored */
+  validate(parsed: ParsedUplink, body: any): string[];
+  /**
+   * Classify a body as an uplink (`"up"`) or one of the non-uplink events.
+   * Adapters without this only ever deliver uplinks.
+   */
+  classify?(body: any, ctx: WebhookContext): "up" | NetworkEventKind | null;
+  parseEvent?(kind: NetworkEventKind, body: any, ctx: WebhookContext): ParsedNetworkEvent;
+}
+
+/**
+ * Non-uplink network-server events. ChirpStack names them via `?event=`,
+ * TTN via the message key in the body.
+ */
+export type NetworkEventKind =
+  | "join"
+  | "ack"
+  | "txack"
+  | "status"
+  | "log"
+  | "location"
+  | "downlink_queued"
+  | "downlink_failed";
+
+export interface ParsedNetworkEvent {
+  provider: string;
+  kind: NetworkEventKind;
+  devEui: string | undefined;
+  devEuiB64: string | undefined;
+  deviceName: string | null;
+  applicationId: string | null;
+  at: string;
+  /** join: newly assigned device address */
+  devAddr?: string | null;
+  /** status: link margin in dB and network-reported battery in percent */
+  margin?: number | null;
+  batteryLevel?: number | null;
+  externalPower?: boolean | null;
+  /** ack/txack: provider reference of the downlink (queue item / correlation id) */
+  downlinkRef?: string | null;
+  /** When set, only a downlink with exactly `downlinkRef` may be updated */
+  downlinkRefRequired?: boolean;
+  acknowledged?: boolean | null;
+  fCntDown?: number | null;
+  gatewayId?: string | null;
+  /** log: network-server log level, code and message */
+  level?: string | null;
+  code?: string | null;
+  description?: string | null;
+  /** location: resolved device position */
+  latitude?: number | null;
+  longitude?: number | null;
+  altitude?: number | null;
+  locationSource?: string | null;
+  payloadObj: unknown;
+}
@@ -0,0 +1,325 @@
+import type { ParsedReception, ParsedUplink } from "./types.js";
+
+// ---- shared helpers for provider adapters ----
+const HEX16 = /^[0-9a-fA-F]{16}$/;
+
+export function normalizeDevEui(v: unknown): { hex?: string; base64?: string } {
+  const s = typeof v === "string" ? v.trim() : "";
+  if (!s) return {};
+  if (HEX16.test(s)) return { hex: s.toLowerCase() };
+  try {
+    const buf = Buffer.from(s, "base64");
+    if (buf.length === 8) return { hex: buf.toString("hex"), base64: s };
+  } catch {}
+  return { hex: s.toLowerCase() };
+}
+
+export function numOrNull(v: unknown): number | null {
+  if (v == null) return null;
+  if (typeof v === "number") return Number.isFinite(v) ? v : null;
+  if (typeof v === "string") {
+    const n = Number(v);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+export function strOrNull(v: unknown): string | null {
+  if (v == null) return null;
+  const s = String(v);
+  return s ? s : null;
+}
+
+export function boolOrNull(v: unknown): boolean | null {
+  if (typeof v === "boolean") return v;
+  if (v === "true" || v === 1) return true;
+  if (v === "false" || v === 0) return false;
+  return null;
+}
+
+export function asRecord(v: unknown): Record<string, unknown> | null {
+  if (!v || typeof v !== "object" || Array.isArray(v)) return null;
+  return v as Record<string, unknown>;
+}
+
+export function getDeep(obj: unknown, path: Array<string | number>): unknown {
+  let cur: unknown = obj;
+  for (const seg of path) {
+    if (typeof seg === "number") {
+      if (!Array.isArray(cur) || seg < 0 || seg >= cur.length) return undefined;
+      cur = cur[seg];
+      continue;
+    }
+    const rec = asRecord(cur);
+    if (!rec || !(seg in rec)) return undefined;
+    cur = rec[seg];
+  }
+  return cur;
+}
+
+/**
+ * Parse the JSONPath subset used in mappings: `$.a.b`, `$.list[0].value`,
+ * `$['key with spaces']`. The leading `$` is optional. Returns null when the
+ * path is malformed.
+ */
+export function parseJsonPath(path: string): Array<string | number> | null {
+  let rest = path.trim();
+  if (rest.startsWith("$")) rest = rest.slice(1);
+  const out: Array<string | number> = [];
+  const token = /^(?:\.?([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[(['"])(.*?)\3\])/;
+  while (rest) {
+    const m = token.exec(rest);
+    if (!m) return null;
+    if (m[1] != null) out.push(m[1]);
+    else if (m[2] != null) out.push(Number(m[2]));
+    else out.push(m[4]);
+    rest = rest.slice(m[0].length);
+  }
+  return out;
+}
+
+export function firstDefined(obj: unknown, paths: Array<Array<string | number>>): unknown {
+  for (const p of paths) {
+    const v = getDeep(obj, p);
+    if (v !== undefined && v !== null) return v;
+  }
+  return undefined;
+}
+
+export function parseJsonObject(raw: unknown): Record<string, unknown> | null {
+  if (typeof raw !== "string") return null;
+  try {
+    const v = JSON.parse(raw);
+    return asRecord(v);
+  } catch {
+    return null;
+  }
+}
+
+export function decodeBase64(v: unknown): Buffer | null {
+  if (typeof v !== "string" || !v.trim()) return null;
+  try {
+    return Buffer.from(v, "base64");
+  } catch {
+    return null;
+  }
+}
+
+export function decodeHex(v: unknown): Buffer | null {
+  if (typeof v !== "string" || !/^(?:[0-9a-fA-F]{2})+$/.test(v.trim())) return null;
+  return Buffer.from(v.trim(), "hex");
+}
+
+/** Convert epoch milliseconds (number or numeric string) or an ISO string to ISO. */
+export function toIsoTime(v: unknown): string | null {
+  if (v == null || v === "") return null;
+  const n = numOrNull(v);
+  const d = n != null ? new Date(n) : new Date(String(v));
+  if (!Number.isFinite(d.getTime())) return null;
+  return n != null ? d.toISOString() : String(v);
+}
+
+export function findFirstKeyDeep(root: unknown, keys: string[], maxDepth = 4): unknown {
+  const wanted = new Set(keys);
+  const seen = new Set<unknown>();
+  const stack: Array<{ v: unknown; depth: number }> = [{ v: root, depth: 0 }];
+
+  while (stack.length) {
+    const { v, depth } = stack.pop()!;
+    if (v == null || seen.has(v) || depth > maxDepth) continue;
+    seen.add(v);
+
+    if (Array.isArray(v)) {
+      for (const item of v) stack.push({ v: item, depth: depth + 1 });
+      continue;
+    }
+
+    const rec = asRecord(v);
+    if (!rec) continue;
+
+    for (const [k, val] of Object.entries(rec)) {
+      if (wanted.has(k) && val != null) return val;
+      stack.push({ v: val, depth: depth + 1 });
+    }
+  }
+
+  return undefined;
+}
+
+export function parseMeterNumber(raw: unknown): { meterValue: number | null; meterValueRaw: string | number | null } {
+  if (typeof raw === "number") {
+    return {
+      meterValue: Number.isFinite(raw) ? raw : null,
+      meterValueRaw: Number.isFinite(raw) ? raw : null,
+    };
+  }
+
+  if (typeof raw === "string") {
+    const s = raw.trim();
+    if (!s) return { meterValue: null, meterValueRaw: null };
+
+    const direct = Number(s.replace(",", "."));
+    if (Number.isFinite(direct)) {
+      return { meterValue: direct, meterValueRaw: s };
+    }
+
+    const compact = s.match(/^(\d{5})(\d{1,3})$/);
+    if (compact) {
+      const normalized = `${compact[1]}.${compact[2]}`;
+      const n = Number(normalized);
+      if (Number.isFinite(n)) return { meterValue: n, meterValueRaw: s };
+    }
+
+    const firstNum = s.replace(",", ".").match(/-?\d+(?:\.\d+)?/);
+    if (firstNum) {
+      const n = Number(firstNum[0]);
+      if (Number.isFinite(n)) return { meterValue: n, meterValueRaw: s };
+    }
+
+    return { meterValue: null, meterValueRaw: s };
+  }
+
+  return { meterValue: null, meterValueRaw: null };
+}
+
+/**
+ * Pick the strongest reception. Each adapter passes the field names its
+ * provider uses for RSSI and SNR inside a reception entry.
+ */
+export function bestSignal(
+  rxItems: unknown[],
+  rssiKeys: string[] = ["rssi"],
+  snrKeys: string[] = ["snr"]
+): { rssi: number | null; snr: number | null } {
+  let bestRssi: number | null = null;
+  let bestSnr: number | null = null;
+
+  for (const item of rxItems) {
+    const r = numOrNull(firstDefined(item, rssiKeys.map(k => [k])));
+    const s = numOrNull(firstDefined(item, snrKeys.map(k => [k])));
+    if (r == null) continue;
+    if (bestRssi == null || r > bestRssi) {
+      bestRssi = r;
+      bestSnr = s;
+    }
+  }
+
+  return { rssi: bestRssi, snr: bestSnr };
+}
+
+/**
+ * Map a provider's reception list (`rxInfo`, `rx_metadata`, `hotspots`, ...)
+ * to one entry per gateway. Entries without a gateway id are dropped.
+ */
+export function mapReceptions(
+  rxItems: unknown,
+  pick: (rx: Record<string, unknown>) => ParsedReception
+): ParsedReception[] {
+  if (!Array.isArray(rxItems)) return [];
+  const out: ParsedReception[] = [];
+  for (const item of rxItems) {
+    const rx = asRecord(item);
+    if (!rx) continue;
+    const reception = pick(rx);
+    if (reception.gatewayId) out.push(reception);
+  }
+  return out;
+}
+
+const DECODED_METER_KEYS = [
+  "meterValue",
+  "meter_value",
+  "obis_1_8_0",
+  "obis1_8_0",
+  "obis_1_8_0_value",
+  "meter",
+  "reading",
+  "counter",
+  "message",
+  "value",
+];
+
+const DECODED_BATTERY_KEYS = [
+  "battery_mv",
+  "batteryMv",
+  "battery_mV",
+  "battery",
+  "battery_voltage",
+  "batteryVoltage",
+  "batt",
+  "voltage",
+];
+
+/**
+ * Meter value from the decoded object, falling back to the raw frame payload
+ * interpreted as ASCII digits (our OCR firmware sends e.g. "12345678").
+ */
+export function extractMeter(
+  decodedObj: Record<string, unknown> | null,
+  frmPayload: Buffer | null,
+  direct?: unknown
+): { meterValue: number | null; meterValueRaw: string | number | null } {
+  let meterRaw: unknown = direct;
+
+  if (meterRaw == null && decodedObj) {
+    meterRaw = findFirstKeyDeep(decodedObj, DECODED_METER_KEYS);
+  }
+
+  if (meterRaw == null && frmPayload && frmPayload.length) {
+    const ascii = frmPayload.toString("utf8");
+    if (ascii) meterRaw = ascii.replace(/^(\d{5})(\d+)/, "$1.$2");
+  }
+
+  return parseMeterNumber(meterRaw);
+}
+
+/** Battery in mV from the decoded object; decoders reporting volts are converted. */
+export function extractBatteryMv(decodedObj: Record<string, unknown> | null, direct?: unknown): number | null {
+  let battery_mv = numOrNull(direct);
+
+  if (battery_mv == null && decodedObj) {
+    battery_mv = numOrNull(findFirstKeyDeep(decodedObj, DECODED_BATTERY_KEYS));
+  }
+
+  // if decoder gives volts (e.g. 3.6), convert to mV
+  if (battery_mv != null && battery_mv > 0 && battery_mv < 20) {
+    battery_mv = Math.round(battery_mv * 1000);
+  }
+
+  return battery_mv;
+}
+
+/** Frequency in Hz; values small enough to be MHz (e.g. Helium's 868.1) are scaled up. */
+export function frequencyHz(v: unknown): number | null {
+  const n = numOrNull(v);
+  if (n == null || n <= 0) return null;
+  return Math.round(n < 10_000 ? n * 1e6 : n);
+}
+
+/** Spreading factor from a number or a data-rate string such as `SF9BW125` / `SF12 BW125 4/5`. */
+export function spreadingFactorOf(v: unknown): number | null {
+  if (typeof v === "string") {
+    const m = /SF\s*(\d{1,2})/i.exec(v);
+    if (m) return Number(m[1]);
+  }
+  return numOrNull(v);
+}
+
+/**
+ * f_cnt resets when a device restarts/rejoins, so combine it with the
+ * timestamp to avoid falsely deduplicating new uplinks against old ones.
+ * True duplicates (same uplink via multiple gateways) share both f_cnt AND
+ * receive time, so they will still be deduplicated correctly.
+ */
+export function buildDeduplicationId(raw: unknown, at: string): string | null {
+  if (raw == null || raw === "") return null;
+  return `${raw}:${at}`;
+}
+
+/** Checks every adapter applies before its own provider-specific rules. */
+export function validateCommon(parsed: ParsedUplink): string[] {
+  const errors: string[] = [];
+  if (!parsed.devEui) errors.push("missing devEui");
+  if (!Number.isFinite(new Date(parsed.at).getTime())) errors.push(`invalid timestamp "${parsed.at}"`);
+  return errors;
+}
@@ -1,164 +1,16 @@
 import Database from "better-sqlite3";
-import path from "node:path";
 import { randomUUID } from "node:crypto";
+import { DB_PATH, migrateDatabase } from "./migrations.js";
+import { advanceStreak, emptyStreak } from "./device-stats.js";
+import type { UplinkStreak } from "./device-stats.js";
 
-const DB_PATH = process.env.DB_PATH || path.join(process.cwd(), "data.db");
 const db = new Database(DB_PATH);
+// SQLite leaves foreign keys off per connection; deletes rely on their cascades
+db.pragma("foreign_keys = ON");
+if (db.pragma("foreign_keys", { simple: true }) !== 1) throw new Error("SQLite build does not enforce foreign keys");
 
-// --- schema bootstrap / migration ---
-db.exec(`
-  CREATE TABLE IF NOT EXISTS readings (
-    dev_eui TEXT NOT NULL,
-    at TEXT NOT NULL,
-    meter_value REAL NOT NULL,
-    meter_value_raw TEXT,
-    device_name TEXT,
-    application_id TEXT,
-    application_name TEXT,
-    deduplication_id TEXT,
-    battery_mv INTEGER,
-    rssi INTEGER,
-    snr REAL
-  );
-`);
-
-db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_readings_dev_at ON readings(dev_eui, at);`);
-
-db.exec(`
-  CREATE TABLE IF NOT EXISTS uplinks (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    dev_eui TEXT NOT NULL,
-    at TEXT NOT NULL,
-    provider TEXT,
-    device_name TEXT,
-    application_id TEXT,
-    application_name TEXT,
-    deduplication_id TEXT,
-    meter_value REAL,
-    meter_value_raw TEXT,
-    battery_mv INTEGER,
-    rssi INTEGER,
-    snr REAL,
-    decoded_json TEXT,
-    payload_json TEXT
-  );
-`);
-db.exec(`CREATE INDEX IF NOT EXISTS idx_uplinks_dev_at ON uplinks(dev_eui, at);`);
-db.exec(`DROP INDEX IF EXISTS idx_uplinks_dedup;`);
-db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_uplinks_dev_dedup ON uplinks(dev_eui, deduplication_id);`);
-
-db.exec(`
-  CREATE TABLE IF NOT EXISTS device_settings (
-    dev_eui TEXT PRIMARY KEY,
-    device_type TEXT NOT NULL DEFAULT 'unknown',
-    updated_at TEXT NOT NULL DEFAULT (datetime('now'))
-  );
-`);
-
-function columnExists(table: string, col: string): boolean {
-  const rows = db.prepare(`PRAGMA table_info(${table})`).all() as any[];
-  return rows.some(r => String(r.name) === col);
-}
-
-function ensureColumns(): void {
-  const add = (col: string, typeSql: string) => {
-    if (!columnExists("readings", col)) {
-      db.exec(`ALTER TABLE readings ADD COLUMN ${col} ${typeSql};`);
-    }
-  };
-  add("battery_mv", "INTEGER");
-  add("rssi", "INTEGER");
-  add("snr", "REAL");
-}
-ensureColumns();
-
-function ensureDeviceSettingsColumns(): void {
-  const add = (col: string, typeSql: string) => {
-    if (!columnExists("device_settings", col)) {
-      db.exec(`ALTER TABLE device_settings ADD COLUMN ${col} ${typeSql};`);
-    }
-  };
-
-  add("auto_recalibrate_enabled", "INTEGER NOT NULL DEFAULT 1");
-  add("auto_recalibrate_qmax_factor", "REAL NOT NULL DEFAULT 6.0");
-  add("auto_recalibrate_min_jump", "REAL NOT NULL DEFAULT 100000");
-  add("auto_recalibrate_cooldown_min", "INTEGER NOT NULL DEFAULT 180");
-  add("auto_recalibrate_f_port", "INTEGER NOT NULL DEFAULT 15");
-  add("last_auto_recalibrated_at", "TEXT");
-  add("failure_logs_reset_at", "TEXT");
-  add("uplink_count_reset_at", "TEXT");
-}
-ensureDeviceSettingsColumns();
-
-// --- anomaly log table ---
-db.exec(`
-  CREATE TABLE IF NOT EXISTS anomaly_log (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    dev_eui TEXT NOT NULL,
-    at TEXT NOT NULL,
-    event_type TEXT NOT NULL,
-    meter_value REAL,
-    previous_value REAL,
-    jump REAL,
-    threshold REAL,
-    action TEXT,
-    details TEXT,
-    created_at TEXT NOT NULL DEFAULT (datetime('now'))
-  );
-`);
-db.exec(`CREATE INDEX IF NOT EXISTS idx_anomaly_dev_at ON anomaly_log(dev_eui, at);`);
-
-// --- devices table (logical device configurations with UUID) ---
-db.exec(`
-  CREATE TABLE IF NOT EXISTS devices (
-    uuid TEXT PRIMARY KEY,
-    dev_eui TEXT NOT NULL,
-    name TEXT NOT NULL DEFAULT '',
-    device_type TEXT NOT NULL DEFAULT 'unknown',
-    created_at TEXT NOT NULL DEFAULT (datetime('now'))
-  );
-`);
-db.exec(`CREATE INDEX IF NOT EXISTS idx_devices_dev_eui ON devices(dev_eui);`);
-
-// Auto-assign UUIDs to existing devices that don't have an entry yet
-function migrateExistingDevicesToUUID(): void {
-  const existingDevEuis = db.prepare(`
-    SELECT DISTINCT dev_eui FROM (
-      SELECT dev_eui FROM readings
-      UNION
-      SELECT dev_eui FROM uplinks
-    )
-  `).all() as Array<{ dev_eui: string }>;
-
-  const hasEntry = db.prepare(`SELECT 1 FROM devices WHERE dev_eui = ?`);
-  const insertDevice = db.prepare(`
-    INSERT INTO devices (uuid, dev_eui, name, device_type, created_at)
-    VALUES (@uuid, @dev_eui, @name, @device_type, @created_at)
-  `);
-
-  for (const row of existingDevEuis) {
-    if (hasEntry.get(row.dev_eui)) continue;
-    // Get device name from readings/uplinks
-    const nameRow = db.prepare(`
-      SELECT device_name FROM (
-        SELECT device_name FROM readings WHERE dev_eui = ? AND device_name IS NOT NULL
-        UNION ALL
-        SELECT device_name FROM uplinks WHERE dev_eui = ? AND device_name IS NOT NULL
-      ) LIMIT 1
-    `).get(row.dev_eui, row.dev_eui) as { device_name: string } | undefined;
-    // Get device type from device_settings
-    const typeRow = db.prepare(`SELECT device_type FROM device_settings WHERE dev_eui = ?`).get(row.dev_eui) as { device_type: string } | undefined;
-
-    insertDevice.run({
-      uuid: randomUUID(),
-      dev_eui: row.dev_eui,
-      name: nameRow?.device_name ?? "",
-      device_type: typeRow?.device_type ?? "unknown",
-      created_at: new Date().toISOString(),
-    });
-  }
-}
-migrateExistingDevicesToUUID();
+// --- schema (numbered migrations, see migrations.ts) ---
+migrateDatabase(db);
 
 const stmtInsertAnomaly = db.prepare(`
   INSERT INTO anomaly_log (dev_eui, at, event_type, meter_value, previous_value, jump, threshold, action, details, created_at)
@@ -217,13 +69,698 @@ export function storeAnomaly(input: {
   });
 }
 
-export function listAnomalies(devEui?: string | null, limit = 200): AnomalyLogEntry[] {
+export function listAnomalies(devEui?: string | null, limit = 200, range: TimeRange = {}): AnomalyLogEntry[] {
+  if (devEui && (range.from || range.to || range.until)) {
+    const params: Record<string, unknown> = { dev_eui: devEui, limit: Math.max(1, limit) };
+    const sql = `SELECT * FROM anomaly_log WHERE dev_eui = @dev_eui${timeBounds("at", range, params)} ORDER BY at DESC LIMIT @limit`;
+    return db.prepare(sql).all(params) as AnomalyLogEntry[];
+  }
   if (devEui) {
     return stmtListAnomalies.all(devEui, Math.max(1, limit)) as AnomalyLogEntry[];
   }
   return stmtListAllAnomalies.all(Math.max(1, limit)) as AnomalyLogEntry[];
 }
 
+export function hasAnomaly(devEui: string, at: string, eventType: string): boolean {
+  return !!db.prepare(`SELECT 1 FROM anomaly_log WHERE dev_eui = ? AND at = ? AND event_type = ? LIMIT 1`).get(devEui, at, eventType);
+}
+
+// --- network events ---
+export interface NetworkEventRow {
+  id: number;
+  dev_eui: string;
+  at: string;
+  provider: string | null;
+  event_type: string;
+  dev_addr: string | null;
+  margin: number | null;
+  battery_level: number | null;
+  external_power: number | null;
+  downlink_id: number | null;
+  acknowledged: number | null;
+  f_cnt_down: number | null;
+  gateway_id: string | null;
+  level: string | null;
+  code: string | null;
+  description: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  altitude: number | null;
+  payload_json: string | null;
+  created_at: string;
+}
+
+export type StoreNetworkEventInput =
+  Pick<NetworkEventRow, "dev_eui" | "at" | "event_type"> &
+  Partial<Omit<NetworkEventRow, "id" | "dev_eui" | "at" | "event_type" | "payload_json" | "created_at">> & {
+    payload_json?: unknown | null;
+  };
+
+const stmtInsertNetworkEvent = db.prepare(`
+  INSERT INTO network_events (
+    dev_eui, at, provider, event_type, dev_addr,
+    margin, battery_level, external_power,
+    downlink_id, acknowledged, f_cnt_down, gateway_id,
+    level, code, description,
+    latitude, longitude, altitude,
+    payload_json, created_at
+  )
+  VALUES (
+    @dev_eui, @at, @provider, @event_type, @dev_addr,
+    @margin, @battery_level, @external_power,
+    @downlink_id, @acknowledged, @f_cnt_down, @gateway_id,
+    @level, @code, @description,
+    @latitude, @longitude, @altitude,
+    @payload_json, @created_at
+  )
+`);
+
+export function storeNetworkEvent(input: StoreNetworkEventInput): number {
+  const info = stmtInsertNetworkEvent.run({
+    dev_eui: input.dev_eui,
+    at: input.at,
+    provider: input.provider ?? null,
+    event_type: input.event_type,
+    dev_addr: input.dev_addr ?? null,
+    margin: input.margin ?? null,
+    battery_level: input.battery_level ?? null,
+    external_power: input.external_power ?? null,
+    downlink_id: input.downlink_id ?? null,
+    acknowledged: input.acknowledged ?? null,
+    f_cnt_down: input.f_cnt_down ?? null,
+    gateway_id: input.gateway_id ?? null,
+    level: input.level ?? null,
+    code: input.code ?? null,
+    description: input.description ?? null,
+    latitude: input.latitude ?? null,
+    longitude: input.longitude ?? null,
+    altitude: input.altitude ?? null,
+    payload_json: input.payload_json == null ? null : JSON.stringify(input.payload_json),
+    created_at: new Date().toISOString(),
+  });
+  return Number(info.lastInsertRowid);
+}
+
+export function listNetworkEvents(devEui?: string | null, eventType?: string | null, limit = 200, range: TimeRange = {}): NetworkEventRow[] {
+  let sql = `SELECT * FROM network_events WHERE 1 = 1`;
+  const params: any = { limit: Math.max(1, limit) };
+  if (devEui) {
+    sql += ` AND dev_eui = @dev_eui${timeBounds("at", range, params)}`;
+    params.dev_eui = devEui;
+  }
+  if (eventType) {
+    sql += ` AND event_type = @event_type`;
+    params.event_type = eventType;
+  }
+  sql += ` ORDER BY at DESC, id DESC LIMIT @limit`;
+  return db.prepare(sql).all(params) as NetworkEventRow[];
+}
+
+export interface DeviceNetworkStatus {
+  dev_eui: string;
+  at: string | null;
+  margin: number | null;
+  battery_level: number | null;
+  external_power: boolean | null;
+  join_count: number;
+  last_join_at: string | null;
+  last_dev_addr: string | null;
+}
+
+/** Latest network-reported status plus (re)join statistics for a device. */
+export function getDeviceNetworkStatus(devEui: string, range: TimeRange = {}): DeviceNetworkStatus {
+  const params: Record<string, unknown> = { dev_eui: devEui };
+  const bounds = timeBounds("at", range, params);
+  const status = db.prepare(`
+    SELECT at, margin, battery_level, external_power FROM network_events
+    WHERE dev_eui = @dev_eui AND event_type = 'status'${bounds}
+    ORDER BY at DESC, id DESC LIMIT 1
+  `).get(params) as { at: string; margin: number | null; battery_level: number | null; external_power: number | null } | undefined;
+
+  const joins = db.prepare(`
+    SELECT COUNT(*) AS cnt, MAX(at) AS last_at FROM network_events
+    WHERE dev_eui = @dev_eui AND event_type = 'join'${bounds}
+  `).get(params) as { cnt: number; last_at: string | null };
+
+  const lastJoin = joins.last_at
+    ? db.prepare(`
+        SELECT dev_addr FROM network_events
+        WHERE dev_eui = ? AND event_type = 'join' AND at = ?
+        ORDER BY id DESC LIMIT 1
+      `).get(devEui, joins.last_at) as { dev_addr: string | null } | undefined
+    : undefined;
+
+  return {
+    dev_eui: devEui,
+    at: status?.at ?? null,
+    margin: status?.margin ?? null,
+    battery_level: status?.battery_level ?? null,
+    external_power: status?.external_power == null ? null : status.external_power !== 0,
+    join_count: Number(joins.cnt || 0),
+    last_join_at: joins.last_at ?? null,
+    last_dev_addr: lastJoin?.dev_addr ?? null,
+  };
+}
+
+// --- downlinks ---
+export type DownlinkStatus = "pending" | "queued" | "sent" | "acked" | "nacked" | "failed";
+
+export interface DownlinkRow {
+  id: number;
+  dev_eui: string;
+  provider: string;
+  application_id: string | null;
+  device_id: string | null;
+  f_port: number | null;
+  confirmed: number;
+  payload_json: string | null;
+  frm_payload: string | null;
+  purpose: string | null;
+  status: DownlinkStatus;
+  provider_ref: string | null;
+  f_cnt_down: number | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export function recordDownlink(input: {
+  dev_eui: string;
+  provider: string;
+  application_id?: string | null;
+  device_id?: string | null;
+  f_port?: number | null;
+  confirmed?: boolean;
+  payload_json?: unknown | null;
+  frm_payload?: string | null;
+  purpose?: string | null;
+  status?: DownlinkStatus;
+  provider_ref?: string | null;
+  error?: string | null;
+}): number {
+  const now = new Date().toISOString();
+  const info = db.prepare(`
+    INSERT INTO downlinks (
+      dev_eui, provider, application_id, device_id, f_port, confirmed,
+      payload_json, frm_payload, purpose, status, provider_ref, error,
+      created_at, updated_at
+    )
+    VALUES (
+      @dev_eui, @provider, @application_id, @device_id, @f_port, @confirmed,
+      @payload_json, @frm_payload, @purpose, @status, @provider_ref, @error,
+      @created_at, @updated_at
+    )
+  `).run({
+    dev_eui: input.dev_eui,
+    provider: input.provider,
+    application_id: input.application_id ?? null,
+    device_id: input.device_id ?? null,
+    f_port: input.f_port ?? null,
+    confirmed: input.confirmed === false ? 0 : 1,
+    payload_json: input.payload_json == null ? null : JSON.stringify(input.payload_json),
+    frm_payload: input.frm_payload ?? null,
+    purpose: input.purpose ?? null,
+    status: input.status ?? "pending",
+    provider_ref: input.provider_ref ?? null,
+    error: input.error ?? null,
+    created_at: now,
+    updated_at: now,
+  });
+  return Number(info.lastInsertRowid);
+}
+
+export function setDownlinkProviderRef(id: number, providerRef: string): void {
+  db.prepare(`UPDATE downlinks SET provider_ref = ? WHERE id = ?`).run(providerRef, id);
+}
+
+export function getDownlink(id: number): DownlinkRow | null {
+  const row = db.prepare(`SELECT * FROM downlinks WHERE id = ?`).get(id) as DownlinkRow | undefined;
+  return row ?? null;
+}
+
+/**
+ * Find the downlink a delivery event refers to: by provider reference when the
+ * network server echoes one, otherwise (unless `refRequired`) the oldest
+ * still-open downlink the device got through the same provider.
+ */
+export function findOpenDownlink(devEui: string, provider: string, providerRef?: string | null, refRequired = false): DownlinkRow | null {
+  if (providerRef) {
+    const byRef = db.prepare(`SELECT * FROM downlinks WHERE provider_ref = ? ORDER BY id DESC LIMIT 1`).get(providerRef) as DownlinkRow | undefined;
+    if (byRef) return byRef;
+  }
+  if (refRequired) return null;
+  const row = db.prepare(`
+    SELECT * FROM downlinks
+    WHERE dev_eui = ? AND provider = ? AND status IN ('pending', 'queued', 'sent')
+    ORDER BY id ASC
+    LIMIT 1
+  `).get(devEui, provider) as DownlinkRow | undefined;
+  return row ?? null;
+}
+
+export function updateDownlinkStatus(
+  id: number,
+  input: { status: DownlinkStatus; f_cnt_down?: number | null; provider_ref?: string | null; error?: string | null }
+): void {
+  db.prepare(`
+    UPDATE downlinks SET
+      status = @status,
+      f_cnt_down = COALESCE(@f_cnt_down, f_cnt_down),
+      provider_ref = COALESCE(provider_ref, @provider_ref),
+      error = COALESCE(@error, error),
+      updated_at = @updated_at
+    WHERE id = @id
+  `).run({
+    id,
+    status: input.status,
+    f_cnt_down: input.f_cnt_down ?? null,
+    provider_ref: input.provider_ref ?? null,
+    error: input.error ?? null,
+    updated_at: new Date().toISOString(),
+  });
+}
+
+export function listDownlinks(devEui?: string | null, limit = 100, range: TimeRange = {}): DownlinkRow[] {
+  if (devEui && (range.from || range.to || range.until)) {
+    const params: Record<string, unknown> = { dev_eui: devEui, limit: Math.max(1, limit) };
+    const sql = `SELECT * FROM downlinks WHERE dev_eui = @dev_eui${timeBounds("created_at", range, params)} ORDER BY id DESC LIMIT @limit`;
+    return db.prepare(sql).all(params) as DownlinkRow[];
+  }
+  if (devEui) {
+    return db.prepare(`SELECT * FROM downlinks WHERE dev_eui = ? ORDER BY id DESC LIMIT ?`).all(devEui, Math.max(1, limit)) as DownlinkRow[];
+  }
+  return db.prepare(`SELECT * FROM downlinks ORDER BY id DESC LIMIT ?`).all(Math.max(1, limit)) as DownlinkRow[];
+}
+
+// --- webhook inbox ---
+export type InboxStatus = "pending" | "processing" | "done" | "dead";
+
+export interface InboxItem {
+  id: number;
+  received_at: string;
+  path: string;
+  event: string | null;
+  body_json: string;
+  status: InboxStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  result: string | null;
+  processed_at: string | null;
+  headers_json: string | null;
+  dev_eui: string | null;
+  uplink_at: string | null;
+  credential_id: number | null;
+}
+
+/** What processing an inbox item produced; device and time feed archive lookups. */
+export interface InboxOutcome {
+  result: string;
+  dev_eui?: string | null;
+  at?: string | null;
+}
+
+export function enqueueWebhook(input: {
+  path: string;
+  event: string | null;
+  body_json: string;
+  headers_json?: string | null;
+  credential_id?: number | null;
+}): number {
+  const now = new Date().toISOString();
+  const info = db.prepare(`
+    INSERT INTO webhook_inbox (received_at, path, event, body_json, headers_json, credential_id, status, attempts, next_attempt_at)
+    VALUES (@received_at, @path, @event, @body_json, @headers_json, @credential_id, 'pending', 0, @received_at)
+  `).run({
+    received_at: now,
+    path: input.path,
+    event: input.event || null,
+    body_json: input.body_json,
+    headers_json: input.headers_json ?? null,
+    credential_id: input.credential_id ?? null,
+  });
+  return Number(info.lastInsertRowid);
+}
+
+const claimInboxTx = db.transaction((nowIso: string): InboxItem | null => {
+  const row = db.prepare(`
+    SELECT id FROM webhook_inbox
+    WHERE status = 'pending' AND next_attempt_at <= ?
+    ORDER BY id ASC
+    LIMIT 1
+  `).get(nowIso) as { id: number } | undefined;
+  if (!row) return null;
+  db.prepare(`UPDATE webhook_inbox SET status = 'processing', attempts = attempts + 1 WHERE id = ?`).run(row.id);
+  return db.prepare(`SELECT * FROM webhook_inbox WHERE id = ?`).get(row.id) as InboxItem;
+});
+
+/** Take the oldest due item and mark it `processing` (attempts already incremented). */
+export function claimNextInboxItem(nowIso: string): InboxItem | null {
+  return claimInboxTx(nowIso);
+}
+
+export function completeInboxItem(id: number, outcome: InboxOutcome): void {
+  db.prepare(`
+    UPDATE webhook_inbox SET
+      status = 'done',
+      result = @result,
+      dev_eui = @dev_eui,
+      uplink_at = @uplink_at,
+      last_error = NULL,
+      processed_at = @processed_at
+    WHERE id = @id
+  `).run({
+    id,
+    result: outcome.result,
+    dev_eui: outcome.dev_eui ?? null,
+    uplink_at: outcome.at ?? null,
+    processed_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * One page of archived bodies, oldest first. Rows without a known device
+ * (e.g. dead-lettered before parsing) are always included so the caller can
+ * re-parse them and filter itself.
+ */
+export function listArchivedWebhooks(input: { devEui?: string | null; from?: string; to?: string; afterId: number; limit: number }): InboxItem[] {
+  let sql = `SELECT * FROM webhook_inbox WHERE id > @after_id AND status IN ('done', 'dead')`;
+  const params: any = { after_id: input.afterId, limit: input.limit };
+  if (input.devEui) {
+    sql += ` AND (dev_eui = @dev_eui OR dev_eui IS NULL)`;
+    params.dev_eui = input.devEui;
+  }
+  if (input.from) {
+    sql += ` AND COALESCE(uplink_at, received_at) >= @from`;
+    params.from = input.from;
+  }
+  if (input.to) {
+    sql += ` AND COALESCE(uplink_at, received_at) <= @to`;
+    params.to = input.to;
+  }
+  sql += ` ORDER BY id ASC LIMIT @limit`;
+  return db.prepare(sql).all(params) as InboxItem[];
+}
+
+/** Schedule a retry at `retryAtIso`, or dead-letter the item when it is null. */
+export function failInboxItem(id: number, error: string, retryAtIso: string | null): void {
+  db.prepare(`
+    UPDATE webhook_inbox SET
+      status = @status,
+      last_error = @error,
+      next_attempt_at = COALESCE(@next_attempt_at, next_attempt_at),
+      processed_at = CASE WHEN @status = 'dead' THEN @now ELSE processed_at END
+    WHERE id = @id
+  `).run({
+    id,
+    status: retryAtIso ? "pending" : "dead",
+    error: error.slice(0, 2000),
+    next_attempt_at: retryAtIso,
+    now: new Date().toISOString(),
+  });
+}
+
+export function requeueStaleInboxItems(): number {
+  const info = db.prepare(`UPDATE webhook_inbox SET status = 'pending' WHERE status = 'processing'`).run();
+  return Number(info.changes || 0);
+}
+
+/**
+ * Delete `done` items processed before `beforeIso`; uplinks held for a DevEUI
+ * that is still awaiting a decision stay, since accepting it imports them.
+ * Returns how many were removed.
+ */
+export function pruneInboxItems(beforeIso: string): number {
+  const info = db.prepare(`
+    DELETE FROM webhook_inbox
+    WHERE status = 'done' AND processed_at < ?
+      AND NOT (result = 'up-pending' AND dev_eui IN (SELECT dev_eui FROM pending_devices))
+  `).run(beforeIso);
+  return Number(info.changes || 0);
+}
+
+/** Move a dead-lettered item back to the queue with a fresh attempt budget. */
+export function retryInboxItem(id: number): boolean {
+  const info = db.prepare(`
+    UPDATE webhook_inbox SET status = 'pending', attempts = 0, next_attempt_at = ?
+    WHERE id = ? AND status = 'dead'
+  `).run(new Date().toISOString(), id);
+  return Number(info.changes) > 0;
+}
+
+export function listInboxItems(status?: string | null, limit = 100): InboxItem[] {
+  if (status) {
+    return db.prepare(`SELECT * FROM webhook_inbox WHERE status = ? ORDER BY id DESC LIMIT ?`).all(status, Math.max(1, limit)) as InboxItem[];
+  }
+  return db.prepare(`SELECT * FROM webhook_inbox ORDER BY id DESC LIMIT ?`).all(Math.max(1, limit)) as InboxItem[];
+}
+
+export function getInboxStats(): Record<InboxStatus, number> {
+  const rows = db.prepare(`SELECT status, COUNT(*) AS cnt FROM webhook_inbox GROUP BY status`).all() as Array<{ status: InboxStatus; cnt: number }>;
+  const out: Record<InboxStatus, number> = { pending: 0, processing: 0, done: 0, dead: 0 };
+  for (const r of rows) out[r.status] = Number(r.cnt);
+  return out;
+}
+
+// --- webhook credentials ---
+interface WebhookCredentialDbRow {
+  id: number;
+  name: string;
+  token_hash: string;
+  token_hint: string;
+  provider: string | null;
+  application_ids_json: string | null;
+  dev_eui_prefix: string | null;
+  created_at: string;
+  revoked_at: string | null;
+  last_used_at: string | null;
+  rejected_count: number;
+  last_rejected_at: string | null;
+}
+
+/** A credential as exposed to callers; the token hash never leaves this module. */
+export interface WebhookCredential {
+  id: number;
+  name: string;
+  token_hint: string;
+  provider: string | null;
+  application_ids: string[];
+  dev_eui_prefix: string | null;
+  created_at: string;
+  revoked_at: string | null;
+  last_used_at: string | null;
+  rejected_count: number;
+  last_rejected_at: string | null;
+}
+
+export interface WebhookAuthFailure {
+  id: number;
+  at: string;
+  credential_id: number | null;
+  path: string;
+  reason: string;
+  ip: string | null;
+  provider: string | null;
+  application_id: string | null;
+  dev_eui: string | null;
+}
+
+function toWebhookCredential(row: WebhookCredentialDbRow): WebhookCredential {
+  let applicationIds: string[] = [];
+  try {
+    const parsed = row.application_ids_json ? JSON.parse(row.application_ids_json) : [];
+    if (Array.isArray(parsed)) applicationIds = parsed.map(String);
+  } catch {}
+  return {
+    id: row.id,
+    name: row.name,
+    token_hint: row.token_hint,
+    provider: row.provider,
+    application_ids: applicationIds,
+    dev_eui_prefix: row.dev_eui_prefix,
+    created_at: row.created_at,
+    revoked_at: row.revoked_at,
+    last_used_at: row.last_used_at,
+    rejected_count: row.rejected_count,
+    last_rejected_at: row.last_rejected_at,
+  };
+}
+
+export function createWebhookCredential(input: {
+  name: string;
+  token_hash: string;
+  token_hint: string;
+  provider?: string | null;
+  application_ids?: string[];
+  dev_eui_prefix?: string | null;
+}): WebhookCredential {
+  const info = db.prepare(`
+    INSERT INTO webhook_credentials (name, token_hash, token_hint, provider, application_ids_json, dev_eui_prefix, created_at)
+    VALUES (@name, @token_hash, @token_hint, @provider, @application_ids_json, @dev_eui_prefix, @created_at)
+  `).run({
+    name: input.name,
+    token_hash: input.token_hash,
+    token_hint: input.token_hint,
+    provider: input.provider || null,
+    application_ids_json: input.application_ids?.length ? JSON.stringify(input.application_ids) : null,
+    dev_eui_prefix: input.dev_eui_prefix || null,
+    created_at: new Date().toISOString(),
+  });
+  return getWebhookCredential(Number(info.lastInsertRowid))!;
+}
+
+export function getWebhookCredential(id: number): WebhookCredential | null {
+  const row = db.prepare(`SELECT * FROM webhook_credentials WHERE id = ?`).get(id) as WebhookCredentialDbRow | undefined;
+  return row ? toWebhookCredential(row) : null;
+}
+
+/** Look up a credential (revoked or not) by the hash of its token. */
+export function findWebhookCredentialByHash(tokenHash: string): WebhookCredential | null {
+  const row = db.prepare(`SELECT * FROM webhook_credentials WHERE token_hash = ?`).get(tokenHash) as WebhookCredentialDbRow | undefined;
+  return row ? toWebhookCredential(row) : null;
+}
+
+export function listWebhookCredentials(includeRevoked = true): WebhookCredential[] {
+  const sql = includeRevoked
+    ? `SELECT * FROM webhook_credentials ORDER BY id ASC`
+    : `SELECT * FROM webhook_credentials WHERE revoked_at IS NULL ORDER BY id ASC`;
+  return (db.prepare(sql).all() as WebhookCredentialDbRow[]).map(toWebhookCredential);
+}
+
+/** Revoked credentials count too: once any exists the webhooks never fall back to open. */
+export function countWebhookCredentials(): number {
+  const row = db.prepare(`SELECT COUNT(*) AS cnt FROM webhook_credentials`).get() as { cnt: number };
+  return Number(row.cnt || 0);
+}
+
+/** Revoke a credential; returns false when it does not exist or is already revoked. */
+export function revokeWebhookCredential(id: number): boolean {
+  const info = db.prepare(`UPDATE webhook_credentials SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL`).run(new Date().toISOString(), id);
+  return info.changes > 0;
+}
+
+export function markWebhookCredentialUsed(id: number): void {
+  db.prepare(`UPDATE webhook_credentials SET last_used_at = ? WHERE id = ?`).run(new Date().toISOString(), id);
+}
+
+/** Rejected attempts kept in the log; anyone can cause them, so older ones are dropped. */
+const AUTH_FAILURE_LOG_MAX = 10_000;
+
+export function logWebhookAuthFailure(input: {
+  credential_id?: number | null;
+  path: string;
+  reason: string;
+  ip?: string | null;
+  provider?: string | null;
+  application_id?: string | null;
+  dev_eui?: string | null;
+}): void {
+  const now = new Date().toISOString();
+  db.prepare(`
+    INSERT INTO webhook_auth_failures (at, credential_id, path, reason, ip, provider, application_id, dev_eui)
+    VALUES (@at, @credential_id, @path, @reason, @ip, @provider, @application_id, @dev_eui)
+  `).run({
+    at: now,
+    credential_id: input.credential_id ?? null,
+    path: input.path,
+    reason: input.reason,
+    ip: input.ip ?? null,
+    provider: input.provider ?? null,
+    application_id: input.application_id ?? null,
+    dev_eui: input.dev_eui ?? null,
+  });
+  db.prepare(`
+    DELETE FROM webhook_auth_failures
+    WHERE id <= (SELECT id FROM webhook_auth_failures ORDER BY id DESC LIMIT 1 OFFSET ?)
+  `).run(AUTH_FAILURE_LOG_MAX);
+  if (input.credential_id != null) {
+    db.prepare(`
+      UPDATE webhook_credentials SET rejected_count = rejected_count + 1, last_rejected_at = ? WHERE id = ?
+    `).run(now, input.credential_id);
+  }
+}
+
+/** Rejected attempts, newest first; `credentialId` null lists attempts without a known credential. */
+export function listWebhookAuthFailures(credentialId?: number | null, limit = 100): WebhookAuthFailure[] {
+  if (credentialId === undefined) {
+    return db.prepare(`SELECT * FROM webhook_auth_failures ORDER BY id DESC LIMIT ?`).all(Math.max(1, limit)) as WebhookAuthFailure[];
+  }
+  if (credentialId === null) {
+    return db.prepare(`SELECT * FROM webhook_auth_failures WHERE credential_id IS NULL ORDER BY id DESC LIMIT ?`).all(Math.max(1, limit)) as WebhookAuthFailure[];
+  }
+  return db.prepare(`
+    SELECT * FROM webhook_auth_failures WHERE credential_id = ? ORDER BY id DESC LIMIT ?
+  `).all(credentialId, Math.max(1, limit)) as WebhookAuthFailure[];
+}
+
+// --- webhook signing secrets ---
+export interface WebhookSigningSecret {
+  id: number;
+  name: string;
+  endpoint: string | null;
+  application_id: string | null;
+  secret_hint: string;
+  created_at: string;
+  revoked_at: string | null;
+  last_used_at: string | null;
+}
+
+const SIGNING_SECRET_COLUMNS = `id, name, endpoint, application_id, secret_hint, created_at, revoked_at, last_used_at`;
+
+export function createWebhookSigningSecret(input: {
+  name: string;
+  endpoint?: string | null;
+  application_id?: string | null;
+  secret: string;
+  secret_hint: string;
+}): WebhookSigningSecret {
+  const info = db.prepare(`
+    INSERT INTO webhook_signing_secrets (name, endpoint, application_id, secret, secret_hint, created_at)
+    VALUES (@name, @endpoint, @application_id, @secret, @secret_hint, @created_at)
+  `).run({
+    name: input.name,
+    endpoint: input.endpoint || null,
+    application_id: input.application_id || null,
+    secret: input.secret,
+    secret_hint: input.secret_hint,
+    created_at: new Date().toISOString(),
+  });
+  return getWebhookSigningSecret(Number(info.lastInsertRowid))!;
+}
+
+export function getWebhookSigningSecret(id: number): WebhookSigningSecret | null {
+  const row = db.prepare(`SELECT ${SIGNING_SECRET_COLUMNS} FROM webhook_signing_secrets WHERE id = ?`).get(id) as WebhookSigningSecret | undefined;
+  return row ?? null;
+}
+
+export function listWebhookSigningSecrets(): WebhookSigningSecret[] {
+  return db.prepare(`SELECT ${SIGNING_SECRET_COLUMNS} FROM webhook_signing_secrets ORDER BY id ASC`).all() as WebhookSigningSecret[];
+}
+
+/** Active secrets that apply to a request: those for its endpoint plus those for its application. */
+export function findActiveSigningSecrets(endpoint: string, applicationId: string | null): Array<WebhookSigningSecret & { secret: string }> {
+  return db.prepare(`
+    SELECT * FROM webhook_signing_secrets
+    WHERE revoked_at IS NULL AND (endpoint = ? OR (application_id IS NOT NULL AND application_id = ?))
+    ORDER BY id ASC
+  `).all(endpoint, applicationId) as Array<WebhookSigningSecret & { secret: string }>;
+}
+
+/** Any active secret means webhook authentication is configured, whatever it is scoped to. */
+export function countActiveSigningSecrets(): number {
+  const row = db.prepare(`SELECT COUNT(*) AS cnt FROM webhook_signing_secrets WHERE revoked_at IS NULL`).get() as { cnt: number };
+  return Number(row.cnt || 0);
+}
+
+export function revokeWebhookSigningSecret(id: number): boolean {
+  const info = db.prepare(`UPDATE webhook_signing_secrets SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL`).run(new Date().toISOString(), id);
+  return info.changes > 0;
+}
+
+export function markWebhookSigningSecretUsed(id: number): void {
+  db.prepare(`UPDATE webhook_signing_secrets SET last_used_at = ? WHERE id = ?`).run(new Date().toISOString(), id);
+}
+
 // --- types ---
 export interface StoreReadingInput {
   dev_eui: string;
@@ -237,6 +774,9 @@ export interface StoreReadingInput {
   battery_mv: number | null;
   rssi: number | null;
   snr: number | null;
+  /** Set by the validation chain; defaults to valid */
+  quality?: ReadingQuality;
+  quality_reasons?: string | null;
 }
 
 export interface StoreUplinkInput {
@@ -252,10 +792,35 @@ export interface StoreUplinkInput {
   battery_mv: number | null;
   rssi: number | null;
   snr: number | null;
+  f_cnt: number | null;
+  f_port: number | null;
+  data_rate: number | null;
+  spreading_factor: number | null;
+  frequency: number | null;
+  confirmed: boolean | null;
   decoded_json: unknown | null;
   payload_json: unknown | null;
 }
 
+export interface StoreReceptionInput {
+  gateway_id: string;
+  gateway_name: string | null;
+  rssi: number | null;
+  snr: number | null;
+  channel: number | null;
+  received_at: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  altitude: number | null;
+}
+
+export interface ReceptionRow extends StoreReceptionInput {
+  id: number;
+  uplink_id: number;
+  dev_eui: string;
+  uplink_at: string;
+}
+
 export interface ReadingRow {
   dev_eui: string;
   at: string;
@@ -268,6 +833,9 @@ export interface ReadingRow {
   battery_mv: number | null;
   rssi: number | null;
   snr: number | null;
+  quality: ReadingQuality;
+  /** Why the validation chain flagged the reading, `; `-separated */
+  quality_reasons: string | null;
 }
 
 export interface UplinkRow {
@@ -284,21 +852,64 @@ export interface UplinkRow {
   battery_mv: number | null;
   rssi: number | null;
   snr: number | null;
+  f_cnt: number | null;
+  f_port: number | null;
+  data_rate: number | null;
+  spreading_factor: number | null;
+  frequency: number | null;
+  confirmed: number | null;
   decoded_json: string | null;
   payload_json: string | null;
 }
 
+/**
+ * A time range of a device's rows, read one page at a time. `from` / `to`
+ * are inclusive, `until` is exclusive (e.g. the end of a device binding).
+ * `before` / `after` are cursors of rows already seen (see rowCursor). A
+ * page holds the newest `limit` rows, or with `after` the oldest ones; rows
+ * always come in ascending order.
+ */
+export interface RangeQuery {
+  from?: string;
+  to?: string;
+  until?: string;
+  before?: string;
+  after?: string;
+  limit?: number;
+}
+
+/** The bounds of a RangeQuery without paging, e.g. a device's binding. */
+export type TimeRange = Pick<RangeQuery, "from" | "to" | "until">;
+
+/** Conditions limiting `column` to `range`, each starting with AND; their values go into `params`. */
+function timeBounds(column: string, range: TimeRange, params: Record<string, unknown>): string {
+  let sql = "";
+  if (range.from) {
+    sql += ` AND ${column} >= @from`;
+    params.from = range.from;
+  }
+  if (range.to) {
+    sql += ` AND ${column} <= @to`;
+    params.to = range.to;
+  }
+  if (range.until) {
+    sql += ` AND ${column} < @until`;
+    params.until = range.until;
+  }
+  return sql;
+}
+
 // --- prepared statements ---
 const stmtInsert = db.prepare(`
   INSERT INTO readings (
     dev_eui, at, meter_value, meter_value_raw,
     device_name, application_id, application_name, deduplication_id,
-    battery_mv, rssi, snr
+    battery_mv, rssi, snr, quality, quality_reasons
   )
   VALUES (
     @dev_eui, @at, @meter_value, @meter_value_raw,
     @device_name, @application_id, @application_name, @deduplication_id,
-    @battery_mv, @rssi, @snr
+    @battery_mv, @rssi, @snr, @quality, @quality_reasons
   )
   ON CONFLICT(dev_eui, at) DO UPDATE SET
     meter_value = excluded.meter_value,
@@ -309,7 +920,9 @@ const stmtInsert = db.prepare(`
     deduplication_id = excluded.deduplication_id,
     battery_mv = excluded.battery_mv,
     rssi = excluded.rssi,
-    snr = excluded.snr
+    snr = excluded.snr,
+    quality = excluded.quality,
+    quality_reasons = excluded.quality_reasons
 `);
 
 const stmtInsertUplink = db.prepare(`
@@ -318,6 +931,7 @@ const stmtInsertUplink = db.prepare(`
     device_name, application_id, application_name, deduplication_id,
     meter_value, meter_value_raw,
     battery_mv, rssi, snr,
+    f_cnt, f_port, data_rate, spreading_factor, frequency, confirmed,
     decoded_json, payload_json
   )
   VALUES (
@@ -325,6 +939,7 @@ const stmtInsertUplink = db.prepare(`
     @device_name, @application_id, @application_name, @deduplication_id,
     @meter_value, @meter_value_raw,
     @battery_mv, @rssi, @snr,
+    @f_cnt, @f_port, @data_rate, @spreading_factor, @frequency, @confirmed,
     @decoded_json, @payload_json
   )
   ON CONFLICT(dev_eui, deduplication_id) DO UPDATE SET
@@ -338,6 +953,12 @@ const stmtInsertUplink = db.prepare(`
     battery_mv = excluded.battery_mv,
     rssi = excluded.rssi,
     snr = excluded.snr,
+    f_cnt = excluded.f_cnt,
+    f_port = excluded.f_port,
+    data_rate = excluded.data_rate,
+    spreading_factor = excluded.spreading_factor,
+    frequency = excluded.frequency,
+    confirmed = excluded.confirmed,
     decoded_json = excluded.decoded_json,
     payload_json = excluded.payload_json
 `);
@@ -361,20 +982,6 @@ const stmtLastReading = db.prepare(`
   LIMIT 1
 `);
 
-const stmtAllReadingsForDevice = db.prepare(`
-  SELECT at, meter_value, battery_mv, rssi, snr
-  FROM readings
-  WHERE dev_eui = ?
-  ORDER BY at ASC
-`);
-
-const stmtAllUplinksForDevice = db.prepare(`
-  SELECT *
-  FROM uplinks
-  WHERE dev_eui = ?
-  ORDER BY at ASC, id ASC
-`);
-
 const stmtLastUplink = db.prepare(`
   SELECT *
   FROM uplinks
@@ -383,38 +990,27 @@ const stmtLastUplink = db.prepare(`
   LIMIT 1
 `);
 
-const stmtDeleteReadingsForDevice = db.prepare(`
-  DELETE FROM readings
-  WHERE dev_eui = ?
-`);
-
-const stmtDeleteUplinksForDevice = db.prepare(`
-  DELETE FROM uplinks
-  WHERE dev_eui = ?
-`);
-
-const stmtDeleteSettingsForDevice = db.prepare(`
-  DELETE FROM device_settings
-  WHERE dev_eui = ?
+const stmtCountDeviceData = db.prepare(`
+  SELECT
+    (SELECT COUNT(*) FROM readings WHERE dev_eui = @dev_eui) AS readings,
+    (SELECT COUNT(*) FROM uplinks WHERE dev_eui = @dev_eui) AS uplinks
 `);
 
+// a DevEUI's type is the one of the device it is currently bound to
 const stmtSetDeviceType = db.prepare(`
-  INSERT INTO device_settings (dev_eui, device_type, updated_at)
-  VALUES (@dev_eui, @device_type, @updated_at)
-  ON CONFLICT(dev_eui) DO UPDATE SET
-    device_type = excluded.device_type,
-    updated_at = excluded.updated_at
+  UPDATE devices SET device_type = @device_type WHERE dev_eui = @dev_eui AND bound_to IS NULL
 `);
 
 const stmtGetDeviceType = db.prepare(`
   SELECT dev_eui, device_type
-  FROM device_settings
-  WHERE dev_eui = ?
+  FROM devices
+  WHERE dev_eui = ? AND bound_to IS NULL
 `);
 
 const stmtListDeviceTypes = db.prepare(`
   SELECT dev_eui, device_type
-  FROM device_settings
+  FROM devices
+  WHERE bound_to IS NULL
 `);
 
 const stmtGetDeviceAutoRecalibration = db.prepare(`
@@ -426,14 +1022,13 @@ const stmtGetDeviceAutoRecalibration = db.prepare(`
     auto_recalibrate_cooldown_min,
     auto_recalibrate_f_port,
     last_auto_recalibrated_at
-  FROM device_settings
+  FROM device_recalibration_settings
   WHERE dev_eui = ?
 `);
 
 const stmtSetDeviceAutoRecalibration = db.prepare(`
-  INSERT INTO device_settings (
+  INSERT INTO device_recalibration_settings (
     dev_eui,
-    device_type,
     auto_recalibrate_enabled,
     auto_recalibrate_qmax_factor,
     auto_recalibrate_min_jump,
@@ -443,7 +1038,6 @@ const stmtSetDeviceAutoRecalibration = db.prepare(`
   )
   VALUES (
     @dev_eui,
-    @device_type,
     @auto_recalibrate_enabled,
     @auto_recalibrate_qmax_factor,
     @auto_recalibrate_min_jump,
@@ -461,7 +1055,7 @@ const stmtSetDeviceAutoRecalibration = db.prepare(`
 `);
 
 const stmtSetLastAutoRecalibratedAt = db.prepare(`
-  UPDATE device_settings
+  UPDATE device_recalibration_settings
   SET last_auto_recalibrated_at = @last_auto_recalibrated_at,
       updated_at = @updated_at
   WHERE dev_eui = @dev_eui
@@ -485,23 +1079,31 @@ const DEVICE_TYPES: readonly DeviceType[] = [
   "unknown",
 ];
 
+/** Unit of the primary meter value when no meter mapping names one */
+const DEVICE_TYPE_UNITS: Record<DeviceType, string> = {
+  gas: "m³",
+  water: "m³",
+  electricity_ferraris: "kWh",
+  electricity_sml: "kWh",
+  unknown: "m³",
+};
+
 export function normalizeDeviceType(input: unknown): DeviceType {
   const v = String(input ?? "").trim().toLowerCase();
   return (DEVICE_TYPES as readonly string[]).includes(v) ? (v as DeviceType) : "unknown";
 }
 
-export function setDeviceType(devEui: string, deviceType: unknown): DeviceType {
+/** Sets the type on the DevEUI's device; null when it has none. */
+export function setDeviceType(devEui: string, deviceType: unknown): DeviceType | null {
   const normalizedDevEui = String(devEui || "").trim().toLowerCase();
   const normalizedType = normalizeDeviceType(deviceType);
-  if (!normalizedDevEui) return normalizedType;
 
-  stmtSetDeviceType.run({
+  const info = stmtSetDeviceType.run({
     dev_eui: normalizedDevEui,
     device_type: normalizedType,
-    updated_at: new Date().toISOString(),
   });
 
-  return normalizedType;
+  return info.changes ? normalizedType : null;
 }
 
 export function getDeviceType(devEui: string): DeviceType {
@@ -554,11 +1156,8 @@ export function setDeviceAutoRecalibrationSettings(
   }
 ): DeviceAutoRecalibrationSettings {
   const normalizedDevEui = String(devEui || "").trim().toLowerCase();
-  const deviceType = getDeviceType(normalizedDevEui);
-
   stmtSetDeviceAutoRecalibration.run({
     dev_eui: normalizedDevEui,
-    device_type: deviceType,
     auto_recalibrate_enabled: input.enabled ? 1 : 0,
     auto_recalibrate_qmax_factor: Number(input.qmax_factor),
     auto_recalibrate_min_jump: Number(input.min_jump),
@@ -649,64 +1248,884 @@ export function storeReading(input: StoreReadingInput): void {
     battery_mv,
     rssi,
     snr,
+    quality: input.quality ?? "valid",
+    quality_reasons: input.quality_reasons ?? null,
+  });
+  noteStoredReading(dev_eui, at, meter_value, input.quality ?? "valid");
+}
+
+function intOrNull(v: number | null | undefined): number | null {
+  return typeof v === "number" && Number.isFinite(v) ? Math.round(v) : null;
+}
+
+function frameParams(input: StoreUplinkInput) {
+  return {
+    f_cnt: intOrNull(input.f_cnt),
+    f_port: intOrNull(input.f_port),
+    data_rate: intOrNull(input.data_rate),
+    spreading_factor: intOrNull(input.spreading_factor),
+    frequency: intOrNull(input.frequency),
+    confirmed: input.confirmed == null ? null : input.confirmed ? 1 : 0,
+  };
+}
+
+/** Insert or update an uplink; returns its row id. */
+export function storeUplink(input: StoreUplinkInput): number {
+  const meter_value =
+    typeof input.meter_value === "number" && Number.isFinite(input.meter_value)
+      ? input.meter_value
+      : null;
+
+  const meter_value_raw =
+    input.meter_value_raw == null ? null : String(input.meter_value_raw);
+
+  const battery_mv =
+    typeof input.battery_mv === "number" && Number.isFinite(input.battery_mv)
+      ? Math.round(input.battery_mv)
+      : null;
+
+  const rssi =
+    typeof input.rssi === "number" && Number.isFinite(input.rssi)
+      ? Math.round(input.rssi)
+      : null;
+
+  const snr =
+    typeof input.snr === "number" && Number.isFinite(input.snr)
+      ? input.snr
+      : null;
+
+  const deduplication_id =
+    input.deduplication_id == null || input.deduplication_id === ""
+      ? `${input.dev_eui}:${input.at}`
+      : input.deduplication_id;
+
+  const existing = db.prepare(`SELECT at FROM uplinks WHERE dev_eui = ? AND deduplication_id = ?`).get(input.dev_eui, deduplication_id) as
+    | { at: string }
+    | undefined;
+  stmtInsertUplink.run({
+    ...frameParams(input),
+    dev_eui: input.dev_eui,
+    at: input.at,
+    provider: input.provider,
+    device_name: input.device_name,
+    application_id: input.application_id,
+    application_name: input.application_name,
+    deduplication_id,
+    meter_value,
+    meter_value_raw,
+    battery_mv,
+    rssi,
+    snr,
+    decoded_json: input.decoded_json == null ? null : JSON.stringify(input.decoded_json),
+    payload_json: input.payload_json == null ? null : JSON.stringify(input.payload_json),
+  });
+  if (!existing) recordUplinkStats(input.dev_eui, input.at, input.device_name ?? null);
+  else if (existing.at !== input.at) rebuildDeviceStats(input.dev_eui);
+  const row = db.prepare(`SELECT id FROM uplinks WHERE dev_eui = ? AND deduplication_id = ?`).get(input.dev_eui, deduplication_id) as { id: number };
+  return row.id;
+}
+
+// --- uplink receptions ---
+/** Replace the receptions stored for an uplink (idempotent for duplicates and reprocessing). */
+export function replaceUplinkReceptions(uplinkId: number, devEui: string, at: string, receptions: StoreReceptionInput[]): void {
+  const insert = db.prepare(`
+    INSERT INTO uplink_receptions (
+      uplink_id, dev_eui, uplink_at, gateway_id, gateway_name,
+      rssi, snr, channel, received_at, latitude, longitude, altitude
+    )
+    VALUES (
+      @uplink_id, @dev_eui, @uplink_at, @gateway_id, @gateway_name,
+      @rssi, @snr, @channel, @received_at, @latitude, @longitude, @altitude
+    )
+  `);
+  db.transaction(() => {
+    db.prepare(`DELETE FROM uplink_receptions WHERE uplink_id = ?`).run(uplinkId);
+    for (const r of receptions) {
+      insert.run({ ...r, uplink_id: uplinkId, dev_eui: devEui, uplink_at: at });
+      touchGateway(r, at);
+    }
+  })();
+}
+
+/** Register a gateway or extend its first/last seen; the newest reported location wins unless set by hand. */
+function touchGateway(r: StoreReceptionInput, at: string): void {
+  const hasLocation = r.latitude != null && r.longitude != null;
+  db.prepare(`
+    INSERT INTO gateways (gateway_id, reported_name, latitude, longitude, altitude, first_seen, last_seen)
+    VALUES (@gateway_id, @reported_name, @latitude, @longitude, @altitude, @at, @at)
+    ON CONFLICT(gateway_id) DO UPDATE SET
+      reported_name = COALESCE(excluded.reported_name, reported_name),
+      latitude = CASE WHEN @has_location AND location_manual = 0 AND excluded.last_seen >= COALESCE(last_seen, '') THEN excluded.latitude ELSE latitude END,
+      longitude = CASE WHEN @has_location AND location_manual = 0 AND excluded.last_seen >= COALESCE(last_seen, '') THEN excluded.longitude ELSE longitude END,
+      altitude = CASE WHEN @has_location AND location_manual = 0 AND excluded.last_seen >= COALESCE(last_seen, '') THEN excluded.altitude ELSE altitude END,
+      first_seen = MIN(COALESCE(first_seen, excluded.first_seen), excluded.first_seen),
+      last_seen = MAX(COALESCE(last_seen, excluded.last_seen), excluded.last_seen)
+  `).run({
+    gateway_id: r.gateway_id,
+    reported_name: r.gateway_name,
+    latitude: hasLocation ? r.latitude : null,
+    longitude: hasLocation ? r.longitude : null,
+    altitude: hasLocation ? r.altitude : null,
+    has_location: hasLocation ? 1 : 0,
+    at,
+  });
+}
+
+// --- gateways ---
+export type GatewayStatus = "active" | "warning" | "offline" | "inactive";
+
+export interface GatewayRow {
+  gateway_id: string;
+  name: string | null;
+  reported_name: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  altitude: number | null;
+  location_manual: number;
+  first_seen: string | null;
+  last_seen: string | null;
+  /** Status as of the last offline check */
+  status: GatewayStatus | null;
+  status_changed_at: string | null;
+}
+
+export interface GatewaySummary extends GatewayRow {
+  uplinks_forwarded: number;
+  devices_heard: number;
+  /** Mean time between forwarded uplinks, null with fewer than two */
+  avg_interval_seconds: number | null;
+}
+
+export interface GatewayDeviceStats {
+  dev_eui: string;
+  device_name: string | null;
+  uplinks_heard: number;
+  avg_rssi: number | null;
+  avg_snr: number | null;
+  best_rssi: number | null;
+  last_heard: string;
+}
+
+function toGatewaySummary(row: GatewayRow & { uplinks_forwarded: number; devices_heard: number }): GatewaySummary {
+  const spanSec = row.first_seen && row.last_seen
+    ? (new Date(row.last_seen).getTime() - new Date(row.first_seen).getTime()) / 1000
+    : 0;
+  return {
+    ...row,
+    uplinks_forwarded: Number(row.uplinks_forwarded || 0),
+    devices_heard: Number(row.devices_heard || 0),
+    avg_interval_seconds: row.uplinks_forwarded > 1 && spanSec > 0 ? spanSec / (row.uplinks_forwarded - 1) : null,
+  };
+}
+
+const GATEWAY_SUMMARY_SQL = `
+  SELECT
+    g.*,
+    COUNT(DISTINCT r.uplink_id) AS uplinks_forwarded,
+    COUNT(DISTINCT r.dev_eui) AS devices_heard
+  FROM gateways g
+  LEFT JOIN uplink_receptions r ON r.gateway_id = g.gateway_id
+`;
+
+export function listGateways(): GatewaySummary[] {
+  const rows = db.prepare(`${GATEWAY_SUMMARY_SQL} GROUP BY g.gateway_id ORDER BY g.last_seen DESC`).all() as Array<GatewayRow & { uplinks_forwarded: number; devices_heard: number }>;
+  return rows.map(toGatewaySummary);
+}
+
+export function getGateway(gatewayId: string): GatewaySummary | null {
+  const row = db.prepare(`${GATEWAY_SUMMARY_SQL} WHERE g.gateway_id = ? GROUP BY g.gateway_id`).get(gatewayId) as (GatewayRow & { uplinks_forwarded: number; devices_heard: number }) | undefined;
+  return row ? toGatewaySummary(row) : null;
+}
+
+/** Devices a gateway hears, with their signal as seen by this gateway. */
+export function listGatewayDevices(gatewayId: string, from?: string, to?: string): GatewayDeviceStats[] {
+  const params: any = { gateway_id: gatewayId };
+  let where = `r.gateway_id = @gateway_id`;
+  if (from) {
+    where += ` AND r.uplink_at >= @from`;
+    params.from = from;
+  }
+  if (to) {
+    where += ` AND r.uplink_at <= @to`;
+    params.to = to;
+  }
+  return db.prepare(`
+    SELECT
+      r.dev_eui,
+      (SELECT name FROM devices d WHERE d.dev_eui = r.dev_eui AND d.name != '' LIMIT 1) AS device_name,
+      COUNT(DISTINCT r.uplink_id) AS uplinks_heard,
+      AVG(r.rssi) AS avg_rssi,
+      AVG(r.snr) AS avg_snr,
+      MAX(r.rssi) AS best_rssi,
+      MAX(r.uplink_at) AS last_heard
+    FROM uplink_receptions r
+    WHERE ${where}
+    GROUP BY r.dev_eui
+    ORDER BY uplinks_heard DESC, r.dev_eui ASC
+  `).all(params) as GatewayDeviceStats[];
+}
+
+/** Set a display name and/or a fixed location; a manual location is no longer overwritten by receptions. */
+export function updateGateway(
+  gatewayId: string,
+  input: { name?: string | null; latitude?: number | null; longitude?: number | null; altitude?: number | null }
+): GatewaySummary {
+  db.prepare(`INSERT OR IGNORE INTO gateways (gateway_id) VALUES (?)`).run(gatewayId);
+  if (input.name !== undefined) {
+    db.prepare(`UPDATE gateways SET name = ? WHERE gateway_id = ?`).run(input.name || null, gatewayId);
+  }
+  if (input.latitude !== undefined || input.longitude !== undefined) {
+    const manual = input.latitude != null && input.longitude != null;
+    db.prepare(`
+      UPDATE gateways SET latitude = @latitude, longitude = @longitude, altitude = @altitude, location_manual = @manual
+      WHERE gateway_id = @gateway_id
+    `).run({
+      gateway_id: gatewayId,
+      latitude: manual ? input.latitude : null,
+      longitude: manual ? input.longitude : null,
+      altitude: manual ? (input.altitude ?? null) : null,
+      manual: manual ? 1 : 0,
+    });
+  }
+  return getGateway(gatewayId)!;
+}
+
+export function setGatewayStatus(gatewayId: string, status: GatewayStatus, atIso: string): void {
+  db.prepare(`UPDATE gateways SET status = ?, status_changed_at = ? WHERE gateway_id = ?`).run(status, atIso, gatewayId);
+}
+
+export function listUplinkReceptionsFor(uplinkId: number): ReceptionRow[] {
+  return db.prepare(`SELECT * FROM uplink_receptions WHERE uplink_id = ? ORDER BY id ASC`).all(uplinkId) as ReceptionRow[];
+}
+
+export function listReceptions(devEui: string, range: TimeRange = {}, limit = 1000): ReceptionRow[] {
+  const params: any = { dev_eui: devEui, limit: Math.max(1, limit) };
+  let sql = `SELECT * FROM uplink_receptions WHERE dev_eui = @dev_eui${timeBounds("uplink_at", range, params)}`;
+  sql += ` ORDER BY uplink_at DESC, id ASC LIMIT @limit`;
+  return db.prepare(sql).all(params) as ReceptionRow[];
+}
+
+export interface DeviceGatewayStats {
+  gateway_id: string;
+  gateway_name: string | null;
+  /** Uplinks this gateway received */
+  uplinks_heard: number;
+  /** Share of the device's uplinks with reception data that this gateway received (0..1) */
+  share: number;
+  /** Uplinks received by this gateway and no other */
+  sole_receiver: number;
+  avg_rssi: number | null;
+  avg_snr: number | null;
+  best_rssi: number | null;
+  first_heard: string;
+  last_heard: string;
+}
+
+export interface DeviceCoverage {
+  dev_eui: string;
+  total_uplinks: number;
+  /** Uplinks for which per-gateway reception data exists */
+  uplinks_with_receptions: number;
+  /** Uplinks heard by exactly one gateway */
+  single_gateway_uplinks: number;
+  gateways: DeviceGatewayStats[];
+}
+
+/** Which gateways hear a device and how often, over an optional time range. */
+export function getDeviceCoverage(devEui: string, within: TimeRange = {}): DeviceCoverage {
+  const params: any = { dev_eui: devEui };
+  const range = (col: string) => timeBounds(col, within, params);
+
+  const total = db.prepare(`
+    SELECT COUNT(*) AS cnt FROM uplinks WHERE dev_eui = @dev_eui${range("at")}
+  `).get(params) as { cnt: number };
+
+  const perUplink = db.prepare(`
+    SELECT uplink_id, COUNT(DISTINCT gateway_id) AS gateways, MIN(gateway_id) AS gateway_id
+    FROM uplink_receptions
+    WHERE dev_eui = @dev_eui${range("uplink_at")}
+    GROUP BY uplink_id
+  `).all(params) as Array<{ uplink_id: number; gateways: number; gateway_id: string }>;
+
+  const soleByGateway = new Map<string, number>();
+  for (const u of perUplink) {
+    if (u.gateways === 1) soleByGateway.set(u.gateway_id, (soleByGateway.get(u.gateway_id) ?? 0) + 1);
+  }
+
+  const rows = db.prepare(`
+    SELECT
+      gateway_id,
+      MAX(gateway_name) AS gateway_name,
+      COUNT(DISTINCT uplink_id) AS uplinks_heard,
+      AVG(rssi) AS avg_rssi,
+      AVG(snr) AS avg_snr,
+      MAX(rssi) AS best_rssi,
+      MIN(uplink_at) AS first_heard,
+      MAX(uplink_at) AS last_heard
+    FROM uplink_receptions
+    WHERE dev_eui = @dev_eui${range("uplink_at")}
+    GROUP BY gateway_id
+    ORDER BY uplinks_heard DESC, gateway_id ASC
+  `).all(params) as Array<Omit<DeviceGatewayStats, "share" | "sole_receiver">>;
+
+  const withReceptions = perUplink.length;
+  return {
+    dev_eui: devEui,
+    total_uplinks: Number(total.cnt || 0),
+    uplinks_with_receptions: withReceptions,
+    single_gateway_uplinks: perUplink.filter(u => u.gateways === 1).length,
+    gateways: rows.map(r => ({
+      ...r,
+      share: withReceptions ? r.uplinks_heard / withReceptions : 0,
+      sole_receiver: soleByGateway.get(r.gateway_id) ?? 0,
+    })),
+  };
+}
+
+// --- frame counters ---
+export interface FrameCounterRow {
+  id: number;
+  at: string;
+  f_cnt: number | null;
+}
+
+/** Uplinks of a device in time order with their frame counter (null where none was reported). */
+export function listFrameCounters(devEui: string, range: TimeRange = {}): FrameCounterRow[] {
+  const params: any = { dev_eui: devEui };
+  let sql = `SELECT id, at, f_cnt FROM uplinks WHERE dev_eui = @dev_eui${timeBounds("at", range, params)}`;
+  sql += ` ORDER BY at ASC, id ASC`;
+  return db.prepare(sql).all(params) as FrameCounterRow[];
+}
+
+/** The latest uplink before `at` that carried a frame counter. */
+export function getPreviousFrameCounter(devEui: string, at: string): { at: string; f_cnt: number } | null {
+  const row = db.prepare(`
+    SELECT at, f_cnt FROM uplinks
+    WHERE dev_eui = ? AND at < ? AND f_cnt IS NOT NULL
+    ORDER BY at DESC, id DESC
+    LIMIT 1
+  `).get(devEui, at) as { at: string; f_cnt: number } | undefined;
+  return row ?? null;
+}
+
+// --- register values ---
+export interface StoreRegisterInput {
+  /** OBIS short code (`1.8.0`) or quantity name (`volume`, `volume_flow`) */
+  register: string;
+  unit: string | null;
+  value: number;
+}
+
+export interface RegisterSummary {
+  register: string;
+  unit: string | null;
+  count: number;
+  first_at: string;
+  last_at: string;
+  last_value: number;
+}
+
+export interface RegisterPoint {
+  at: string;
+  value: number;
+}
+
+/** Replace the register values stored for one uplink time (redeliveries and reprocessing stay idempotent). */
+export function replaceRegisterValues(devEui: string, at: string, registers: StoreRegisterInput[]): void {
+  const insert = db.prepare(`
+    INSERT OR REPLACE INTO register_values (dev_eui, at, register, unit, value)
+    VALUES (@dev_eui, @at, @register, @unit, @value)
+  `);
+  db.transaction(() => {
+    db.prepare(`DELETE FROM register_values WHERE dev_eui = ? AND at = ?`).run(devEui, at);
+    for (const r of registers) insert.run({ dev_eui: devEui, at, register: r.register, unit: r.unit ?? "", value: r.value });
+  })();
+}
+
+export function listRegisterValuesAt(devEui: string, at: string): StoreRegisterInput[] {
+  const rows = db.prepare(`
+    SELECT register, unit, value FROM register_values WHERE dev_eui = ? AND at = ? ORDER BY register, unit
+  `).all(devEui, at) as Array<{ register: string; unit: string; value: number }>;
+  return rows.map(r => ({ register: r.register, unit: r.unit || null, value: r.value }));
+}
+
+/** Registers a device has reported, with their latest value. */
+export function listRegisters(devEui: string, range: TimeRange = {}): RegisterSummary[] {
+  const params: Record<string, unknown> = { dev_eui: devEui };
+  const rows = db.prepare(`
+    SELECT r.register, r.unit, r.cnt AS count, r.first_at, r.last_at, v.value AS last_value
+    FROM (
+      SELECT register, unit, COUNT(*) AS cnt, MIN(at) AS first_at, MAX(at) AS last_at
+      FROM register_values WHERE dev_eui = @dev_eui${timeBounds("at", range, params)}
+      GROUP BY register, unit
+    ) r
+    JOIN register_values v ON v.dev_eui = @dev_eui AND v.register = r.register AND v.unit = r.unit AND v.at = r.last_at
+    ORDER BY r.register, r.unit
+  `).all(params) as Array<Omit<RegisterSummary, "unit"> & { unit: string }>;
+  return rows.map(r => ({ ...r, unit: r.unit || null }));
+}
+
+/** One register's values in time order; `unit` narrows to one unit when a register was reported in several. */
+export function listRegisterSeries(
+  devEui: string,
+  register: string,
+  opts: { unit?: string | null; from?: string; to?: string; until?: string; limit?: number } = {},
+): RegisterPoint[] {
+  let sql = `SELECT at, value FROM register_values WHERE dev_eui = @dev_eui AND register = @register`;
+  const params: any = { dev_eui: devEui, register };
+  if (opts.unit !== undefined) {
+    sql += ` AND unit = @unit`;
+    params.unit = opts.unit ?? "";
+  }
+  if (opts.from) {
+    sql += ` AND at >= @from`;
+    params.from = opts.from;
+  }
+  if (opts.to) {
+    sql += ` AND at <= @to`;
+    params.to = opts.to;
+  }
+  if (opts.until) {
+    sql += ` AND at < @until`;
+    params.until = opts.until;
+  }
+  sql += ` ORDER BY at ASC`;
+  if (opts.limit) {
+    sql += ` LIMIT @limit`;
+    params.limit = opts.limit;
+  }
+  return db.prepare(sql).all(params) as RegisterPoint[];
+}
+
+// --- meter lifecycle ---
+export interface MeterInstallation {
+  id: number;
+  dev_eui: string;
+  serial: string;
+  installed_at: string;
+  /** When the next meter was installed; null for the meter in place */
+  removed_at: string | null;
+  /** Counter at installation; null = take the first reading after it */
+  start_reading: number | null;
+  /** Counter at removal; null = take the last reading before the next installation */
+  end_reading: number | null;
+  comment: string | null;
+  created_at: string;
+}
+
+export type MeterInstallationInput = Pick<MeterInstallation, "serial" | "installed_at" | "start_reading" | "end_reading" | "comment">;
+
+export interface MeterOffset {
+  id: number;
+  dev_eui: string;
+  /** Added to every reading from this time on */
+  at: string;
+  offset: number;
+  comment: string | null;
+  created_at: string;
+}
+
+/** A device's meters in installation order; a meter is in place until the next one is installed. */
+export function listMeterInstallations(devEui: string): MeterInstallation[] {
+  const rows = db.prepare(`
+    SELECT * FROM meter_installations WHERE dev_eui = ? ORDER BY installed_at ASC, id ASC
+  `).all(devEui) as Array<Omit<MeterInstallation, "removed_at">>;
+  return rows.map((r, i) => ({ ...r, removed_at: rows[i + 1]?.installed_at ?? null }));
+}
+
+export function getMeterInstallation(id: number): MeterInstallation | null {
+  const row = db.prepare(`SELECT dev_eui FROM meter_installations WHERE id = ?`).get(id) as { dev_eui: string } | undefined;
+  return row ? listMeterInstallations(row.dev_eui).find(m => m.id === id) ?? null : null;
+}
+
+export function createMeterInstallation(devEui: string, input: MeterInstallationInput): MeterInstallation {
+  const info = db.prepare(`
+    INSERT INTO meter_installations (dev_eui, serial, installed_at, start_reading, end_reading, comment, created_at)
+    VALUES (@dev_eui, @serial, @installed_at, @start_reading, @end_reading, @comment, @created_at)
+  `).run({ ...input, dev_eui: devEui, created_at: new Date().toISOString() });
+  return getMeterInstallation(Number(info.lastInsertRowid))!;
+}
+
+export function updateMeterInstallation(id: number, input: Partial<MeterInstallationInput>): MeterInstallation | null {
+  const existing = getMeterInstallation(id);
+  if (!existing) return null;
+  const next = { ...existing, ...Object.fromEntries(Object.entries(input).filter(([, v]) => v !== undefined)) };
+  db.prepare(`
+    UPDATE meter_installations
+    SET serial = @serial, installed_at = @installed_at, start_reading = @start_reading, end_reading = @end_reading, comment = @comment
+    WHERE id = @id
+  `).run({
+    id,
+    serial: next.serial,
+    installed_at: next.installed_at,
+    start_reading: next.start_reading,
+    end_reading: next.end_reading,
+    comment: next.comment,
   });
+  return getMeterInstallation(id);
+}
+
+export function deleteMeterInstallation(id: number): boolean {
+  return db.prepare(`DELETE FROM meter_installations WHERE id = ?`).run(id).changes > 0;
 }
 
-export function storeUplink(input: StoreUplinkInput): void {
-  const meter_value =
-    typeof input.meter_value === "number" && Number.isFinite(input.meter_value)
-      ? input.meter_value
-      : null;
+export function listMeterOffsets(devEui: string): MeterOffset[] {
+  return db.prepare(`SELECT * FROM meter_offsets WHERE dev_eui = ? ORDER BY at ASC, id ASC`).all(devEui) as MeterOffset[];
+}
+
+export function createMeterOffset(input: Omit<MeterOffset, "id" | "created_at">): MeterOffset {
+  const created_at = new Date().toISOString();
+  const info = db.prepare(`
+    INSERT INTO meter_offsets (dev_eui, at, offset, comment, created_at)
+    VALUES (@dev_eui, @at, @offset, @comment, @created_at)
+  `).run({ ...input, created_at });
+  return { ...input, id: Number(info.lastInsertRowid), created_at };
+}
+
+export function deleteMeterOffset(id: number): boolean {
+  return db.prepare(`DELETE FROM meter_offsets WHERE id = ?`).run(id).changes > 0;
+}
+
+const stmtGetMaxCounterValue = db.prepare(`SELECT max_counter_value FROM device_meter_settings WHERE dev_eui = ?`);
+const stmtSetMaxCounterValue = db.prepare(`
+  INSERT INTO device_meter_settings (dev_eui, max_counter_value, updated_at)
+  VALUES (@dev_eui, @max_counter_value, @updated_at)
+  ON CONFLICT(dev_eui) DO UPDATE SET
+    max_counter_value = excluded.max_counter_value,
+    updated_at = excluded.updated_at
+`);
+
+/** The value at which a device's counter wraps to 0 (e.g. 100000 for five digits); null = never wraps. */
+export function getMaxCounterValue(devEui: string): number | null {
+  const row = stmtGetMaxCounterValue.get(devEui) as { max_counter_value: number | null } | undefined;
+  return row?.max_counter_value ?? null;
+}
+
+export function setMaxCounterValue(devEui: string, maxCounterValue: number | null): void {
+  stmtSetMaxCounterValue.run({ dev_eui: devEui, max_counter_value: maxCounterValue, updated_at: new Date().toISOString() });
+}
+
+/** How a device's counter wraps: its size and the Qmax of its `max_flow` rule, if any. */
+export interface CounterLimits {
+  maxCounterValue: number | null;
+  qmax: number | null;
+}
+
+export function getCounterLimits(devEui: string, rules = getValidationRules(devEui)): CounterLimits {
+  const maxFlow = rules.find(r => r.check === "max_flow");
+  return { maxCounterValue: getMaxCounterValue(devEui), qmax: maxFlow?.check === "max_flow" ? maxFlow.qmax : null };
+}
+
+/** Share of a revolution at either end of the counter that a wrap passes through */
+const ROLLOVER_MARGIN = 0.1;
+
+/**
+ * A drop from `previous` to `current` is a wrap when the counter can roll
+ * over and it went from the top of the counter to its bottom, or the wrapped
+ * delta fits Qmax over the elapsed time. Other drops stay what they look like
+ * (misreads, resets).
+ */
+export function isCounterRollover(
+  previous: { at: string; meter_value: number },
+  current: { at: string; meter_value: number },
+  limits: CounterLimits
+): boolean {
+  const max = limits.maxCounterValue;
+  if (!max || !(current.meter_value < previous.meter_value) || previous.meter_value > max) return false;
+  if (max - previous.meter_value <= max * ROLLOVER_MARGIN && current.meter_value <= max * ROLLOVER_MARGIN) return true;
+  if (!limits.qmax) return false;
+  const hours = (Date.parse(current.at) - Date.parse(previous.at)) / 3_600_000;
+  return current.meter_value + max - previous.meter_value <= limits.qmax * hours;
+}
+
+/** Delta between two readings of the same meter, taking a counter wrap into account. */
+export function counterDelta(
+  previous: { at: string; meter_value: number },
+  current: { at: string; meter_value: number },
+  limits: CounterLimits
+): { delta: number; rollover: boolean } {
+  const rollover = isCounterRollover(previous, current, limits);
+  const delta = current.meter_value - previous.meter_value + (rollover ? limits.maxCounterValue! : 0);
+  return { delta: Number(delta.toPrecision(15)), rollover };
+}
+
+// only the drops between consecutive counted readings; wraps are among them
+const stmtCounterDrops = db.prepare(`
+  SELECT prev_at, prev_value, at, meter_value
+  FROM (
+    SELECT at, meter_value, LAG(at) OVER w AS prev_at, LAG(meter_value) OVER w AS prev_value
+    FROM readings
+    WHERE dev_eui = ? AND quality != 'rejected'
+    WINDOW w AS (ORDER BY at ASC)
+  )
+  WHERE meter_value < prev_value
+  ORDER BY at ASC
+`);
+
+const stmtLastCountedReading = db.prepare(`
+  SELECT at, meter_value FROM readings WHERE dev_eui = ? AND quality != 'rejected' ORDER BY at DESC LIMIT 1
+`);
+
+interface CounterDrop {
+  prev_at: string;
+  prev_value: number;
+  at: string;
+  meter_value: number;
+}
+
+/**
+ * Drops per DevEUI, so that jump detection on every ingest and each
+ * readings request don't rescan the whole history. Readings appended in
+ * order extend an entry; any other change to a DevEUI's readings drops it.
+ */
+const counterDropsCache = new Map<string, { last: { at: string; meter_value: number } | null; drops: CounterDrop[] }>();
+
+function counterDrops(devEui: string): CounterDrop[] {
+  let entry = counterDropsCache.get(devEui);
+  if (!entry) {
+    entry = {
+      last: (stmtLastCountedReading.get(devEui) as { at: string; meter_value: number } | undefined) ?? null,
+      drops: stmtCounterDrops.all(devEui) as CounterDrop[],
+    };
+    counterDropsCache.set(devEui, entry);
+  }
+  return entry.drops;
+}
+
+function noteStoredReading(devEui: string, at: string, meterValue: number, quality: ReadingQuality): void {
+  const entry = counterDropsCache.get(devEui);
+  if (!entry) return;
+  if (entry.last && at <= entry.last.at) {
+    counterDropsCache.delete(devEui);
+    return;
+  }
+  if (quality === "rejected") return;
+  if (entry.last && meterValue < entry.last.meter_value) {
+    entry.drops.push({ prev_at: entry.last.at, prev_value: entry.last.meter_value, at, meter_value: meterValue });
+  }
+  entry.last = { at, meter_value: meterValue };
+}
+
+function forgetCounterDrops(devEui?: string): void {
+  if (devEui) counterDropsCache.delete(devEui);
+  else counterDropsCache.clear();
+}
+
+
+/**
+ * Maps a raw reading to a continuous counter across counter wraps, meter
+ * replacements and manual offsets. At each installation the counter
+ * continues from the old meter's end reading with the new meter's start
+ * reading; missing readings are taken from the stored readings around the
+ * swap. Computed from the current records on every call, so replacements
+ * and the counter size can be entered late. `within` limits it to a device's
+ * binding: meters, offsets and wraps of other devices of the DevEUI don't count.
+ */
+export function meterValueAdjuster(
+  devEui: string,
+  within: Pick<RangeQuery, "from" | "until"> = {}
+): (at: string, meterValue: number) => number {
+  const inRange = (at: string) => (!within.from || at >= within.from) && (!within.until || at < within.until);
+  const installations = listMeterInstallations(devEui).filter(m => inRange(m.installed_at));
+  const offsets = listMeterOffsets(devEui).filter(o => inRange(o.at));
+  const limits = getCounterLimits(devEui);
+  const maxCounterValue = limits.maxCounterValue;
+  if (!installations.length && !offsets.length && !maxCounterValue) return (_at, v) => v;
+
+  const before = db.prepare(`
+    SELECT meter_value FROM readings WHERE dev_eui = ? AND at < ? AND (? IS NULL OR at >= ?) ORDER BY at DESC LIMIT 1
+  `);
+  const atOrAfter = db.prepare(`
+    SELECT meter_value FROM readings WHERE dev_eui = ? AND at >= ? AND (? IS NULL OR at < ?) ORDER BY at ASC LIMIT 1
+  `);
+  const value = (row: unknown) => (row as { meter_value: number } | undefined)?.meter_value ?? null;
+
+  // offset of the counter in each installation period
+  const segments: Array<{ from: string; offset: number }> = [];
+  let offset = 0;
+  installations.forEach((m, i) => {
+    const prev = installations[i - 1];
+    const prevEnd = prev
+      ? prev.end_reading ?? value(before.get(devEui, m.installed_at, within.from ?? null, within.from ?? null)) ?? prev.start_reading
+      : value(before.get(devEui, m.installed_at, within.from ?? null, within.from ?? null));
+    const start = m.start_reading ?? value(atOrAfter.get(devEui, m.installed_at, m.removed_at, m.removed_at));
+    if (prevEnd != null && start != null) offset += prevEnd - start;
+    segments.push({ from: m.installed_at, offset });
+  });
+
+  // times of counter wraps; a drop across a meter swap is not one
+  const rollovers: string[] = [];
+  if (maxCounterValue) {
+    for (const d of counterDrops(devEui)) {
+      if (!inRange(d.prev_at) || !inRange(d.at)) continue;
+      if (installations.some(m => m.installed_at > d.prev_at && m.installed_at <= d.at)) continue;
+      if (isCounterRollover({ at: d.prev_at, meter_value: d.prev_value }, d, limits)) rollovers.push(d.at);
+    }
+  }
+
+  return (at, meterValue) => {
+    let total = meterValue;
+    for (let i = segments.length - 1; i >= 0; i--) {
+      if (segments[i].from <= at) {
+        total += segments[i].offset;
+        break;
+      }
+    }
+    if (rollovers.length) total += maxCounterValue! * rollovers.filter(r => r <= at).length;
+    for (const o of offsets) if (o.at <= at) total += o.offset;
+    return Number(total.toPrecision(15));
+  };
+}
+
+/** The last reading before `at` that was not rejected, for comparing a new reading against. */
+export function getPreviousReading(devEui: string, at: string): { at: string; meter_value: number } | null {
+  return (db.prepare(`
+    SELECT at, meter_value FROM readings WHERE dev_eui = ? AND at < ? AND quality != 'rejected' ORDER BY at DESC LIMIT 1
+  `).get(devEui, at) as { at: string; meter_value: number } | undefined) ?? null;
+}
+
+// --- reading validation ---
+export type ReadingQuality = "valid" | "suspect" | "rejected";
+export const READING_QUALITIES: readonly ReadingQuality[] = ["valid", "suspect", "rejected"];
+
+/** What a failed check does to the reading */
+export type ValidationAction = "suspect" | "reject";
+
+export type ValidationRule =
+  | { check: "monotonic"; action: ValidationAction }
+  /** Increase over the previous reading must not exceed qmax (per hour) × elapsed hours */
+  | { check: "max_flow"; qmax: number; action: ValidationAction }
+  | { check: "range"; min: number | null; max: number | null; action: ValidationAction }
+  /** Digits before the decimal point */
+  | { check: "digits"; digits: number; action: ValidationAction };
+
+const stmtGetValidationRules = db.prepare(`SELECT validation_rules FROM device_meter_settings WHERE dev_eui = ?`);
+const stmtSetValidationRules = db.prepare(`
+  INSERT INTO device_meter_settings (dev_eui, validation_rules, updated_at)
+  VALUES (@dev_eui, @validation_rules, @updated_at)
+  ON CONFLICT(dev_eui) DO UPDATE SET
+    validation_rules = excluded.validation_rules,
+    updated_at = excluded.updated_at
+`);
+
+export function getValidationRules(devEui: string): ValidationRule[] {
+  const row = stmtGetValidationRules.get(devEui) as { validation_rules: string | null } | undefined;
+  if (!row?.validation_rules) return [];
+  try {
+    return JSON.parse(row.validation_rules) as ValidationRule[];
+  } catch {
+    return [];
+  }
+}
 
-  const meter_value_raw =
-    input.meter_value_raw == null ? null : String(input.meter_value_raw);
+export function setValidationRules(devEui: string, rules: ValidationRule[]): void {
+  stmtSetValidationRules.run({
+    dev_eui: devEui,
+    validation_rules: rules.length ? JSON.stringify(rules) : null,
+    updated_at: new Date().toISOString(),
+  });
+}
 
-  const battery_mv =
-    typeof input.battery_mv === "number" && Number.isFinite(input.battery_mv)
-      ? Math.round(input.battery_mv)
-      : null;
+// --- reprocessing support ---
+export function withTransaction<T>(fn: () => T): T {
+  try {
+    return db.transaction(fn)();
+  } catch (err) {
+    // readings noted inside the transaction were rolled back
+    forgetCounterDrops();
+    throw err;
+  }
+}
 
-  const rssi =
-    typeof input.rssi === "number" && Number.isFinite(input.rssi)
-      ? Math.round(input.rssi)
-      : null;
+/** One page of stored uplinks (with their original payload), oldest id first. */
+export function listUplinksForReprocess(input: { devEui?: string | null; from?: string; to?: string; afterId: number; limit: number }): UplinkRow[] {
+  let sql = `SELECT * FROM uplinks WHERE id > @after_id AND payload_json IS NOT NULL`;
+  const params: any = { after_id: input.afterId, limit: input.limit };
+  if (input.devEui) {
+    sql += ` AND dev_eui = @dev_eui`;
+    params.dev_eui = input.devEui;
+  }
+  if (input.from) {
+    sql += ` AND at >= @from`;
+    params.from = input.from;
+  }
+  if (input.to) {
+    sql += ` AND at <= @to`;
+    params.to = input.to;
+  }
+  sql += ` ORDER BY id ASC LIMIT @limit`;
+  return db.prepare(sql).all(params) as UplinkRow[];
+}
 
-  const snr =
-    typeof input.snr === "number" && Number.isFinite(input.snr)
-      ? input.snr
-      : null;
+export function findUplink(devEui: string, deduplicationId: string | null, at: string): UplinkRow | null {
+  const dedup = deduplicationId == null || deduplicationId === "" ? `${devEui}:${at}` : deduplicationId;
+  const byDedup = db.prepare(`SELECT * FROM uplinks WHERE dev_eui = ? AND deduplication_id = ?`).get(devEui, dedup) as UplinkRow | undefined;
+  if (byDedup) return byDedup;
+  const byAt = db.prepare(`SELECT * FROM uplinks WHERE dev_eui = ? AND at = ? ORDER BY id ASC LIMIT 1`).get(devEui, at) as UplinkRow | undefined;
+  return byAt ?? null;
+}
 
-  const deduplication_id =
-    input.deduplication_id == null || input.deduplication_id === ""
-      ? `${input.dev_eui}:${input.at}`
-      : input.deduplication_id;
+export function getUplinkById(id: number): UplinkRow | null {
+  const row = db.prepare(`SELECT * FROM uplinks WHERE id = ?`).get(id) as UplinkRow | undefined;
+  return row ?? null;
+}
 
-  stmtInsertUplink.run({
-    dev_eui: input.dev_eui,
-    at: input.at,
+/** Overwrite the parsed fields of an existing uplink row, keeping its identity. */
+export function updateUplinkParsedFields(id: number, input: StoreUplinkInput): void {
+  db.prepare(`
+    UPDATE uplinks SET
+      provider = @provider,
+      device_name = @device_name,
+      application_id = @application_id,
+      application_name = @application_name,
+      meter_value = @meter_value,
+      meter_value_raw = @meter_value_raw,
+      battery_mv = @battery_mv,
+      rssi = @rssi,
+      snr = @snr,
+      f_cnt = @f_cnt,
+      f_port = @f_port,
+      data_rate = @data_rate,
+      spreading_factor = @spreading_factor,
+      frequency = @frequency,
+      confirmed = @confirmed,
+      decoded_json = @decoded_json
+    WHERE id = @id
+  `).run({
+    id,
+    ...frameParams(input),
     provider: input.provider,
     device_name: input.device_name,
     application_id: input.application_id,
     application_name: input.application_name,
-    deduplication_id,
-    meter_value,
-    meter_value_raw,
-    battery_mv,
-    rssi,
-    snr,
+    meter_value: input.meter_value,
+    meter_value_raw: input.meter_value_raw == null ? null : String(input.meter_value_raw),
+    battery_mv: input.battery_mv == null ? null : Math.round(input.battery_mv),
+    rssi: input.rssi == null ? null : Math.round(input.rssi),
+    snr: input.snr,
     decoded_json: input.decoded_json == null ? null : JSON.stringify(input.decoded_json),
-    payload_json: input.payload_json == null ? null : JSON.stringify(input.payload_json),
   });
 }
 
+export function getReadingAt(devEui: string, at: string): ReadingRow | null {
+  const row = db.prepare(`SELECT * FROM readings WHERE dev_eui = ? AND at = ?`).get(devEui, at) as ReadingRow | undefined;
+  return row ?? null;
+}
+
+export function deleteReadingAt(devEui: string, at: string): void {
+  db.prepare(`DELETE FROM readings WHERE dev_eui = ? AND at = ?`).run(devEui, at);
+  forgetCounterDrops(devEui);
+}
+
 export function listDevices(): { dev_eui: string; device_name?: string | null }[] {
   return stmtListDevices.all() as any[];
 }
 
 export function getLastReading(
-  devEui: string
+  devEui: string,
+  range: TimeRange = {}
 ): { at: string; meter_value: number; battery_mv: number | null; rssi: number | null; snr: number | null } | null {
-  const row = stmtLastReading.get(devEui) as any;
+  const row = (range.from || range.to || range.until ? listReadings(devEui, { ...range, limit: 1 })[0] : stmtLastReading.get(devEui)) as any;
   if (!row) return null;
   return {
     at: row.at,
@@ -717,13 +2136,66 @@ export function getLastReading(
   };
 }
 
-export function listReadings(devEui: string, from?: string, to?: string): ReadingRow[] {
-  const all = stmtAllReadingsForDevice.all(devEui) as any[];
-  return all.filter((r) => {
-    if (from && r.at < from) return false;
-    if (to && r.at > to) return false;
-    return true;
-  }).map((r) => ({
+/** Cursor of a row for RangeQuery paging: `at`, plus the id where rows can share a timestamp. */
+export function rowCursor(row: { at: string; id?: number }): string {
+  return row.id == null ? row.at : `${row.at}|${row.id}`;
+}
+
+/**
+ * Run `sql` (ending in its WHERE conditions) for a RangeQuery. `keyed`
+ * tables break timestamp ties by id.
+ */
+function queryRange<T>(sql: string, params: Record<string, unknown>, query: RangeQuery, keyed: boolean): T[] {
+  if (query.from) {
+    sql += ` AND at >= @from`;
+    params.from = query.from;
+  }
+  if (query.to) {
+    sql += ` AND at <= @to`;
+    params.to = query.to;
+  }
+  if (query.until) {
+    sql += ` AND at < @until`;
+    params.until = query.until;
+  }
+  for (const [name, op] of [["before", "<"], ["after", ">"]] as const) {
+    const cursor = query[name];
+    if (!cursor) continue;
+    const sep = cursor.lastIndexOf("|");
+    const id = keyed && sep > 0 ? Number(cursor.slice(sep + 1)) : NaN;
+    params[`${name}_at`] = Number.isInteger(id) ? cursor.slice(0, sep) : cursor;
+    if (Number.isInteger(id)) {
+      sql += ` AND (at ${op} @${name}_at OR (at = @${name}_at AND id ${op} @${name}_id))`;
+      params[`${name}_id`] = id;
+    } else {
+      sql += ` AND at ${op} @${name}_at`;
+    }
+  }
+
+  // the newest rows of the range unless paging forward
+  const newest = !!query.limit && !query.after;
+  const dir = newest ? "DESC" : "ASC";
+  sql += keyed ? ` ORDER BY at ${dir}, id ${dir}` : ` ORDER BY at ${dir}`;
+  if (query.limit) {
+    sql += ` LIMIT @limit`;
+    params.limit = Math.max(1, Math.floor(query.limit));
+  }
+  const rows = db.prepare(sql).all(params) as T[];
+  return newest ? rows.reverse() : rows;
+}
+
+/** `qualities` limits the result to readings with these quality flags. */
+export function listReadings(devEui: string, query: RangeQuery & { qualities?: readonly ReadingQuality[] } = {}): ReadingRow[] {
+  let sql = `
+    SELECT at, meter_value, battery_mv, rssi, snr, quality, quality_reasons
+    FROM readings
+    WHERE dev_eui = @dev_eui`;
+  const params: Record<string, unknown> = { dev_eui: devEui };
+  if (query.qualities) {
+    sql += ` AND quality IN (${query.qualities.map((_, i) => `@quality${i}`).join(", ") || "NULL"})`;
+    query.qualities.forEach((q, i) => (params[`quality${i}`] = q));
+  }
+  return queryRange<any>(sql, params, query, false).map((r) => ({
     dev_eui: devEui,
     at: r.at,
     meter_value: r.meter_value,
@@ -735,75 +2207,78 @@ export function listReadings(devEui: string, from?: string, to?: string): Readin
     battery_mv: r.battery_mv == null ? null : r.battery_mv,
     rssi: r.rssi == null ? null : r.rssi,
     snr: r.snr == null ? null : r.snr,
+    quality: r.quality,
+    quality_reasons: r.quality_reasons ?? null,
   }));
 }
 
 export function listRecentReadings(devEui: string, limit = 8): Array<{ at: string; meter_value: number }> {
   const rows = stmtRecentReadings.all(devEui, Math.max(1, Math.floor(limit))) as Array<{ at: string; meter_value: number }>;
-  return rows.slice().reverse();
+  // jump detection must not see a meter swap as a jump
+  const adjust = meterValueAdjuster(devEui);
+  return rows.slice().reverse().map(r => ({ at: r.at, meter_value: adjust(r.at, r.meter_value) }));
 }
 
-export function listUplinks(devEui: string, from?: string, to?: string, limit = 500): UplinkRow[] {
-  const all = stmtAllUplinksForDevice.all(devEui) as UplinkRow[];
-  const filtered = all.filter((r) => {
-    if (from && r.at < from) return false;
-    if (to && r.at > to) return false;
-    return true;
-  });
-  return filtered.slice(Math.max(0, filtered.length - Math.max(1, limit)));
+export function listUplinks(devEui: string, query: RangeQuery = {}): UplinkRow[] {
+  return queryRange<UplinkRow>(`SELECT * FROM uplinks WHERE dev_eui = @dev_eui`, { dev_eui: devEui }, { limit: 500, ...query }, true);
 }
 
-export function getLastUplink(devEui: string): UplinkRow | null {
-  const row = stmtLastUplink.get(devEui) as UplinkRow | undefined;
+export function getLastUplink(devEui: string, range: TimeRange = {}): UplinkRow | null {
+  const row = (range.from || range.to || range.until ? listUplinks(devEui, { ...range, limit: 1 })[0] : stmtLastUplink.get(devEui)) as UplinkRow | undefined;
   return row ?? null;
 }
 
+/**
+ * Removes a DevEUI's module with all devices bound to it and everything
+ * recorded for it. Devices, readings, uplinks, anomalies and settings go by
+ * foreign key cascade; the tables keyed by plain DevEUI are cleared here.
+ */
 export function deleteDevice(devEui: string): { readingsDeleted: number; uplinksDeleted: number } {
-  const infoReadings = stmtDeleteReadingsForDevice.run(devEui);
-  const infoUplinks = stmtDeleteUplinksForDevice.run(devEui);
-  stmtDeleteSettingsForDevice.run(devEui);
-  db.prepare(`DELETE FROM anomaly_log WHERE dev_eui = ?`).run(devEui);
-  return {
-    readingsDeleted: Number(infoReadings.changes || 0),
-    uplinksDeleted: Number(infoUplinks.changes || 0),
-  };
+  return db.transaction(() => {
+    const counts = stmtCountDeviceData.get({ dev_eui: devEui }) as { readings: number; uplinks: number };
+    db.prepare(`DELETE FROM lora_modules WHERE dev_eui = ?`).run(devEui);
+    forgetCounterDrops(devEui);
+    const left = stmtCountDeviceData.get({ dev_eui: devEui }) as { readings: number; uplinks: number };
+    if (left.readings || left.uplinks) throw new Error(`deleting ${devEui} did not cascade to its readings and uplinks`);
+    for (const table of ["network_events", "downlinks", "uplink_receptions", "register_values", "gas_conversion_factors", "meter_installations", "meter_offsets"]) {
+      db.prepare(`DELETE FROM ${table} WHERE dev_eui = ?`).run(devEui);
+    }
+    return { readingsDeleted: counts.readings, uplinksDeleted: counts.uplinks };
+  })();
 }
 
-export function resetUplinkCount(devEui: string): void {
-  const now = new Date().toISOString();
+function setResetMarker(devEui: string, column: "uplink_count_reset_at" | "failure_logs_reset_at"): void {
   db.prepare(`
-    INSERT INTO device_settings (dev_eui, uplink_count_reset_at, updated_at)
-    VALUES (@dev_eui, @reset_at, @updated_at)
-    ON CONFLICT(dev_eui) DO UPDATE SET
-      uplink_count_reset_at = excluded.uplink_count_reset_at,
-      updated_at = excluded.updated_at
-  `).run({ dev_eui: devEui, reset_at: now, updated_at: now });
+    INSERT INTO device_reset_markers (dev_eui, ${column}) VALUES (?, ?)
+    ON CONFLICT(dev_eui) DO UPDATE SET ${column} = excluded.${column}
+  `).run(devEui, new Date().toISOString());
+}
+
+function getResetMarker(devEui: string, column: "uplink_count_reset_at" | "failure_logs_reset_at"): string | null {
+  const row = db.prepare(`SELECT ${column} AS at FROM device_reset_markers WHERE dev_eui = ?`).get(devEui) as { at: string | null } | undefined;
+  return row?.at ?? null;
+}
+
+export function resetUplinkCount(devEui: string): void {
+  setResetMarker(devEui, "uplink_count_reset_at");
+  rebuildDeviceStats(devEui);
 }
 
 export function getUplinkCountResetAt(devEui: string): string | null {
-  const row = db.prepare(`SELECT uplink_count_reset_at FROM device_settings WHERE dev_eui = ?`).get(devEui) as { uplink_count_reset_at: string | null } | undefined;
-  return row?.uplink_count_reset_at ?? null;
+  return getResetMarker(devEui, "uplink_count_reset_at");
 }
 
 export function resetFailureLogs(devEui: string): void {
-  const now = new Date().toISOString();
-  db.prepare(`
-    INSERT INTO device_settings (dev_eui, failure_logs_reset_at, updated_at)
-    VALUES (@dev_eui, @reset_at, @updated_at)
-    ON CONFLICT(dev_eui) DO UPDATE SET
-      failure_logs_reset_at = excluded.failure_logs_reset_at,
-      updated_at = excluded.updated_at
-  `).run({ dev_eui: devEui, reset_at: now, updated_at: now });
+  setResetMarker(devEui, "failure_logs_reset_at");
 }
 
 export function getFailureLogsResetAt(devEui: string): string | null {
-  const row = db.prepare(`SELECT failure_logs_reset_at FROM device_settings WHERE dev_eui = ?`).get(devEui) as { failure_logs_reset_at: string | null } | undefined;
-  return row?.failure_logs_reset_at ?? null;
+  return getResetMarker(devEui, "failure_logs_reset_at");
 }
 
-export function exportDeviceData(devEui: string, from?: string, to?: string): { readings: ReadingRow[]; uplinks: UplinkRow[] } {
-  const readings = listReadings(devEui, from, to);
-  const uplinks = listUplinks(devEui, from, to, 100000);
+export function exportDeviceData(devEui: string, range: RangeQuery = {}): { readings: ReadingRow[]; uplinks: UplinkRow[] } {
+  const readings = listReadings(devEui, range);
+  const uplinks = listUplinks(devEui, { ...range, limit: 100000 });
   return { readings, uplinks };
 }
 
@@ -816,11 +2291,14 @@ export function deleteDataPoint(devEui: string, at: string, source: DeleteSource
   if (source === "readings" || source === "both") {
     const info = db.prepare(`DELETE FROM readings WHERE dev_eui = ? AND at = ?`).run(devEui, at);
     readingsDeleted = Number(info.changes || 0);
+    forgetCounterDrops(devEui);
   }
 
   if (source === "uplinks" || source === "both") {
     const info = db.prepare(`DELETE FROM uplinks WHERE dev_eui = ? AND at = ?`).run(devEui, at);
     uplinksDeleted = Number(info.changes || 0);
+    db.prepare(`DELETE FROM uplink_receptions WHERE dev_eui = ? AND uplink_at = ?`).run(devEui, at);
+    if (uplinksDeleted) rebuildDeviceStats(devEui);
   }
 
   return { readingsDeleted, uplinksDeleted };
@@ -833,16 +2311,132 @@ export function deleteDataRange(devEui: string, from: string, to: string, source
   if (source === "readings" || source === "both") {
     const info = db.prepare(`DELETE FROM readings WHERE dev_eui = ? AND at >= ? AND at <= ?`).run(devEui, from, to);
     readingsDeleted = Number(info.changes || 0);
+    forgetCounterDrops(devEui);
   }
 
   if (source === "uplinks" || source === "both") {
     const info = db.prepare(`DELETE FROM uplinks WHERE dev_eui = ? AND at >= ? AND at <= ?`).run(devEui, from, to);
     uplinksDeleted = Number(info.changes || 0);
+    db.prepare(`DELETE FROM uplink_receptions WHERE dev_eui = ? AND uplink_at >= ? AND uplink_at <= ?`).run(devEui, from, to);
+    if (uplinksDeleted) rebuildDeviceStats(devEui);
   }
 
   return { readingsDeleted, uplinksDeleted };
 }
 
+// --- per-device uplink statistics (device_stats), updated on every stored uplink ---
+/**
+ * Uplink statistics of a DevEUI within its current device binding. Counts
+ * start after the uplink-count reset marker; intervals and streaks look at
+ * every uplink of the binding.
+ */
+export interface DeviceStats extends UplinkStreak {
+  dev_eui: string;
+  uplink_count: number;
+  first_at: string | null;
+  last_at: string | null;
+  /** Name the network server sent with the latest uplink that had one */
+  device_name: string | null;
+}
+
+const stmtOpenBindingStart = db.prepare(`SELECT bound_from FROM devices WHERE dev_eui = ? AND bound_to IS NULL`);
+const stmtUplinkCountResetAt = db.prepare(`SELECT uplink_count_reset_at FROM device_reset_markers WHERE dev_eui = ?`);
+
+const stmtGetDeviceStats = db.prepare(`SELECT * FROM device_stats WHERE dev_eui = ?`);
+
+const stmtSaveDeviceStats = db.prepare(`
+  INSERT INTO device_stats (
+    dev_eui, uplink_count, first_at, last_at, last_uplink_at, streak_start, recent_intervals_json, device_name, updated_at
+  )
+  VALUES (
+    @dev_eui, @uplink_count, @first_at, @last_at, @last_uplink_at, @streak_start, @recent_intervals_json, @device_name, @updated_at
+  )
+  ON CONFLICT(dev_eui) DO UPDATE SET
+    uplink_count = excluded.uplink_count,
+    first_at = excluded.first_at,
+    last_at = excluded.last_at,
+    last_uplink_at = excluded.last_uplink_at,
+    streak_start = excluded.streak_start,
+    recent_intervals_json = excluded.recent_intervals_json,
+    device_name = excluded.device_name,
+    updated_at = excluded.updated_at
+`);
+
+const stmtDeleteDeviceStats = db.prepare(`DELETE FROM device_stats WHERE dev_eui = ?`);
+
+const stmtBindingUplinkTotals = db.prepare(`
+  SELECT
+    COUNT(CASE WHEN @reset_at IS NULL OR at > @reset_at THEN 1 END) AS uplink_count,
+    MIN(CASE WHEN @reset_at IS NULL OR at > @reset_at THEN at END) AS first_at,
+    MAX(CASE WHEN @reset_at IS NULL OR at > @reset_at THEN at END) AS last_at
+  FROM uplinks
+  WHERE dev_eui = @dev_eui AND (@bound_from IS NULL OR at >= @bound_from)
+`);
+
+const stmtBindingUplinkTimes = db.prepare(`
+  SELECT at FROM uplinks WHERE dev_eui = @dev_eui AND (@bound_from IS NULL OR at >= @bound_from) ORDER BY at ASC, id ASC
+`);
+
+const stmtBindingDeviceName = db.prepare(`
+  SELECT device_name FROM uplinks
+  WHERE dev_eui = @dev_eui AND (@bound_from IS NULL OR at >= @bound_from) AND device_name IS NOT NULL
+  ORDER BY at DESC
+  LIMIT 1
+`);
+
+/** Where the DevEUI's current binding starts and after which uplinks are counted. */
+function statsWindow(devEui: string): { dev_eui: string; bound_from: string | null; reset_at: string | null } {
+  const binding = stmtOpenBindingStart.get(devEui) as { bound_from: string | null } | undefined;
+  const marker = stmtUplinkCountResetAt.get(devEui) as { uplink_count_reset_at: string | null } | undefined;
+  return { dev_eui: devEui, bound_from: binding?.bound_from ?? null, reset_at: marker?.uplink_count_reset_at ?? null };
+}
+
+function saveDeviceStats(stats: DeviceStats): void {
+  const { recent_intervals, ...row } = stats;
+  stmtSaveDeviceStats.run({ ...row, recent_intervals_json: JSON.stringify(recent_intervals), updated_at: new Date().toISOString() });
+}
+
+export function getDeviceStats(devEui: string): DeviceStats | null {
+  const row = stmtGetDeviceStats.get(devEui) as (Omit<DeviceStats, "recent_intervals"> & { recent_intervals_json: string }) | undefined;
+  if (!row) return null;
+  const { recent_intervals_json, ...stats } = row;
+  return { ...stats, recent_intervals: JSON.parse(recent_intervals_json) as number[] };
+}
+
+/** Recompute a DevEUI's statistics from its stored uplinks, e.g. after deletions or a new binding. */
+function rebuildDeviceStats(devEui: string): void {
+  const window = statsWindow(devEui);
+  let streak = emptyStreak();
+  for (const row of stmtBindingUplinkTimes.iterate(window) as IterableIterator<{ at: string }>) {
+    streak = advanceStreak(streak, row.at);
+  }
+  if (!streak.last_uplink_at) {
+    stmtDeleteDeviceStats.run(devEui);
+    return;
+  }
+  const totals = stmtBindingUplinkTotals.get(window) as Pick<DeviceStats, "uplink_count" | "first_at" | "last_at">;
+  const name = stmtBindingDeviceName.get(window) as { device_name: string } | undefined;
+  saveDeviceStats({ dev_eui: devEui, ...totals, ...streak, device_name: name?.device_name ?? null });
+}
+
+/** Count a newly stored uplink; one that arrives out of order triggers a rebuild. */
+function recordUplinkStats(devEui: string, at: string, deviceName: string | null): void {
+  const { bound_from, reset_at } = statsWindow(devEui);
+  if (bound_from && at < bound_from) return;
+  const stats = getDeviceStats(devEui);
+  if (!stats?.last_uplink_at || at < stats.last_uplink_at) return rebuildDeviceStats(devEui);
+
+  const counted = !reset_at || at > reset_at;
+  saveDeviceStats({
+    ...stats,
+    ...advanceStreak(stats, at),
+    uplink_count: stats.uplink_count + (counted ? 1 : 0),
+    first_at: stats.first_at ?? (counted ? at : null),
+    last_at: counted ? at : stats.last_at,
+    device_name: deviceName ?? stats.device_name,
+  });
+}
+
 export interface DeviceSummary {
   dev_eui: string;
   device_name: string | null;
@@ -861,106 +2455,59 @@ export interface DeviceSummary {
   last_streak_end: string | null;
 }
 
-const stmtUplinkTimestamps = db.prepare(`
-  SELECT at FROM uplinks WHERE dev_eui = ? ORDER BY at ASC
+/** One row per DevEUI from device_stats; no scan over the uplinks. */
+// every DevEUI with stored data, as DevEUIs were listed before device_stats
+const stmtDevEuisWithData = db.prepare(`
+  SELECT m.dev_eui, d.bound_from
+  FROM lora_modules m
+  LEFT JOIN devices d ON d.dev_eui = m.dev_eui AND d.bound_to IS NULL
+  WHERE EXISTS (SELECT 1 FROM readings r WHERE r.dev_eui = m.dev_eui)
+     OR EXISTS (SELECT 1 FROM uplinks u WHERE u.dev_eui = m.dev_eui)
+  ORDER BY m.dev_eui ASC
 `);
 
-/** Gap detection multiplier – a gap wider than median_interval * this is an offline break */
-const STREAK_GAP_MULTIPLIER = 6;
-
+/** Reads the per-device uplink statistics kept in device_stats; O(devices) lookups. */
 export function getDeviceSummaries(): DeviceSummary[] {
-  const devices = listDevices();
-  const summaries: DeviceSummary[] = [];
-
-  for (const d of devices) {
-    const lastUp = stmtLastUplink.get(d.dev_eui) as UplinkRow | undefined;
-    const lastRead = stmtLastReading.get(d.dev_eui) as any | undefined;
-    const uplinkResetAt = getUplinkCountResetAt(d.dev_eui);
-    const stats = uplinkResetAt
-      ? db.prepare(`
-          SELECT COUNT(*) AS cnt, MIN(at) AS first_at, MAX(at) AS last_at
-          FROM uplinks WHERE dev_eui = ? AND at > ?
-        `).get(d.dev_eui, uplinkResetAt) as any
-      : db.prepare(`
-          SELECT COUNT(*) AS cnt, MIN(at) AS first_at, MAX(at) AS last_at
-          FROM uplinks WHERE dev_eui = ?
-        `).get(d.dev_eui) as any;
-
-    // Fetch all uplink timestamps once (used for median interval + streak detection)
-    const timestamps = (stats && stats.cnt > 1)
-      ? stmtUplinkTimestamps.all(d.dev_eui) as Array<{ at: string }>
-      : [];
-
-    // Compute intervals between consecutive uplinks
-    const intervalsMs: number[] = [];
-    for (let i = 1; i < timestamps.length; i++) {
-      const prev = new Date(timestamps[i - 1].at).getTime();
-      const curr = new Date(timestamps[i].at).getTime();
-      intervalsMs.push(curr - prev);
-    }
-
-    // Use median interval (robust against offline gaps inflating the average)
-    let medianIntervalMs: number | null = null;
-    if (intervalsMs.length > 0) {
-      const sorted = [...intervalsMs].sort((a, b) => a - b);
-      const mid = Math.floor(sorted.length / 2);
-      medianIntervalMs = sorted.length % 2 === 0
-        ? (sorted[mid - 1] + sorted[mid]) / 2
-        : sorted[mid];
-    }
+  const devices = stmtDevEuisWithData.all() as Array<{ dev_eui: string; bound_from: string | null }>;
+  return devices.map(d => {
+    // only what the DevEUI recorded for the device it is bound to now
+    const inBinding = <T extends { at: string }>(row: T | undefined) => (row && (!d.bound_from || row.at >= d.bound_from) ? row : undefined);
+    const lastUp = inBinding(stmtLastUplink.get(d.dev_eui) as UplinkRow | undefined);
+    const lastRead = inBinding(stmtLastReading.get(d.dev_eui) as any | undefined);
+    const stats = getDeviceStats(d.dev_eui);
+    const count = stats?.uplink_count ?? 0;
 
     // avg_interval based on the last 3 uplinks
-    let avgInterval: number | null = null;
-    if (timestamps.length >= 2) {
-      const recent = timestamps.slice(-3);
-      let sum = 0;
-      for (let i = 1; i < recent.length; i++) {
-        sum += new Date(recent[i].at).getTime() - new Date(recent[i - 1].at).getTime();
-      }
-      avgInterval = Math.round(sum / (recent.length - 1) / 1000);
-    }
-
-    // Detect the last continuous streak by scanning for offline gaps
-    let lastStreakStart: string | null = stats?.first_at ?? null;
-    const lastStreakEnd: string | null = stats?.last_at ?? null;
-
-    if (medianIntervalMs != null) {
-      const gapThreshold = medianIntervalMs * STREAK_GAP_MULTIPLIER;
-
-      for (let i = 0; i < intervalsMs.length; i++) {
-        if (intervalsMs[i] > gapThreshold) {
-          // Found an offline gap – streak restarts at the next uplink
-          lastStreakStart = timestamps[i + 1].at;
-        }
-      }
-    }
+    const lastIntervals = stats?.recent_intervals.slice(-2) ?? [];
+    const avgInterval = count > 1 && lastIntervals.length
+      ? Math.round(lastIntervals.reduce((sum, ms) => sum + ms, 0) / lastIntervals.length / 1000)
+      : null;
 
-    summaries.push({
+    return {
       dev_eui: d.dev_eui,
-      device_name: d.device_name ?? null,
+      device_name: stats?.device_name ?? lastRead?.device_name ?? null,
       last_seen: lastUp?.at ?? stats?.last_at ?? null,
       battery_mv: lastUp?.battery_mv ?? null,
       rssi: lastUp?.rssi ?? null,
       snr: lastUp?.snr ?? null,
-      total_uplinks: stats?.cnt ?? 0,
+      total_uplinks: count,
       avg_interval_seconds: avgInterval,
       first_seen: stats?.first_at ?? null,
       meter_value: lastRead?.meter_value ?? null,
       meter_value_raw: lastRead?.meter_value_raw ?? null,
-      last_streak_start: lastStreakStart,
-      last_streak_end: lastStreakEnd,
-    });
-  }
-  return summaries;
+      last_streak_start: (count > 1 ? stats?.streak_start : null) ?? stats?.first_at ?? null,
+      last_streak_end: stats?.last_at ?? null,
+    };
+  });
 }
 
-export function countTx(devEui: string | null, from: string, to: string): number {
+export function countTx(devEui: string | null, range: TimeRange): number {
+  const params: any = {};
   let sql = `
     SELECT COUNT(*) AS cnt
     FROM uplinks
-    WHERE at >= @from AND at <= @to
+    WHERE 1 = 1${timeBounds("at", range, params)}
   `;
-  const params: any = { from, to };
   if (devEui) {
     sql += ` AND dev_eui = @dev_eui`;
     params.dev_eui = devEui;
@@ -987,12 +2534,35 @@ function getLocalDateString(iso: string, tz: string): string {
   return fmt.format(d); // YYYY-MM-DD
 }
 
-export function dailyConsumption(devEui: string, days: number, tz: string, endIso?: string): DailyPoint[] {
-  const all = stmtAllReadingsForDevice.all(devEui) as any[];
-  if (!all.length) return [];
-
+/**
+ * Per-day deltas of the primary meter value (stitched across meter
+ * replacements), or of any stored register when `register` is given.
+ * `qualities` limits the primary meter value to readings with these flags.
+ */
+export function dailyConsumption(
+  devEui: string,
+  days: number,
+  tz: string,
+  endIso?: string,
+  register?: { register: string; unit?: string | null },
+  qualities?: readonly ReadingQuality[],
+  /** Only values in this range, e.g. a device's binding */
+  within: Pick<RangeQuery, "from" | "until"> = {},
+): DailyPoint[] {
   const endMs = endIso ? new Date(endIso).getTime() : Date.now();
   const startMs = endMs - days * 24 * 60 * 60 * 1000;
+  const startIso = new Date(startMs).toISOString();
+  const range = {
+    from: within.from && within.from > startIso ? within.from : startIso,
+    to: new Date(endMs).toISOString(),
+    until: within.until,
+  };
+
+  const adjust = meterValueAdjuster(devEui, within);
+  const all = register
+    ? listRegisterSeries(devEui, register.register, { unit: register.unit, ...range }).map(p => ({ at: p.at, meter_value: p.value }))
+    : listReadings(devEui, { ...range, qualities }).map(r => ({ at: r.at, meter_value: adjust(r.at, r.meter_value) }));
+  if (!all.length) return [];
 
   const byDate: Record<string, { first?: number; last?: number }> = {};
 
@@ -1026,17 +2596,35 @@ export function dailyConsumption(devEui: string, days: number, tz: string, endIs
 
 // --- Configured Devices (UUID-based) ---
 
+/** Payloads decoded by a built-in parser instead of a network-server or script decoder */
+export type PayloadFormat = "wmbus" | "sml";
+
+export const PAYLOAD_FORMATS: readonly PayloadFormat[] = ["wmbus", "sml"];
+
 export interface ConfiguredDevice {
   uuid: string;
   dev_eui: string;
   name: string;
   device_type: DeviceType;
   created_at: string;
+  payload_format: PayloadFormat | null;
+  /** Whether a wM-Bus AES key is stored; the key itself is never returned */
+  has_wmbus_key: boolean;
+  /** The part of the DevEUI's history this device owns, [bound_from, bound_to); null = unbounded */
+  bound_from: string | null;
+  bound_to: string | null;
+}
+
+type DeviceRow = Omit<ConfiguredDevice, "has_wmbus_key"> & { wmbus_key: string | null };
+
+function toConfiguredDevice(row: DeviceRow): ConfiguredDevice {
+  const { wmbus_key, ...rest } = row;
+  return { ...rest, device_type: normalizeDeviceType(row.device_type), has_wmbus_key: !!wmbus_key };
 }
 
 export function listConfiguredDevices(): ConfiguredDevice[] {
-  const rows = db.prepare(`SELECT * FROM devices ORDER BY created_at DESC`).all() as ConfiguredDevice[];
-  return rows.map(r => ({ ...r, device_type: normalizeDeviceType(r.device_type) }));
+  const rows = db.prepare(`SELECT * FROM devices ORDER BY created_at DESC`).all() as DeviceRow[];
+  return rows.map(toConfiguredDevice);
 }
 
 /** Resolve a UUID to a dev_eui. Returns null if not found. */
@@ -1046,52 +2634,415 @@ export function getDevEuiByUuid(uuid: string): string | null {
 }
 
 export function getConfiguredDevice(uuid: string): ConfiguredDevice | null {
-  const row = db.prepare(`SELECT * FROM devices WHERE uuid = ?`).get(uuid) as ConfiguredDevice | undefined;
-  if (!row) return null;
-  return { ...row, device_type: normalizeDeviceType(row.device_type) };
+  const row = db.prepare(`SELECT * FROM devices WHERE uuid = ?`).get(uuid) as DeviceRow | undefined;
+  return row ? toConfiguredDevice(row) : null;
 }
 
-export function createConfiguredDevice(input: { dev_eui: string; name: string; device_type: string }): ConfiguredDevice {
+/**
+ * Binds a new device to a DevEUI from `bound_from` on, closing the binding of
+ * the device the module served so far. Without `bound_from` the first device
+ * of a module owns its whole history and later ones start now.
+ */
+export function createConfiguredDevice(input: {
+  dev_eui: string;
+  name: string;
+  device_type: string;
+  bound_from?: string | null;
+}): ConfiguredDevice {
   const uuid = randomUUID();
   const devEui = String(input.dev_eui || "").trim().toLowerCase();
   const deviceType = normalizeDeviceType(input.device_type);
   const now = new Date().toISOString();
 
-  db.prepare(`
-    INSERT INTO devices (uuid, dev_eui, name, device_type, created_at)
-    VALUES (@uuid, @dev_eui, @name, @device_type, @created_at)
-  `).run({
-    uuid,
-    dev_eui: devEui,
-    name: String(input.name || "").trim(),
-    device_type: deviceType,
-    created_at: now,
-  });
-
-  // Also sync to device_settings
-  setDeviceType(devEui, deviceType);
+  return db.transaction(() => {
+    db.prepare(`INSERT OR IGNORE INTO lora_modules (dev_eui, created_at) VALUES (?, ?)`).run(devEui, now);
+    const hasDevices = !!db.prepare(`SELECT 1 FROM devices WHERE dev_eui = ?`).get(devEui);
+    const boundFrom = input.bound_from ?? (hasDevices ? now : null);
+    db.prepare(`UPDATE devices SET bound_to = ? WHERE dev_eui = ? AND bound_to IS NULL`).run(boundFrom ?? now, devEui);
+
+    db.prepare(`
+      INSERT INTO devices (uuid, dev_eui, name, device_type, created_at, bound_from)
+      VALUES (@uuid, @dev_eui, @name, @device_type, @created_at, @bound_from)
+    `).run({
+      uuid,
+      dev_eui: devEui,
+      name: String(input.name || "").trim(),
+      device_type: deviceType,
+      created_at: now,
+      bound_from: boundFrom,
+    });
+    // summaries follow the new binding
+    if (hasDevices) rebuildDeviceStats(devEui);
+    return getConfiguredDevice(uuid)!;
+  })();
+}
 
-  return { uuid, dev_eui: devEui, name: String(input.name || "").trim(), device_type: deviceType, created_at: now };
+/**
+ * The device whose binding a new one starting at `boundFrom` (null = the
+ * whole history) would overlap, other than the open one it closes.
+ */
+export function findOverlappingBinding(devEui: string, boundFrom: string | null): ConfiguredDevice | null {
+  const row = db.prepare(`
+    SELECT * FROM devices
+    WHERE dev_eui = @dev_eui
+      AND (@bound_from IS NULL
+        OR (bound_to IS NULL AND bound_from >= @bound_from)
+        OR bound_to > @bound_from)
+    ORDER BY bound_from DESC
+    LIMIT 1
+  `).get({ dev_eui: devEui, bound_from: boundFrom }) as DeviceRow | undefined;
+  return row ? toConfiguredDevice(row) : null;
 }
 
-export function updateConfiguredDevice(uuid: string, input: { name?: string; device_type?: string }): ConfiguredDevice | null {
+/** `wmbus_key: null` removes a stored key; leaving a field out keeps its value. */
+export function updateConfiguredDevice(
+  uuid: string,
+  input: { name?: string; device_type?: string; payload_format?: PayloadFormat | null; wmbus_key?: string | null },
+): ConfiguredDevice | null {
   const existing = getConfiguredDevice(uuid);
   if (!existing) return null;
 
   const name = input.name !== undefined ? String(input.name).trim() : existing.name;
   const deviceType = input.device_type !== undefined ? normalizeDeviceType(input.device_type) : existing.device_type;
+  const payloadFormat = input.payload_format !== undefined ? input.payload_format : existing.payload_format;
 
   db.prepare(`
-    UPDATE devices SET name = @name, device_type = @device_type WHERE uuid = @uuid
-  `).run({ uuid, name, device_type: deviceType });
+    UPDATE devices SET name = @name, device_type = @device_type, payload_format = @payload_format WHERE uuid = @uuid
+  `).run({ uuid, name, device_type: deviceType, payload_format: payloadFormat });
+  if (input.wmbus_key !== undefined) {
+    db.prepare(`UPDATE devices SET wmbus_key = ? WHERE uuid = ?`).run(input.wmbus_key?.toLowerCase() ?? null, uuid);
+  }
+
+  return getConfiguredDevice(uuid);
+}
 
-  // Sync to device_settings
-  setDeviceType(existing.dev_eui, deviceType);
+/** Built-in payload format of a DevEUI's current device and, for wM-Bus, the meter key; null when none is set. */
+export function findPayloadFormat(devEui: string): { format: PayloadFormat; wmbus_key: string | null } | null {
+  const row = db.prepare(`SELECT payload_format, wmbus_key FROM devices WHERE dev_eui = ? AND bound_to IS NULL`).get(devEui) as { payload_format: string | null; wmbus_key: string | null } | undefined;
+  const format = PAYLOAD_FORMATS.find(f => f === row?.payload_format);
+  return format ? { format, wmbus_key: row!.wmbus_key } : null;
+}
 
-  return { ...existing, name, device_type: deviceType };
+/** Whether a DevEUI is currently bound to a configured device (i.e. is provisioned). */
+export function isProvisionedDevEui(devEui: string): boolean {
+  return !!db.prepare(`SELECT 1 FROM devices WHERE dev_eui = ? AND bound_to IS NULL`).get(devEui);
 }
 
-export function deleteConfiguredDevice(uuid: string): boolean {
-  const info = db.prepare(`DELETE FROM devices WHERE uuid = ?`).run(uuid);
-  return Number(info.changes) > 0;
+/** Where the last closed binding of a DevEUI ends; null when it never had a device. */
+export function getLastBindingEnd(devEui: string): string | null {
+  const row = db.prepare(`SELECT MAX(bound_to) AS bound_to FROM devices WHERE dev_eui = ?`).get(devEui) as { bound_to: string | null };
+  return row.bound_to;
+}
+
+// --- pending devices ---
+export type PendingDeviceStatus = "pending" | "rejected";
+
+export interface PendingDevice {
+  dev_eui: string;
+  status: PendingDeviceStatus;
+  provider: string | null;
+  device_name: string | null;
+  application_id: string | null;
+  guessed_type: DeviceType;
+  first_seen_at: string;
+  last_seen_at: string;
+  uplink_count: number;
+  last_decoded_json: string | null;
+  decided_at: string | null;
+}
+
+/**
+ * Record an uplink from an unprovisioned DevEUI. A new row starts with
+ * `status`; an existing row keeps its status (a rejection sticks).
+ */
+export function notePendingDevice(input: {
+  dev_eui: string;
+  status: PendingDeviceStatus;
+  provider?: string | null;
+  device_name?: string | null;
+  application_id?: string | null;
+  guessed_type: DeviceType;
+  at: string;
+  decoded_json?: unknown | null;
+}): PendingDevice {
+  db.prepare(`
+    INSERT INTO pending_devices (
+      dev_eui, status, provider, device_name, application_id, guessed_type,
+      first_seen_at, last_seen_at, uplink_count, last_decoded_json
+    )
+    VALUES (
+      @dev_eui, @status, @provider, @device_name, @application_id, @guessed_type,
+      @at, @at, 1, @decoded_json
+    )
+    ON CONFLICT(dev_eui) DO UPDATE SET
+      provider = COALESCE(excluded.provider, provider),
+      device_name = COALESCE(excluded.device_name, device_name),
+      application_id = COALESCE(excluded.application_id, application_id),
+      guessed_type = CASE WHEN excluded.guessed_type != 'unknown' THEN excluded.guessed_type ELSE guessed_type END,
+      first_seen_at = MIN(first_seen_at, excluded.first_seen_at),
+      last_seen_at = MAX(last_seen_at, excluded.last_seen_at),
+      uplink_count = uplink_count + 1,
+      last_decoded_json = COALESCE(excluded.last_decoded_json, last_decoded_json)
+  `).run({
+    dev_eui: input.dev_eui,
+    status: input.status,
+    provider: input.provider ?? null,
+    device_name: input.device_name ?? null,
+    application_id: input.application_id ?? null,
+    guessed_type: input.guessed_type,
+    at: input.at,
+    decoded_json: input.decoded_json == null ? null : JSON.stringify(input.decoded_json),
+  });
+  return getPendingDevice(input.dev_eui)!;
+}
+
+export function getPendingDevice(devEui: string): PendingDevice | null {
+  const row = db.prepare(`SELECT * FROM pending_devices WHERE dev_eui = ?`).get(devEui) as PendingDevice | undefined;
+  return row ? { ...row, guessed_type: normalizeDeviceType(row.guessed_type) } : null;
+}
+
+export function listPendingDevices(status?: PendingDeviceStatus | null): PendingDevice[] {
+  const rows = status
+    ? db.prepare(`SELECT * FROM pending_devices WHERE status = ? ORDER BY last_seen_at DESC`).all(status)
+    : db.prepare(`SELECT * FROM pending_devices ORDER BY last_seen_at DESC`).all();
+  return (rows as PendingDevice[]).map(r => ({ ...r, guessed_type: normalizeDeviceType(r.guessed_type) }));
+}
+
+export function rejectPendingDevice(devEui: string): boolean {
+  const info = db.prepare(`
+    UPDATE pending_devices SET status = 'rejected', decided_at = ? WHERE dev_eui = ?
+  `).run(new Date().toISOString(), devEui);
+  return info.changes > 0;
+}
+
+/** Drop the pending entry (after acceptance, or to give a rejected DevEUI another chance). */
+export function removePendingDevice(devEui: string): boolean {
+  const info = db.prepare(`DELETE FROM pending_devices WHERE dev_eui = ?`).run(devEui);
+  return info.changes > 0;
+}
+
+/**
+ * Deletes a configured device and the data inside its binding; the last
+ * device of a DevEUI takes the whole module with it. Null when the UUID is unknown.
+ */
+export function deleteConfiguredDevice(uuid: string): { readingsDeleted: number; uplinksDeleted: number } | null {
+  const device = getConfiguredDevice(uuid);
+  if (!device) return null;
+  const others = db.prepare(`SELECT COUNT(*) AS n FROM devices WHERE dev_eui = ? AND uuid != ?`).get(device.dev_eui, uuid) as { n: number };
+  if (!others.n) return deleteDevice(device.dev_eui);
+
+  return db.transaction(() => {
+    const range = { dev_eui: device.dev_eui, from: device.bound_from, to: device.bound_to };
+    const inBinding = (column: string) => `dev_eui = @dev_eui AND (@from IS NULL OR ${column} >= @from) AND (@to IS NULL OR ${column} < @to)`;
+    const readings = db.prepare(`DELETE FROM readings WHERE ${inBinding("at")}`).run(range);
+    forgetCounterDrops(device.dev_eui);
+    const uplinks = db.prepare(`DELETE FROM uplinks WHERE ${inBinding("at")}`).run(range);
+    db.prepare(`DELETE FROM uplink_receptions WHERE ${inBinding("uplink_at")}`).run(range);
+    for (const table of ["anomaly_log", "network_events", "register_values"]) {
+      db.prepare(`DELETE FROM ${table} WHERE ${inBinding("at")}`).run(range);
+    }
+    db.prepare(`DELETE FROM devices WHERE uuid = ?`).run(uuid);
+    rebuildDeviceStats(device.dev_eui);
+    return { readingsDeleted: Number(readings.changes), uplinksDeleted: Number(uplinks.changes) };
+  })();
+}
+
+// --- payload decoders ---
+/** Per-device configuration attached to a single DevEUI or to every device of a type. */
+export type ConfigScope = "device" | "device_type";
+
+export interface PayloadDecoder {
+  id: number;
+  scope: ConfigScope;
+  /** DevEUI for `device`, a DeviceType for `device_type` */
+  target: string;
+  version: number;
+  script: string;
+  comment: string | null;
+  active: number;
+  created_at: string;
+}
+
+/** Save a script as the next version for its target and make it the active one. */
+export function createPayloadDecoderVersion(input: { scope: ConfigScope; target: string; script: string; comment?: string | null }): PayloadDecoder {
+  const tx = db.transaction(() => {
+    const row = db.prepare(`SELECT MAX(version) AS v FROM payload_decoders WHERE scope = ? AND target = ?`).get(input.scope, input.target) as { v: number | null };
+    db.prepare(`UPDATE payload_decoders SET active = 0 WHERE scope = ? AND target = ?`).run(input.scope, input.target);
+    const info = db.prepare(`
+      INSERT INTO payload_decoders (scope, target, version, script, comment, active, created_at)
+      VALUES (?, ?, ?, ?, ?, 1, ?)
+    `).run(input.scope, input.target, (row.v ?? 0) + 1, input.script, input.comment ?? null, new Date().toISOString());
+    return Number(info.lastInsertRowid);
+  });
+  return getPayloadDecoder(tx())!;
+}
+
+export function getPayloadDecoder(id: number): PayloadDecoder | null {
+  const row = db.prepare(`SELECT * FROM payload_decoders WHERE id = ?`).get(id) as PayloadDecoder | undefined;
+  return row ?? null;
+}
+
+/** The active version of every target (or of one scope). */
+export function listActivePayloadDecoders(scope?: ConfigScope | null): PayloadDecoder[] {
+  const rows = scope
+    ? db.prepare(`SELECT * FROM payload_decoders WHERE active = 1 AND scope = ? ORDER BY target`).all(scope)
+    : db.prepare(`SELECT * FROM payload_decoders WHERE active = 1 ORDER BY scope, target`).all();
+  return rows as PayloadDecoder[];
+}
+
+export function listPayloadDecoderVersions(scope: ConfigScope, target: string): PayloadDecoder[] {
+  return db.prepare(`
+    SELECT * FROM payload_decoders WHERE scope = ? AND target = ? ORDER BY version DESC
+  `).all(scope, target) as PayloadDecoder[];
+}
+
+/** Make an older (or newer) version the one in use, e.g. to roll back. */
+export function activatePayloadDecoderVersion(id: number): PayloadDecoder | null {
+  const target = getPayloadDecoder(id);
+  if (!target) return null;
+  db.transaction(() => {
+    db.prepare(`UPDATE payload_decoders SET active = 0 WHERE scope = ? AND target = ?`).run(target.scope, target.target);
+    db.prepare(`UPDATE payload_decoders SET active = 1 WHERE id = ?`).run(id);
+  })();
+  return getPayloadDecoder(id);
+}
+
+/** Detach the decoder from its target, dropping all of its versions. */
+export function removePayloadDecoder(scope: ConfigScope, target: string): number {
+  const info = db.prepare(`DELETE FROM payload_decoders WHERE scope = ? AND target = ?`).run(scope, target);
+  return info.changes;
+}
+
+/** Decoder for a device: its own if it has one, otherwise the one for its device type. */
+export function findActivePayloadDecoder(devEui: string): PayloadDecoder | null {
+  const own = db.prepare(`SELECT * FROM payload_decoders WHERE scope = 'device' AND target = ? AND active = 1`).get(devEui) as PayloadDecoder | undefined;
+  if (own) return own;
+  const byType = db.prepare(`
+    SELECT * FROM payload_decoders WHERE scope = 'device_type' AND target = ? AND active = 1
+  `).get(getDeviceType(devEui)) as PayloadDecoder | undefined;
+  return byType ?? null;
+}
+
+// --- meter mappings ---
+/** `decoded`: `meter_path` into the decoded object; `frm_payload_ascii`: the raw payload read as text. */
+export type MeterSource = "decoded" | "frm_payload_ascii";
+export type BatteryUnit = "mV" | "V";
+
+export interface MeterMapping {
+  scope: ConfigScope;
+  target: string;
+  meter_source: MeterSource;
+  /** JSONPath into the decoded payload; null keeps the built-in meter key search */
+  meter_path: string | null;
+  scale: number;
+  unit: string | null;
+  /** Implied decimal places of the raw value (e.g. 3: `12345678` → 12345.678) */
+  decimals: number | null;
+  /** JSONPath to the battery value; null keeps the built-in battery key search */
+  battery_path: string | null;
+  battery_unit: BatteryUnit;
+  created_at: string;
+  updated_at: string;
+}
+
+export type MeterMappingInput = Omit<MeterMapping, "scope" | "target" | "created_at" | "updated_at">;
+
+export function getMeterMapping(scope: ConfigScope, target: string): MeterMapping | null {
+  const row = db.prepare(`SELECT * FROM meter_mappings WHERE scope = ? AND target = ?`).get(scope, target) as MeterMapping | undefined;
+  return row ?? null;
+}
+
+export function listMeterMappings(): MeterMapping[] {
+  return db.prepare(`SELECT * FROM meter_mappings ORDER BY scope, target`).all() as MeterMapping[];
+}
+
+export function upsertMeterMapping(scope: ConfigScope, target: string, input: MeterMappingInput): MeterMapping {
+  const now = new Date().toISOString();
+  db.prepare(`
+    INSERT INTO meter_mappings (
+      scope, target, meter_source, meter_path, scale, unit, decimals, battery_path, battery_unit, created_at, updated_at
+    )
+    VALUES (
+      @scope, @target, @meter_source, @meter_path, @scale, @unit, @decimals, @battery_path, @battery_unit, @now, @now
+    )
+    ON CONFLICT(scope, target) DO UPDATE SET
+      meter_source = excluded.meter_source,
+      meter_path = excluded.meter_path,
+      scale = excluded.scale,
+      unit = excluded.unit,
+      decimals = excluded.decimals,
+      battery_path = excluded.battery_path,
+      battery_unit = excluded.battery_unit,
+      updated_at = excluded.updated_at
+  `).run({ ...input, scope, target, now });
+  return getMeterMapping(scope, target)!;
+}
+
+export function deleteMeterMapping(scope: ConfigScope, target: string): boolean {
+  const info = db.prepare(`DELETE FROM meter_mappings WHERE scope = ? AND target = ?`).run(scope, target);
+  return info.changes > 0;
+}
+
+/** Mapping for a device: its own if it has one, otherwise the one for its device type. */
+export function findMeterMapping(devEui: string, deviceType: DeviceType = getDeviceType(devEui)): MeterMapping | null {
+  return getMeterMapping("device", devEui) ?? getMeterMapping("device_type", deviceType);
+}
+
+/**
+ * Unit of a device's meter value: its meter mapping's unit, else the device
+ * type's. `deviceType` defaults to the type of the device bound now.
+ */
+export function getMeterUnit(devEui: string, deviceType: DeviceType = getDeviceType(devEui)): string {
+  return findMeterMapping(devEui, deviceType)?.unit ?? DEVICE_TYPE_UNITS[deviceType];
+}
+
+// --- gas conversion factors ---
+export interface GasConversionFactor {
+  id: number;
+  dev_eui: string;
+  /** First day the factor applies (YYYY-MM-DD, local) */
+  valid_from: string;
+  /** First day it no longer applies; null = until further notice */
+  valid_to: string | null;
+  /** Brennwert Hs in kWh/m³ */
+  calorific_value: number;
+  /** Zustandszahl */
+  z_number: number;
+  comment: string | null;
+  created_at: string;
+}
+
+export type GasConversionFactorInput = Omit<GasConversionFactor, "id" | "created_at">;
+
+/** A device's factors, oldest period first. */
+export function listGasConversionFactors(devEui: string): GasConversionFactor[] {
+  return db.prepare(`
+    SELECT * FROM gas_conversion_factors WHERE dev_eui = ? ORDER BY valid_from ASC
+  `).all(devEui) as GasConversionFactor[];
+}
+
+/** A stored factor whose period intersects [from, to); periods of one device must not overlap. */
+export function findOverlappingGasFactor(devEui: string, from: string, to: string | null): GasConversionFactor | null {
+  const row = db.prepare(`
+    SELECT * FROM gas_conversion_factors
+    WHERE dev_eui = @dev_eui
+      AND (valid_to IS NULL OR valid_to > @from)
+      AND (@to IS NULL OR valid_from < @to)
+    ORDER BY valid_from ASC
+    LIMIT 1
+  `).get({ dev_eui: devEui, from, to }) as GasConversionFactor | undefined;
+  return row ?? null;
+}
+
+export function createGasConversionFactor(input: GasConversionFactorInput): GasConversionFactor {
+  const created_at = new Date().toISOString();
+  const info = db.prepare(`
+    INSERT INTO gas_conversion_factors (dev_eui, valid_from, valid_to, calorific_value, z_number, comment, created_at)
+    VALUES (@dev_eui, @valid_from, @valid_to, @calorific_value, @z_number, @comment, @created_at)
+  `).run({ ...input, created_at });
+  return { ...input, id: Number(info.lastInsertRowid), created_at };
+}
+
+export function deleteGasConversionFactor(id: number): boolean {
+  return db.prepare(`DELETE FROM gas_conversion_factors WHERE id = ?`).run(id).changes > 0;
 }
@@ -0,0 +1,241 @@
+import { receiveMessageOnPort, MessageChannel, Worker } from "node:worker_threads";
+import type { MessagePort } from "node:worker_threads";
+import { findActivePayloadDecoder, findPayloadFormat } from "./db.js";
+import type { PayloadDecoder, PayloadFormat } from "./db.js";
+import type { ParsedUplink } from "./adapters/index.js";
+import { extractBatteryMv, extractMeter } from "./adapters/util.js";
+import { decodeSml, isSmlTransport } from "./sml.js";
+import { decodeWmbusTelegram } from "./wmbus.js";
+
+// ---- device payload decoders (TTN / ChirpStack codec API) ----
+const DECODER_TIMEOUT_MS = 100;
+// Covers worker start-up; only reached when the worker hangs or dies (e.g. out of memory)
+const DECODER_WORKER_WAIT_MS = 1000;
+const DECODER_HEAP_MB = 64;
+
+export interface DecoderInput {
+  bytes: number[];
+  fPort: number | null;
+  /** ISO time; handed to the script as a `Date` */
+  recvTime: string;
+}
+
+export interface DecoderOutput {
+  data: Record<string, unknown> | null;
+  errors: string[];
+  warnings: string[];
+}
+
+// Runs in its own isolate with a capped heap. Each script still gets a fresh,
+// null-prototype V8 context inside it, and input and output cross as JSON
+// strings so the script never holds a reference to an object from outside.
+const WORKER_SOURCE = `
+const vm = require("node:vm");
+const { parentPort, workerData } = require("node:worker_threads");
+const { port, signal, timeoutMs } = workerData;
+
+const INVOKE = new vm.Script(\`(() => {
+  const input = JSON.parse(__input);
+  input.recvTime = new Date(input.recvTime);
+  if (typeof decodeUplink === "function") return JSON.stringify(decodeUplink(input) ?? null);
+  // ChirpStack v3 / TTN v2 codecs return the data object directly
+  if (typeof Decode === "function") return JSON.stringify({ data: Decode(input.fPort, input.bytes, {}) ?? null });
+  if (typeof Decoder === "function") return JSON.stringify({ data: Decoder(input.bytes, input.fPort) ?? null });
+  throw new Error("decoder defines no decodeUplink(input) function");
+})()\`, { filename: "decoder-invoke.js" });
+
+const compiled = new Map();
+function compile(script) {
+  let s = compiled.get(script);
+  if (!s) {
+    s = new vm.Script(script, { filename: "decoder.js" });
+    if (compiled.size >= 100) compiled.clear();
+    compiled.set(script, s);
+  }
+  return s;
+}
+
+function run(script, input) {
+  // A null-prototype global keeps Object/Function constructors of the worker out of reach
+  const context = vm.createContext(Object.create(null), {
+    codeGeneration: { strings: false, wasm: false },
+    // promise jobs run inside the timeout too
+    microtaskMode: "afterEvaluate",
+  });
+  context.__input = input;
+  compile(script).runInContext(context, { timeout: timeoutMs });
+  return INVOKE.runInContext(context, { timeout: timeoutMs });
+}
+
+parentPort.on("message", ({ id, script, input }) => {
+  let reply;
+  try {
+    reply = input == null ? (compile(script), { id }) : { id, raw: run(script, input) };
+  } catch (e) {
+    reply = { id, error: String((e && e.message) || e) };
+  }
+  // a non-string result came from the script; the caller treats it as nothing
+  if (typeof reply.raw !== "string") delete reply.raw;
+  port.postMessage(reply);
+  Atomics.store(signal, 0, 1);
+  Atomics.notify(signal, 0);
+});
+`;
+
+interface WorkerReply {
+  id: number;
+  raw?: string;
+  error?: string;
+}
+
+let sandbox: { worker: Worker; port: MessagePort; signal: Int32Array } | null = null;
+let nextCallId = 1;
+
+function startSandbox() {
+  const { port1, port2 } = new MessageChannel();
+  const signal = new Int32Array(new SharedArrayBuffer(4));
+  const worker = new Worker(WORKER_SOURCE, {
+    eval: true,
+    workerData: { port: port2, signal, timeoutMs: DECODER_TIMEOUT_MS },
+    transferList: [port2],
+    resourceLimits: { maxOldGenerationSizeMb: DECODER_HEAP_MB, maxYoungGenerationSizeMb: 16, stackSizeMb: 4 },
+    env: {},
+  });
+  const current = { worker, port: port1, signal };
+  worker.on("error", err => console.error("[DECODER] sandbox worker error:", err));
+  worker.on("exit", () => {
+    if (sandbox === current) sandbox = null;
+  });
+  worker.unref();
+  port1.unref();
+  return current;
+}
+
+/**
+ * Send one request to the sandbox worker and block until it answers. Ingest
+ * and reprocessing stay synchronous this way; a worker that does not answer
+ * in time is terminated and replaced on the next call.
+ */
+function callSandbox(script: string, input: DecoderInput | null): WorkerReply {
+  const box = sandbox ?? (sandbox = startSandbox());
+  const id = nextCallId++;
+  Atomics.store(box.signal, 0, 0);
+  box.worker.postMessage({ id, script, input: input && JSON.stringify(input) });
+  Atomics.wait(box.signal, 0, 0, DECODER_WORKER_WAIT_MS);
+  for (let msg = receiveMessageOnPort(box.port); msg; msg = receiveMessageOnPort(box.port)) {
+    if ((msg.message as WorkerReply).id === id) return msg.message as WorkerReply;
+  }
+  sandbox = null;
+  void box.worker.terminate();
+  return { id, error: "decoder did not finish (time or memory limit exceeded)" };
+}
+
+/** Syntax check before a script is saved; the compile error, or null. */
+export function checkDecoderScript(script: string): string | null {
+  return callSandbox(script, null).error ?? null;
+}
+
+function stringList(v: unknown): string[] {
+  return Array.isArray(v) ? v.map(x => String(x)) : [];
+}
+
+/**
+ * Run a codec script in a worker thread with its own capped heap, in a fresh
+ * V8 context there: no `require`, no timers, no `eval`, and a hard time
+ * limit. Compile and runtime errors come back in `errors` rather than being
+ * thrown.
+ */
+export function runDecoder(script: string, input: DecoderInput): DecoderOutput {
+  const reply = callSandbox(script, input);
+  if (reply.error != null) return { data: null, errors: [reply.error], warnings: [] };
+
+  let result: any;
+  try {
+    // the script's own JSON.stringify produced this, so it may not parse
+    result = reply.raw != null ? JSON.parse(reply.raw) : null;
+  } catch (e: any) {
+    return { data: null, errors: [String(e?.message || e)], warnings: [] };
+  }
+
+  if (!result || typeof result !== "object") {
+    return { data: null, errors: ["decodeUplink returned nothing"], warnings: [] };
+  }
+  const data = result.data && typeof result.data === "object" && !Array.isArray(result.data) ? result.data : null;
+  const errors = stringList(result.errors);
+  if (!data && !errors.length) errors.push("decodeUplink returned no data object");
+  return { data, errors, warnings: stringList(result.warnings) };
+}
+
+export function decoderInputFor(parsed: Pick<ParsedUplink, "frmPayload" | "fPort" | "at">): DecoderInput {
+  return {
+    bytes: parsed.frmPayload ? [...parsed.frmPayload] : [],
+    fPort: parsed.fPort,
+    recvTime: parsed.at,
+  };
+}
+
+export interface DecoderApplication<T> {
+  parsed: T;
+  decoder: PayloadDecoder | null;
+  /** Built-in format that decoded the payload instead of a script */
+  format: PayloadFormat | null;
+  output: DecoderOutput | null;
+}
+
+/** Built-in wM-Bus / SML decoding; the parsed telegram becomes the decoder output. */
+export function runBuiltinDecoder(format: PayloadFormat, payload: Buffer, wmbusKey: string | null): DecoderOutput {
+  try {
+    if (format === "sml") return { data: decodeSml(payload), errors: [], warnings: [] };
+    const telegram = decodeWmbusTelegram(payload, wmbusKey ? Buffer.from(wmbusKey, "hex") : null);
+    const warnings = telegram.status_flags.map(f => `meter status: ${f}`);
+    return { data: telegram as unknown as Record<string, unknown>, errors: [], warnings };
+  } catch (e: any) {
+    return { data: null, errors: [String(e?.message || e)], warnings: [] };
+  }
+}
+
+/**
+ * Run the device's (or its type's) decoder over the raw payload and use its
+ * output as `decodedObj`. Meter value and battery are taken from the decoder
+ * where it provides them. On decoder errors the adapter result is kept.
+ *
+ * Devices set to a built-in format are parsed natively instead, and so are
+ * SML transport frames from devices without a decoder script. Their payload
+ * is binary, so the meter value comes from the parser or not at all.
+ */
+export function applyPayloadDecoder<T extends ParsedUplink & { devEui: string }>(parsed: T): DecoderApplication<T> {
+  const configured = findPayloadFormat(parsed.devEui);
+  const decoder = configured ? null : findActivePayloadDecoder(parsed.devEui);
+  const format = configured?.format ?? (!decoder && isSmlTransport(parsed.frmPayload) ? "sml" : null);
+
+  if (format) {
+    if (!parsed.frmPayload?.length) return { parsed, decoder: null, format, output: null };
+    const output = runBuiltinDecoder(format, parsed.frmPayload, configured?.wmbus_key ?? null);
+    const meterValue = output.data?.meter_value as number | null | undefined ?? null;
+    return {
+      parsed: { ...parsed, decodedObj: output.data ?? parsed.decodedObj, meterValue, meterValueRaw: meterValue },
+      decoder: null,
+      format,
+      output,
+    };
+  }
+
+  if (!decoder || !parsed.frmPayload?.length) return { parsed, decoder, format: null, output: null };
+
+  const output = runDecoder(decoder.script, decoderInputFor(parsed));
+  if (!output.data || output.errors.length) return { parsed, decoder, format: null, output };
+
+  const meter = extractMeter(output.data, null);
+  return {
+    parsed: {
+      ...parsed,
+      decodedObj: output.data,
+      meterValue: meter.meterValue ?? parsed.meterValue,
+      meterValueRaw: meter.meterValue != null ? meter.meterValueRaw : parsed.meterValueRaw,
+      battery_mv: extractBatteryMv(output.data) ?? parsed.battery_mv,
+    },
+    decoder,
+    format: null,
+    output,
+  };
+}
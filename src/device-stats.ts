@@ -0,0 +1,44 @@
+// ---- rolling uplink-interval estimate behind device_stats ----
+/** Gap detection multiplier – a gap wider than median_interval * this is an offline break */
+export const STREAK_GAP_MULTIPLIER = 6;
+
+/** How many of the latest intervals the median is taken over */
+export const INTERVAL_WINDOW = 48;
+
+/** The part of a device's statistics that moves with every uplink, in arrival order. */
+export interface UplinkStreak {
+  /** Last uplink, counted or not; the next interval is measured from it */
+  last_uplink_at: string | null;
+  /** Latest intervals in ms, oldest first, at most INTERVAL_WINDOW */
+  recent_intervals: number[];
+  /** Last uplink that followed a gap wider than the rolling median * STREAK_GAP_MULTIPLIER */
+  streak_start: string | null;
+}
+
+export function emptyStreak(): UplinkStreak {
+  return { last_uplink_at: null, recent_intervals: [], streak_start: null };
+}
+
+export function medianOf(values: number[]): number | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Take the next uplink (not older than `last_uplink_at`) into account. A gap
+ * is judged against the median of the intervals known when it arrives, the
+ * gap itself included.
+ */
+export function advanceStreak(state: UplinkStreak, at: string): UplinkStreak {
+  if (!state.last_uplink_at) return { ...state, last_uplink_at: at };
+  const interval = Date.parse(at) - Date.parse(state.last_uplink_at);
+  const recent = [...state.recent_intervals, interval].slice(-INTERVAL_WINDOW);
+  const median = medianOf(recent)!;
+  return {
+    last_uplink_at: at,
+    recent_intervals: recent,
+    streak_start: interval > median * STREAK_GAP_MULTIPLIER ? at : state.streak_start,
+  };
+}
@@ -0,0 +1,134 @@
+import { getPreviousFrameCounter, hasAnomaly, listFrameCounters, storeAnomaly } from "./db.js";
+import type { TimeRange } from "./db.js";
+
+// ---- LoRaWAN frame-counter gaps and resets ----
+/** LoRaWAN MAX_FCNT_GAP: a bigger jump forward is a counter discontinuity, not lost frames. */
+const MAX_FCNT_GAP = 16384;
+
+/** Gaps and resets listed individually in a stats response (the most recent ones). */
+const MAX_LISTED_EVENTS = 200;
+
+export type FrameCounterStep =
+  | { kind: "next" }
+  | { kind: "gap"; lost: number }
+  | { kind: "duplicate" }
+  | { kind: "reset" };
+
+/**
+ * How `cur` follows `prev`. A counter going backwards (or jumping further
+ * than MAX_FCNT_GAP) means the device rebooted or rejoined; frames lost
+ * around a reset cannot be counted.
+ */
+export function classifyFrameCounter(prev: number, cur: number): FrameCounterStep {
+  const delta = cur - prev;
+  if (delta === 0) return { kind: "duplicate" };
+  if (delta === 1) return { kind: "next" };
+  if (delta > 1 && delta <= MAX_FCNT_GAP) return { kind: "gap", lost: delta - 1 };
+  return { kind: "reset" };
+}
+
+export interface FrameCounterEvent {
+  at: string;
+  previous_at: string;
+  previous_f_cnt: number;
+  f_cnt: number;
+  /** Frames missing between the two uplinks (gaps only) */
+  lost?: number;
+}
+
+export interface FrameCounterStats {
+  dev_eui: string;
+  from: string | null;
+  to: string | null;
+  /** Stored uplinks in the range */
+  uplinks: number;
+  /** Uplinks whose provider did not report a frame counter; not part of the loss figures */
+  without_f_cnt: number;
+  /** Distinct frames received (repeated counters count once) */
+  received: number;
+  lost: number;
+  /** received + lost */
+  expected: number;
+  /** lost / expected, null without any frame-counter data */
+  loss_ratio: number | null;
+  duplicates: number;
+  resets: number;
+  gaps: FrameCounterEvent[];
+  reset_events: FrameCounterEvent[];
+}
+
+/** Packet loss and counter resets of a device over an optional time range. */
+export function getFrameCounterStats(devEui: string, range: TimeRange = {}): FrameCounterStats {
+  const rows = listFrameCounters(devEui, range);
+  const stats: FrameCounterStats = {
+    dev_eui: devEui,
+    from: range.from ?? null,
+    to: range.to ?? null,
+    uplinks: rows.length,
+    without_f_cnt: 0,
+    received: 0,
+    lost: 0,
+    expected: 0,
+    loss_ratio: null,
+    duplicates: 0,
+    resets: 0,
+    gaps: [],
+    reset_events: [],
+  };
+
+  let prev: { at: string; f_cnt: number } | null = null;
+  for (const row of rows) {
+    if (row.f_cnt == null) {
+      stats.without_f_cnt++;
+      continue;
+    }
+    const step = prev ? classifyFrameCounter(prev.f_cnt, row.f_cnt) : { kind: "next" as const };
+    const event = prev ? { at: row.at, previous_at: prev.at, previous_f_cnt: prev.f_cnt, f_cnt: row.f_cnt } : null;
+    if (step.kind === "duplicate") {
+      stats.duplicates++;
+    } else {
+      stats.received++;
+      if (step.kind === "gap" && event) {
+        stats.lost += step.lost;
+        stats.gaps.push({ ...event, lost: step.lost });
+      } else if (step.kind === "reset" && event) {
+        stats.resets++;
+        stats.reset_events.push(event);
+      }
+    }
+    prev = { at: row.at, f_cnt: row.f_cnt };
+  }
+
+  stats.expected = stats.received + stats.lost;
+  stats.loss_ratio = stats.expected > 0 ? stats.lost / stats.expected : null;
+  stats.gaps = stats.gaps.slice(-MAX_LISTED_EVENTS);
+  stats.reset_events = stats.reset_events.slice(-MAX_LISTED_EVENTS);
+  return stats;
+}
+
+/**
+ * Compare a just-stored uplink's counter with the device's previous one and
+ * log a `fcnt_gap` / `fcnt_reset` anomaly. Idempotent for redelivered uplinks.
+ */
+export function checkFrameCounter(devEui: string, at: string, fCnt: number | null): (FrameCounterStep & { previous_f_cnt: number }) | null {
+  if (fCnt == null) return null;
+  const prev = getPreviousFrameCounter(devEui, at);
+  if (!prev) return null;
+
+  const step = classifyFrameCounter(prev.f_cnt, fCnt);
+  if (step.kind === "gap" || step.kind === "reset") {
+    const eventType = step.kind === "gap" ? "fcnt_gap" : "fcnt_reset";
+    if (!hasAnomaly(devEui, at, eventType)) {
+      storeAnomaly({
+        dev_eui: devEui,
+        at,
+        event_type: eventType,
+        jump: step.kind === "gap" ? step.lost : null,
+        details: step.kind === "gap"
+          ? `Frame counter ${prev.f_cnt} → ${fCnt}: ${step.lost} uplink(s) lost since ${prev.at}`
+          : `Frame counter reset ${prev.f_cnt} → ${fCnt} (device rebooted or rejoined)`,
+      });
+    }
+  }
+  return { ...step, previous_f_cnt: prev.f_cnt };
+}
@@ -0,0 +1,42 @@
+import type { DailyPoint, GasConversionFactor, GasConversionFactorInput } from "./db.js";
+
+// ---- gas volume → energy (kWh = m³ × Zustandszahl × Brennwert) ----
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Validate a factor from a request body; ranges are loose sanity bounds, not tariff rules. */
+export function normalizeGasFactorInput(devEui: string, body: any): { factor: GasConversionFactorInput } | { error: string } {
+  const valid_from = String(body?.valid_from ?? "").trim();
+  if (!DATE.test(valid_from)) return { error: "valid_from must be a date (YYYY-MM-DD)" };
+  const valid_to = body?.valid_to == null || body.valid_to === "" ? null : String(body.valid_to).trim();
+  if (valid_to != null && !DATE.test(valid_to)) return { error: "valid_to must be a date (YYYY-MM-DD) or null" };
+  if (valid_to != null && valid_to <= valid_from) return { error: "valid_to must be after valid_from" };
+
+  const calorific_value = Number(body?.calorific_value);
+  if (!Number.isFinite(calorific_value) || calorific_value <= 0 || calorific_value > 20) {
+    return { error: "calorific_value must be in kWh/m³ (0 < value <= 20)" };
+  }
+  const z_number = Number(body?.z_number);
+  if (!Number.isFinite(z_number) || z_number <= 0 || z_number > 2) {
+    return { error: "z_number must be between 0 and 2" };
+  }
+
+  const comment = body?.comment == null || String(body.comment).trim() === "" ? null : String(body.comment).trim();
+  return { factor: { dev_eui: devEui, valid_from, valid_to, calorific_value, z_number, comment } };
+}
+
+/** The factor in force on a local date (YYYY-MM-DD). */
+export function gasFactorOn(factors: GasConversionFactor[], date: string): GasConversionFactor | null {
+  return factors.find(f => f.valid_from <= date && (f.valid_to == null || date < f.valid_to)) ?? null;
+}
+
+export function gasEnergyKwh(volumeM3: number, factor: Pick<GasConversionFactor, "calorific_value" | "z_number">): number {
+  return Number((volumeM3 * factor.z_number * factor.calorific_value).toPrecision(15));
+}
+
+/** Daily volumes with their energy; days without a factor in force get null. */
+export function withGasEnergy(series: DailyPoint[], factors: GasConversionFactor[]): Array<DailyPoint & { energy_kwh: number | null }> {
+  return series.map(p => {
+    const factor = p.consumption != null ? gasFactorOn(factors, p.date) : null;
+    return { ...p, energy_kwh: factor ? gasEnergyKwh(p.consumption!, factor) : null };
+  });
+}
@@ -0,0 +1,65 @@
+import type { StoreReadingInput, StoreReceptionInput, StoreRegisterInput, StoreUplinkInput } from "./db.js";
+import type { ParsedUplink } from "./adapters/index.js";
+import { extractRegisters } from "./registers.js";
+
+/**
+ * Map an adapter result to the rows we store. Shared by live ingestion and
+ * reprocessing so both write exactly the same thing for the same body.
+ */
+export function toStoreInputs(parsed: ParsedUplink & { devEui: string }): {
+  uplink: StoreUplinkInput;
+  reading: StoreReadingInput | null;
+  receptions: StoreReceptionInput[];
+  registers: StoreRegisterInput[];
+} {
+  const uplink: StoreUplinkInput = {
+    dev_eui: parsed.devEui,
+    at: parsed.at,
+    provider: parsed.provider,
+    meter_value: parsed.meterValue,
+    meter_value_raw: parsed.meterValueRaw,
+    device_name: parsed.deviceName,
+    application_id: parsed.applicationId,
+    application_name: parsed.applicationName,
+    deduplication_id: parsed.deduplicationId,
+    battery_mv: parsed.battery_mv,
+    rssi: parsed.rssi,
+    snr: parsed.snr,
+    f_cnt: parsed.fCnt,
+    f_port: parsed.fPort,
+    data_rate: parsed.dataRate,
+    spreading_factor: parsed.spreadingFactor,
+    frequency: parsed.frequency,
+    confirmed: parsed.confirmed,
+    decoded_json: parsed.decodedObj,
+    payload_json: parsed.payloadObj,
+  };
+
+  const reading: StoreReadingInput | null = parsed.meterValue == null ? null : {
+    dev_eui: parsed.devEui,
+    at: parsed.at,
+    meter_value: parsed.meterValue,
+    meter_value_raw: parsed.meterValueRaw,
+    device_name: parsed.deviceName,
+    application_id: parsed.applicationId,
+    application_name: parsed.applicationName,
+    deduplication_id: parsed.deduplicationId,
+    battery_mv: parsed.battery_mv,
+    rssi: parsed.rssi,
+    snr: parsed.snr,
+  };
+
+  const receptions: StoreReceptionInput[] = parsed.receptions.map(r => ({
+    gateway_id: r.gatewayId,
+    gateway_name: r.gatewayName,
+    rssi: r.rssi,
+    snr: r.snr,
+    channel: r.channel,
+    received_at: r.at,
+    latitude: r.latitude,
+    longitude: r.longitude,
+    altitude: r.altitude,
+  }));
+
+  return { uplink, reading, receptions, registers: extractRegisters(parsed.decodedObj) };
+}
@@ -0,0 +1,87 @@
+import { findMeterMapping } from "./db.js";
+import type { BatteryUnit, MeterMapping, MeterMappingInput, MeterSource } from "./db.js";
+import type { ParsedUplink } from "./adapters/index.js";
+import { getDeep, numOrNull, parseJsonPath } from "./adapters/util.js";
+
+// ---- configurable meter-value / battery field mapping ----
+const METER_SOURCES: readonly MeterSource[] = ["decoded", "frm_payload_ascii"];
+const BATTERY_UNITS: readonly BatteryUnit[] = ["mV", "V"];
+
+/** Validate a mapping from a request body; paths must parse, numbers must be sane. */
+export function normalizeMeterMappingInput(body: any): { mapping: MeterMappingInput } | { error: string } {
+  const meter_source = String(body?.meter_source ?? "decoded").trim() as MeterSource;
+  if (!METER_SOURCES.includes(meter_source)) return { error: `meter_source must be one of ${METER_SOURCES.join(", ")}` };
+
+  const pathOrNull = (v: unknown) => (v == null || String(v).trim() === "" ? null : String(v).trim());
+  const meter_path = pathOrNull(body?.meter_path);
+  const battery_path = pathOrNull(body?.battery_path);
+  if (meter_path && !parseJsonPath(meter_path)) return { error: `invalid meter_path "${meter_path}"` };
+  if (battery_path && !parseJsonPath(battery_path)) return { error: `invalid battery_path "${battery_path}"` };
+
+  const scale = body?.scale == null || body.scale === "" ? 1 : Number(body.scale);
+  if (!Number.isFinite(scale) || scale === 0) return { error: "scale must be a non-zero number" };
+
+  const decimals = body?.decimals == null || body.decimals === "" ? null : Number(body.decimals);
+  if (decimals != null && !(Number.isInteger(decimals) && decimals >= 0 && decimals <= 9)) {
+    return { error: "decimals must be an integer between 0 and 9" };
+  }
+
+  const battery_unit = String(body?.battery_unit ?? "mV").trim() as BatteryUnit;
+  if (!BATTERY_UNITS.includes(battery_unit)) return { error: `battery_unit must be one of ${BATTERY_UNITS.join(", ")}` };
+
+  const unit = body?.unit == null || String(body.unit).trim() === "" ? null : String(body.unit).trim();
+  return { mapping: { meter_source, meter_path, scale, unit, decimals, battery_path, battery_unit } };
+}
+
+/**
+ * Meter value per mapping: the raw value is read from the path (or the ASCII
+ * payload), shifted by `decimals` and multiplied by `scale`. Non-numeric
+ * values give null; nothing is guessed.
+ */
+export function mapMeterValue(
+  mapping: Pick<MeterMapping, "meter_source" | "meter_path" | "scale" | "decimals">,
+  decodedObj: Record<string, unknown> | null,
+  frmPayload: Buffer | null,
+): { meterValue: number | null; meterValueRaw: string | number | null } {
+  let raw: unknown;
+  if (mapping.meter_source === "frm_payload_ascii") {
+    raw = frmPayload?.length ? frmPayload.toString("utf8").trim() : undefined;
+  } else {
+    raw = getDeep(decodedObj, parseJsonPath(mapping.meter_path ?? "") ?? []);
+  }
+  if (raw == null || raw === "" || typeof raw === "object") return { meterValue: null, meterValueRaw: null };
+
+  const n = typeof raw === "string" ? Number(raw.replace(",", ".")) : numOrNull(raw);
+  if (n == null || !Number.isFinite(n)) return { meterValue: null, meterValueRaw: raw as string | number };
+
+  const shifted = mapping.decimals ? n / 10 ** mapping.decimals : n;
+  // strip binary noise such as 12345.678000000001
+  const value = Number((shifted * mapping.scale).toPrecision(15));
+  return { meterValue: value, meterValueRaw: raw as string | number };
+}
+
+export function mapBatteryMv(mapping: Pick<MeterMapping, "battery_path" | "battery_unit">, decodedObj: Record<string, unknown> | null): number | null {
+  const v = numOrNull(getDeep(decodedObj, parseJsonPath(mapping.battery_path ?? "") ?? []));
+  if (v == null) return null;
+  return Math.round(mapping.battery_unit === "V" ? v * 1000 : v);
+}
+
+/**
+ * Apply the device's (or its type's) mapping to an adapter/decoder result.
+ * Without a mapping, or for the parts a mapping leaves empty, the built-in
+ * key search stays in effect.
+ */
+export function applyMeterMapping<T extends ParsedUplink & { devEui: string }>(
+  parsed: T,
+  mapping: MeterMappingInput | null = findMeterMapping(parsed.devEui),
+): T {
+  if (!mapping) return parsed;
+  const next = { ...parsed };
+  if (mapping.meter_source === "frm_payload_ascii" || mapping.meter_path) {
+    const { meterValue, meterValueRaw } = mapMeterValue(mapping, parsed.decodedObj, parsed.frmPayload);
+    next.meterValue = meterValue;
+    next.meterValueRaw = meterValueRaw;
+  }
+  if (mapping.battery_path) next.battery_mv = mapBatteryMv(mapping, parsed.decodedObj);
+  return next;
+}
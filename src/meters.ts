@@ -0,0 +1,50 @@
+import type { MeterInstallationInput, MeterOffset } from "./db.js";
+
+// ---- meter lifecycle input (replacements, offset corrections) ----
+function isoTime(value: unknown): string | null {
+  if (value == null || value === "") return null;
+  const t = Date.parse(String(value));
+  return Number.isFinite(t) ? new Date(t).toISOString() : null;
+}
+
+function optionalNumber(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : NaN;
+}
+
+function optionalText(value: unknown): string | null {
+  return value == null || String(value).trim() === "" ? null : String(value).trim();
+}
+
+/**
+ * Validate an installation from a request body. With `partial` only the given
+ * fields are checked (for updates).
+ */
+export function normalizeMeterInstallationInput(body: any, partial = false): { input: Partial<MeterInstallationInput> } | { error: string } {
+  const input: Partial<MeterInstallationInput> = {};
+  if (!partial || body?.installed_at !== undefined) {
+    const installed_at = isoTime(body?.installed_at);
+    if (!installed_at) return { error: "installed_at must be a timestamp" };
+    input.installed_at = installed_at;
+  }
+  if (!partial || body?.serial !== undefined) input.serial = String(body?.serial ?? "").trim();
+  for (const key of ["start_reading", "end_reading"] as const) {
+    const n = optionalNumber(body?.[key]);
+    if (Number.isNaN(n)) return { error: `${key} must be a number or null` };
+    if (n !== undefined || !partial) input[key] = n ?? null;
+  }
+  if (!partial || body?.comment !== undefined) input.comment = optionalText(body?.comment);
+  return { input };
+}
+
+export function normalizeMeterOffsetInput(devEui: string, body: any): { offset: Omit<MeterOffset, "id" | "created_at"> } | { error: string } {
+  const at = isoTime(body?.at);
+  if (!at) return { error: "at must be a timestamp" };
+  const offset = Number(body?.offset);
+  if (body?.offset == null || body.offset === "" || !Number.isFinite(offset) || offset === 0) {
+    return { error: "offset must be a non-zero number" };
+  }
+  return { offset: { dev_eui: devEui, at, offset, comment: optionalText(body?.comment) } };
+}
@@ -0,0 +1,63 @@
+import Database from "better-sqlite3";
+import { DB_PATH, getMigrationStatus, runMigrations } from "./migrations.js";
+
+// Usage: npm run migrate -- [--status | --dry-run] [--json]
+function parseArgs(argv: string[]) {
+  const opts: { status: boolean; dryRun: boolean; json: boolean } = { status: false, dryRun: false, json: false };
+  for (const arg of argv) {
+    if (arg === "--status") opts.status = true;
+    else if (arg === "--dry-run") opts.dryRun = true;
+    else if (arg === "--json") opts.json = true;
+    else throw new Error(`unknown argument ${arg}`);
+  }
+  if (opts.status && opts.dryRun) throw new Error("--status and --dry-run are exclusive");
+  return opts;
+}
+
+let args: ReturnType<typeof parseArgs>;
+try {
+  args = parseArgs(process.argv.slice(2));
+} catch (err) {
+  console.error(String((err as any)?.message || err));
+  console.error("usage: npm run migrate -- [--status | --dry-run] [--json]");
+  process.exit(2);
+}
+
+// status and dry runs must not create a database that isn't there
+let db: Database.Database;
+try {
+  db = new Database(DB_PATH, { fileMustExist: args.status || args.dryRun });
+  db.pragma("foreign_keys = ON");
+} catch (err) {
+  console.error(`[MIGRATE] cannot open ${DB_PATH}: ${String((err as any)?.message || err)}`);
+  process.exit(1);
+}
+try {
+  const before = getMigrationStatus(db);
+  const ran = args.status ? [] : runMigrations(db, { dryRun: args.dryRun });
+
+  if (args.json) {
+    console.log(JSON.stringify({ db: DB_PATH, dryRun: args.dryRun, ...before, ran }, null, 2));
+  } else {
+    const mode = args.status ? "status" : args.dryRun ? "dry run" : "applied";
+    console.log(`[MIGRATE] ${mode} db=${DB_PATH} version=${before.current} latest=${before.latest}`);
+    for (const m of before.applied) {
+      console.log(`  applied ${m.version} ${m.name} at ${m.applied_at}${m.known ? "" : " (unknown to this build)"}`);
+      for (const note of m.notes) console.log(`    ${note}`);
+    }
+    if (args.status) {
+      for (const m of before.pending) console.log(`  pending ${m.version} ${m.name}`);
+    } else {
+      for (const m of ran) {
+        console.log(`  ${args.dryRun ? "would apply" : "ran"} ${m.version} ${m.name}`);
+        for (const note of m.notes) console.log(`    ${note}`);
+      }
+      if (!ran.length) console.log("  nothing to do");
+    }
+  }
+} catch (err) {
+  console.error(`[MIGRATE] ${String((err as any)?.message || err)}`);
+  process.exitCode = 1;
+} finally {
+  db.close();
+}
@@ -0,0 +1,882 @@
+import Database from "better-sqlite3";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { randomUUID } from "node:crypto";
+import { advanceStreak, emptyStreak } from "./device-stats.js";
+
+export const DB_PATH = process.env.DB_PATH || path.join(process.cwd(), "data.db");
+
+// ---- numbered schema / data migrations, each applied once in its own transaction ----
+export interface Migration {
+  version: number;
+  name: string;
+  /** Table rebuilds under foreign keys must not cascade; keys are checked before commit instead */
+  foreignKeysOff?: boolean;
+  /** Returns notes for the report, e.g. conflicts it resolved */
+  up(db: Database.Database): string[] | void;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  notes: string[];
+}
+
+export interface MigrationStatus {
+  /** Highest applied version; 0 for an empty database */
+  current: number;
+  /** Highest version this build knows */
+  latest: number;
+  applied: Array<AppliedMigration & { applied_at: string; known: boolean }>;
+  pending: Array<{ version: number; name: string }>;
+}
+
+function columnExists(db: Database.Database, table: string, col: string): boolean {
+  const rows = db.prepare(`PRAGMA table_info(${table})`).all() as any[];
+  return rows.some(r => String(r.name) === col);
+}
+
+/**
+ * The schema as it was built at import time before versioning. Every step
+ * checks what exists, so it can run against a database from any earlier
+ * build. Later changes go into new migrations, not here.
+ */
+function baseline(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS readings (
+      dev_eui TEXT NOT NULL,
+      at TEXT NOT NULL,
+      meter_value REAL NOT NULL,
+      meter_value_raw TEXT,
+      device_name TEXT,
+      application_id TEXT,
+      application_name TEXT,
+      deduplication_id TEXT,
+      battery_mv INTEGER,
+      rssi INTEGER,
+      snr REAL
+    );
+  `);
+
+  db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_readings_dev_at ON readings(dev_eui, at);`);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS uplinks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      dev_eui TEXT NOT NULL,
+      at TEXT NOT NULL,
+      provider TEXT,
+      device_name TEXT,
+      application_id TEXT,
+      application_name TEXT,
+      deduplication_id TEXT,
+      meter_value REAL,
+      meter_value_raw TEXT,
+      battery_mv INTEGER,
+      rssi INTEGER,
+      snr REAL,
+      decoded_json TEXT,
+      payload_json TEXT
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_uplinks_dev_at ON uplinks(dev_eui, at);`);
+  db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_uplinks_dev_dedup ON uplinks(dev_eui, deduplication_id);`);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS device_settings (
+      dev_eui TEXT PRIMARY KEY,
+      device_type TEXT NOT NULL DEFAULT 'unknown',
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `);
+
+  function ensureColumns(): void {
+    const add = (col: string, typeSql: string) => {
+      if (!columnExists(db, "readings", col)) {
+        db.exec(`ALTER TABLE readings ADD COLUMN ${col} ${typeSql};`);
+      }
+    };
+    add("battery_mv", "INTEGER");
+    add("rssi", "INTEGER");
+    add("snr", "REAL");
+  }
+  ensureColumns();
+
+  function ensureDeviceSettingsColumns(): void {
+    const add = (col: string, typeSql: string) => {
+      if (!columnExists(db, "device_settings", col)) {
+        db.exec(`ALTER TABLE device_settings ADD COLUMN ${col} ${typeSql};`);
+      }
+    };
+
+    add("auto_recalibrate_enabled", "INTEGER NOT NULL DEFAULT 1");
+    add("auto_recalibrate_qmax_factor", "REAL NOT NULL DEFAULT 6.0");
+    add("auto_recalibrate_min_jump", "REAL NOT NULL DEFAULT 100000");
+    add("auto_recalibrate_cooldown_min", "INTEGER NOT NULL DEFAULT 180");
+    add("auto_recalibrate_f_port", "INTEGER NOT NULL DEFAULT 15");
+    add("last_auto_recalibrated_at", "TEXT");
+    add("failure_logs_reset_at", "TEXT");
+    add("uplink_count_reset_at", "TEXT");
+    // read by migration 6, which drops the table
+    add("max_counter_value", "REAL");
+    add("validation_rules", "TEXT");
+  }
+  ensureDeviceSettingsColumns();
+
+  // --- anomaly log table ---
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS anomaly_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      dev_eui TEXT NOT NULL,
+      at TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      meter_value REAL,
+      previous_value REAL,
+      jump REAL,
+      threshold REAL,
+      action TEXT,
+      details TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_anomaly_dev_at ON anomaly_log(dev_eui, at);`);
+
+  // --- network-server events (join, status, ack, log, location, ...) ---
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS network_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      dev_eui TEXT NOT NULL,
+      at TEXT NOT NULL,
+      provider TEXT,
+      event_type TEXT NOT NULL,
+      dev_addr TEXT,
+      margin REAL,
+      battery_level REAL,
+      external_power INTEGER,
+      downlink_id INTEGER,
+      acknowledged INTEGER,
+      f_cnt_down INTEGER,
+      gateway_id TEXT,
+      level TEXT,
+      code TEXT,
+      description TEXT,
+      latitude REAL,
+      longitude REAL,
+      altitude REAL,
+      payload_json TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_network_events_dev_at ON network_events(dev_eui, at);`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_network_events_type_at ON network_events(event_type, at);`);
+
+  // --- downlinks we pushed, with their delivery state ---
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS downlinks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      dev_eui TEXT NOT NULL,
+      provider TEXT NOT NULL,
+      application_id TEXT,
+      device_id TEXT,
+      f_port INTEGER,
+      confirmed INTEGER NOT NULL DEFAULT 1,
+      payload_json TEXT,
+      frm_payload TEXT,
+      purpose TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      provider_ref TEXT,
+      f_cnt_down INTEGER,
+      error TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_downlinks_dev_created ON downlinks(dev_eui, created_at);`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_downlinks_provider_ref ON downlinks(provider_ref);`);
+
+  // --- webhook inbox (raw bodies, processed asynchronously) ---
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS webhook_inbox (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      received_at TEXT NOT NULL,
+      path TEXT NOT NULL,
+      event TEXT,
+      body_json TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TEXT NOT NULL,
+      last_error TEXT,
+      result TEXT,
+      processed_at TEXT
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_webhook_inbox_status_next ON webhook_inbox(status, next_attempt_at);`);
+
+
+  // --- webhook credentials (hashed tokens scoped to provider / applications / DevEUI prefix) ---
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS webhook_credentials (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      token_hint TEXT NOT NULL,
+      provider TEXT,
+      application_ids_json TEXT,
+      dev_eui_prefix TEXT,
+      created_at TEXT NOT NULL,
+      revoked_at TEXT,
+      last_used_at TEXT,
+      rejected_count INTEGER NOT NULL DEFAULT 0,
+      last_rejected_at TEXT
+    );
+  `);
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS webhook_auth_failures (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      at TEXT NOT NULL,
+      credential_id INTEGER,
+      path TEXT NOT NULL,
+      reason TEXT NOT NULL,
+      ip TEXT,
+      provider TEXT,
+      application_id TEXT,
+      dev_eui TEXT
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_webhook_auth_failures_cred_at ON webhook_auth_failures(credential_id, at);`);
+
+  // --- webhook signing secrets (HMAC, scoped to an endpoint or an application) ---
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS webhook_signing_secrets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      endpoint TEXT,
+      application_id TEXT,
+      secret TEXT NOT NULL,
+      secret_hint TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      revoked_at TEXT,
+      last_used_at TEXT
+    );
+  `);
+
+  // --- devices table (logical device configurations with UUID) ---
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS devices (
+      uuid TEXT PRIMARY KEY,
+      dev_eui TEXT NOT NULL,
+      name TEXT NOT NULL DEFAULT '',
+      device_type TEXT NOT NULL DEFAULT 'unknown',
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_devices_dev_eui ON devices(dev_eui);`);
+
+  // read by migrations 6 and 7, which rebuild the table
+  function ensureDevicesColumns(): void {
+    const add = (col: string, typeSql: string) => {
+      if (!columnExists(db, "devices", col)) {
+        db.exec(`ALTER TABLE devices ADD COLUMN ${col} ${typeSql};`);
+      }
+    };
+    // built-in payload decoding ('wmbus' | 'sml'); NULL = network-server / script decoder
+    add("payload_format", "TEXT");
+    // AES-128 key of an encrypted wM-Bus meter, hex
+    add("wmbus_key", "TEXT");
+  }
+  ensureDevicesColumns();
+
+  // --- per-gateway receptions of each stored uplink ---
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS uplink_receptions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      uplink_id INTEGER NOT NULL,
+      dev_eui TEXT NOT NULL,
+      uplink_at TEXT NOT NULL,
+      gateway_id TEXT NOT NULL,
+      gateway_name TEXT,
+      rssi REAL,
+      snr REAL,
+      channel INTEGER,
+      received_at TEXT,
+      latitude REAL,
+      longitude REAL,
+      altitude REAL
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_uplink_receptions_uplink ON uplink_receptions(uplink_id);`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_uplink_receptions_dev_at ON uplink_receptions(dev_eui, uplink_at);`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_uplink_receptions_gw_at ON uplink_receptions(gateway_id, uplink_at);`);
+
+  // --- gateway registry (kept up to date from receptions; name/location can be set by hand) ---
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS gateways (
+      gateway_id TEXT PRIMARY KEY,
+      name TEXT,
+      reported_name TEXT,
+      latitude REAL,
+      longitude REAL,
+      altitude REAL,
+      location_manual INTEGER NOT NULL DEFAULT 0,
+      first_seen TEXT,
+      last_seen TEXT,
+      status TEXT,
+      status_changed_at TEXT
+    );
+  `);
+
+  // --- devices awaiting approval (unknown DevEUIs under the `pending` / `reject` policy) ---
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS pending_devices (
+      dev_eui TEXT PRIMARY KEY,
+      status TEXT NOT NULL DEFAULT 'pending',
+      provider TEXT,
+      device_name TEXT,
+      application_id TEXT,
+      guessed_type TEXT NOT NULL DEFAULT 'unknown',
+      first_seen_at TEXT NOT NULL,
+      last_seen_at TEXT NOT NULL,
+      uplink_count INTEGER NOT NULL DEFAULT 0,
+      last_decoded_json TEXT,
+      decided_at TEXT
+    );
+  `);
+
+  // --- payload decoder scripts (versioned; attached to one device or a device type) ---
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS payload_decoders (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      scope TEXT NOT NULL,
+      target TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      script TEXT NOT NULL,
+      comment TEXT,
+      active INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT NOT NULL,
+      UNIQUE(scope, target, version)
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_payload_decoders_active ON payload_decoders(scope, target, active);`);
+
+  // --- meter-value field mappings (per device or device type) ---
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS meter_mappings (
+      scope TEXT NOT NULL,
+      target TEXT NOT NULL,
+      meter_source TEXT NOT NULL DEFAULT 'decoded',
+      meter_path TEXT,
+      scale REAL NOT NULL DEFAULT 1,
+      unit TEXT,
+      decimals INTEGER,
+      battery_path TEXT,
+      battery_unit TEXT NOT NULL DEFAULT 'mV',
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (scope, target)
+    );
+  `);
+
+  // --- register values (every register a meter reports, e.g. OBIS 1.8.0 / 2.8.0 / 16.7.0) ---
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS register_values (
+      dev_eui TEXT NOT NULL,
+      at TEXT NOT NULL,
+      register TEXT NOT NULL,
+      unit TEXT NOT NULL DEFAULT '',
+      value REAL NOT NULL,
+      PRIMARY KEY (dev_eui, register, unit, at)
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_register_values_dev_at ON register_values(dev_eui, at);`);
+
+  // --- gas conversion factors (Brennwert × Zustandszahl per device and billing period) ---
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS gas_conversion_factors (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      dev_eui TEXT NOT NULL,
+      valid_from TEXT NOT NULL,
+      valid_to TEXT,
+      calorific_value REAL NOT NULL,
+      z_number REAL NOT NULL,
+      comment TEXT,
+      created_at TEXT NOT NULL
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_gas_factors_dev ON gas_conversion_factors(dev_eui, valid_from);`);
+
+  // --- meter lifecycle (physical meters behind a device over time, manual counter offsets) ---
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS meter_installations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      dev_eui TEXT NOT NULL,
+      serial TEXT NOT NULL DEFAULT '',
+      installed_at TEXT NOT NULL,
+      start_reading REAL,
+      end_reading REAL,
+      comment TEXT,
+      created_at TEXT NOT NULL
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_meter_installations_dev ON meter_installations(dev_eui, installed_at);`);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS meter_offsets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      dev_eui TEXT NOT NULL,
+      at TEXT NOT NULL,
+      offset REAL NOT NULL,
+      comment TEXT,
+      created_at TEXT NOT NULL
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_meter_offsets_dev ON meter_offsets(dev_eui, at);`);
+}
+
+/**
+ * Columns the import-time schema gained in the last builds before
+ * versioning. Databases from those builds already have them; all others get
+ * them here instead of from the baseline, before the migrations that rebuild
+ * these tables.
+ */
+function addLateBaselineColumns(db: Database.Database): void {
+  const add = (table: string, col: string, typeSql: string) => {
+    if (!columnExists(db, table, col)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${col} ${typeSql};`);
+  };
+  // LoRaWAN frame metadata, used for packet-loss and counter-reset detection
+  add("uplinks", "f_cnt", "INTEGER");
+  add("uplinks", "f_port", "INTEGER");
+  add("uplinks", "data_rate", "INTEGER");
+  add("uplinks", "spreading_factor", "INTEGER");
+  add("uplinks", "frequency", "INTEGER");
+  add("uplinks", "confirmed", "INTEGER");
+  add("readings", "quality", "TEXT NOT NULL DEFAULT 'valid'");
+  add("readings", "quality_reasons", "TEXT");
+  // Processed inbox rows are kept as the raw webhook archive used by reprocessing.
+  add("webhook_inbox", "headers_json", "TEXT");
+  add("webhook_inbox", "dev_eui", "TEXT");
+  add("webhook_inbox", "uplink_at", "TEXT");
+  add("webhook_inbox", "credential_id", "INTEGER");
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_webhook_inbox_dev_at ON webhook_inbox(dev_eui, uplink_at);`);
+}
+
+/** Recreate a table from its own definition as rewritten by `change`, keeping rows and indexes. */
+function rebuildTable(db: Database.Database, table: string, change: (sql: string) => string): void {
+  const { sql } = db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`).get(table) as { sql: string };
+  const indexes = db.prepare(`
+    SELECT sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL
+  `).all(table) as Array<{ sql: string }>;
+  const changed = change(sql);
+  if (changed === sql) throw new Error(`${table}: nothing to change`);
+
+  db.exec(changed.replace(/^CREATE TABLE\s+"?\w+"?/, `CREATE TABLE ${table}_new`));
+  db.exec(`INSERT INTO ${table}_new SELECT * FROM ${table}`);
+  db.exec(`DROP TABLE ${table}`);
+  db.exec(`ALTER TABLE ${table}_new RENAME TO ${table}`);
+  for (const index of indexes) db.exec(index.sql);
+}
+
+/** Rebuild a table with its dev_eui referencing lora_modules; its indexes are recreated as they were. */
+function rebuildWithModuleKey(db: Database.Database, table: string): void {
+  rebuildTable(db, table, sql => sql.replace(/\bdev_eui TEXT NOT NULL\b/, "dev_eui TEXT NOT NULL REFERENCES lora_modules(dev_eui) ON DELETE CASCADE"));
+}
+
+/**
+ * Settings and data move to the LoRa module, one `lora_modules` row per
+ * DevEUI. `device_type` was kept in both devices and device_settings and the
+ * two drifted apart; divergent types and data without a device are resolved
+ * here. Several devices for one DevEUI are all kept, for migration 7 to bind
+ * one after the other. Each case is reported.
+ */
+function consolidateDevices(db: Database.Database): string[] {
+  const notes: string[] = [];
+
+  const duplicates = db.prepare(`
+    SELECT dev_eui, GROUP_CONCAT(uuid, ', ') AS uuids, COUNT(*) AS n FROM devices GROUP BY dev_eui HAVING COUNT(*) > 1
+  `).all() as Array<{ dev_eui: string; uuids: string; n: number }>;
+  for (const d of duplicates) {
+    notes.push(`${d.dev_eui}: ${d.n} configured devices (${d.uuids}), all kept and bound one after the other by created_at`);
+  }
+
+  // data of deleted configured devices
+  const orphans = db.prepare(`
+    SELECT dev_eui FROM (
+      SELECT dev_eui FROM readings UNION SELECT dev_eui FROM uplinks UNION SELECT dev_eui FROM anomaly_log
+    )
+    WHERE dev_eui NOT IN (SELECT dev_eui FROM devices)
+  `).all() as Array<{ dev_eui: string }>;
+  for (const { dev_eui } of orphans) {
+    const nameRow = db.prepare(`
+      SELECT device_name FROM (
+        SELECT device_name FROM readings WHERE dev_eui = ? AND device_name IS NOT NULL
+        UNION ALL
+        SELECT device_name FROM uplinks WHERE dev_eui = ? AND device_name IS NOT NULL
+      ) LIMIT 1
+    `).get(dev_eui, dev_eui) as { device_name: string } | undefined;
+    const typeRow = db.prepare(`SELECT device_type FROM device_settings WHERE dev_eui = ?`).get(dev_eui) as { device_type: string } | undefined;
+    const uuid = randomUUID();
+    db.prepare(`
+      INSERT INTO devices (uuid, dev_eui, name, device_type, created_at) VALUES (?, ?, ?, ?, ?)
+    `).run(uuid, dev_eui, nameRow?.device_name ?? "", typeRow?.device_type ?? "unknown", new Date().toISOString());
+    notes.push(`${dev_eui}: stored data without a configured device, created ${uuid}`);
+  }
+
+  // device_settings is what units, gas energy and PUT /api/device-types used, i.e. the newest device's type
+  const diverged = db.prepare(`
+    SELECT d.uuid, d.dev_eui, d.device_type, s.device_type AS settings_type
+    FROM devices d JOIN device_settings s ON s.dev_eui = d.dev_eui
+    WHERE s.device_type != d.device_type AND d.uuid = (
+      SELECT uuid FROM devices WHERE dev_eui = d.dev_eui
+      ORDER BY COALESCE(strftime('%Y-%m-%dT%H:%M:%fZ', created_at), created_at) DESC, uuid DESC
+      LIMIT 1
+    )
+  `).all() as Array<{ uuid: string; dev_eui: string; device_type: string; settings_type: string }>;
+  for (const d of diverged) {
+    const resolved = d.settings_type !== "unknown" ? d.settings_type : d.device_type;
+    if (resolved !== d.device_type) db.prepare(`UPDATE devices SET device_type = ? WHERE uuid = ?`).run(resolved, d.uuid);
+    notes.push(`${d.dev_eui}: device_type ${d.device_type} in devices, ${d.settings_type} in device_settings; kept ${resolved}`);
+  }
+
+  const stray = db.prepare(`
+    SELECT dev_eui FROM device_settings WHERE dev_eui NOT IN (SELECT dev_eui FROM devices)
+  `).all() as Array<{ dev_eui: string }>;
+  for (const { dev_eui } of stray) notes.push(`${dev_eui}: settings without a device or data, dropped`);
+
+  db.exec(`
+    CREATE TABLE lora_modules (
+      dev_eui TEXT PRIMARY KEY,
+      created_at TEXT NOT NULL
+    );
+    INSERT INTO lora_modules (dev_eui, created_at) SELECT dev_eui, MIN(created_at) FROM devices GROUP BY dev_eui;
+
+    CREATE TABLE devices_new (
+      uuid TEXT PRIMARY KEY,
+      dev_eui TEXT NOT NULL REFERENCES lora_modules(dev_eui) ON DELETE CASCADE,
+      name TEXT NOT NULL DEFAULT '',
+      device_type TEXT NOT NULL DEFAULT 'unknown',
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      payload_format TEXT,
+      wmbus_key TEXT
+    );
+    INSERT INTO devices_new (uuid, dev_eui, name, device_type, created_at, payload_format, wmbus_key)
+      SELECT uuid, dev_eui, name, device_type, created_at, payload_format, wmbus_key FROM devices;
+    DROP TABLE devices;
+    ALTER TABLE devices_new RENAME TO devices;
+    CREATE INDEX idx_devices_dev_eui ON devices(dev_eui);
+
+    CREATE TABLE device_recalibration_settings (
+      dev_eui TEXT PRIMARY KEY REFERENCES lora_modules(dev_eui) ON DELETE CASCADE,
+      auto_recalibrate_enabled INTEGER NOT NULL DEFAULT 1,
+      auto_recalibrate_qmax_factor REAL NOT NULL DEFAULT 6.0,
+      auto_recalibrate_min_jump REAL NOT NULL DEFAULT 100000,
+      auto_recalibrate_cooldown_min INTEGER NOT NULL DEFAULT 180,
+      auto_recalibrate_f_port INTEGER NOT NULL DEFAULT 15,
+      last_auto_recalibrated_at TEXT,
+      updated_at TEXT NOT NULL
+    );
+    INSERT INTO device_recalibration_settings
+      SELECT dev_eui, auto_recalibrate_enabled, auto_recalibrate_qmax_factor, auto_recalibrate_min_jump,
+        auto_recalibrate_cooldown_min, auto_recalibrate_f_port, last_auto_recalibrated_at, updated_at
+      FROM device_settings WHERE dev_eui IN (SELECT dev_eui FROM lora_modules);
+
+    CREATE TABLE device_reset_markers (
+      dev_eui TEXT PRIMARY KEY REFERENCES lora_modules(dev_eui) ON DELETE CASCADE,
+      uplink_count_reset_at TEXT,
+      failure_logs_reset_at TEXT
+    );
+    INSERT INTO device_reset_markers
+      SELECT dev_eui, uplink_count_reset_at, failure_logs_reset_at
+      FROM device_settings
+      WHERE dev_eui IN (SELECT dev_eui FROM lora_modules) AND (uplink_count_reset_at IS NOT NULL OR failure_logs_reset_at IS NOT NULL);
+
+    CREATE TABLE device_meter_settings (
+      dev_eui TEXT PRIMARY KEY REFERENCES lora_modules(dev_eui) ON DELETE CASCADE,
+      max_counter_value REAL,
+      validation_rules TEXT,
+      updated_at TEXT NOT NULL
+    );
+    INSERT INTO device_meter_settings
+      SELECT dev_eui, max_counter_value, validation_rules, updated_at
+      FROM device_settings
+      WHERE dev_eui IN (SELECT dev_eui FROM lora_modules) AND (max_counter_value IS NOT NULL OR validation_rules IS NOT NULL);
+
+    DROP TABLE device_settings;
+  `);
+
+  for (const table of ["readings", "uplinks", "anomaly_log"]) rebuildWithModuleKey(db, table);
+  return notes;
+}
+
+/**
+ * A LoRa module (DevEUI) can serve several configured devices one after the
+ * other. Data and settings belong to the module in `lora_modules`; each
+ * device owns the part of the module's history in [bound_from, bound_to),
+ * where null means unbounded. Several devices of one DevEUI follow each
+ * other in created_at order: each one's binding ends where the next one's
+ * starts, the first is unbounded before and the last stays open.
+ */
+function addDeviceBindings(db: Database.Database): string[] {
+  db.exec(`
+    CREATE TABLE devices_new (
+      uuid TEXT PRIMARY KEY,
+      dev_eui TEXT NOT NULL REFERENCES lora_modules(dev_eui) ON DELETE CASCADE,
+      name TEXT NOT NULL DEFAULT '',
+      device_type TEXT NOT NULL DEFAULT 'unknown',
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      payload_format TEXT,
+      wmbus_key TEXT,
+      bound_from TEXT,
+      bound_to TEXT
+    );
+    INSERT INTO devices_new (uuid, dev_eui, name, device_type, created_at, payload_format, wmbus_key, bound_from, bound_to)
+      SELECT uuid, dev_eui, name, device_type, created_at, payload_format, wmbus_key,
+        CASE WHEN ROW_NUMBER() OVER w > 1 THEN since END, LEAD(since) OVER w
+      FROM (
+        -- created_at defaults to SQLite's datetime('now'); bindings compare against ISO timestamps
+        SELECT *, COALESCE(strftime('%Y-%m-%dT%H:%M:%fZ', created_at), created_at) AS since FROM devices
+      )
+      WINDOW w AS (PARTITION BY dev_eui ORDER BY since ASC, uuid ASC);
+  `);
+
+  const notes: string[] = [];
+  const closed = db.prepare(`SELECT uuid, dev_eui, bound_from, bound_to FROM devices_new WHERE bound_to IS NOT NULL ORDER BY dev_eui, bound_to`).all() as Array<{
+    uuid: string;
+    dev_eui: string;
+    bound_from: string | null;
+    bound_to: string;
+  }>;
+  for (const d of closed) {
+    notes.push(`${d.dev_eui}: ${d.uuid} bound ${d.bound_from ? `from ${d.bound_from} ` : ""}until ${d.bound_to}, when the next device was created`);
+  }
+
+  db.exec(`
+    DROP TABLE devices;
+    ALTER TABLE devices_new RENAME TO devices;
+    CREATE INDEX idx_devices_dev_eui ON devices(dev_eui, bound_from);
+    CREATE UNIQUE INDEX idx_devices_open_binding ON devices(dev_eui) WHERE bound_to IS NULL;
+  `);
+  return notes;
+}
+
+/**
+ * Uplink statistics per DevEUI, kept up to date on ingestion instead of
+ * scanning all uplinks per summary. Streaks follow a rolling median over the
+ * latest intervals, replayed here from each binding's stored uplinks.
+ */
+function addDeviceStats(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE device_stats (
+      dev_eui TEXT PRIMARY KEY REFERENCES lora_modules(dev_eui) ON DELETE CASCADE,
+      uplink_count INTEGER NOT NULL,
+      first_at TEXT,
+      last_at TEXT,
+      last_uplink_at TEXT,
+      streak_start TEXT,
+      recent_intervals_json TEXT NOT NULL DEFAULT '[]',
+      device_name TEXT,
+      updated_at TEXT NOT NULL
+    );
+  `);
+
+  // uplinks of each module's open binding (all of them without one); counts start after the reset marker
+  const inBinding = `LEFT JOIN devices d ON d.dev_eui = u.dev_eui AND d.bound_to IS NULL
+    WHERE (d.bound_from IS NULL OR u.at >= d.bound_from)`;
+  db.prepare(`
+    INSERT INTO device_stats (dev_eui, uplink_count, first_at, last_at, last_uplink_at, device_name, updated_at)
+    SELECT
+      u.dev_eui,
+      COUNT(CASE WHEN r.uplink_count_reset_at IS NULL OR u.at > r.uplink_count_reset_at THEN 1 END),
+      MIN(CASE WHEN r.uplink_count_reset_at IS NULL OR u.at > r.uplink_count_reset_at THEN u.at END),
+      MAX(CASE WHEN r.uplink_count_reset_at IS NULL OR u.at > r.uplink_count_reset_at THEN u.at END),
+      MAX(u.at),
+      (SELECT n.device_name FROM uplinks n
+       WHERE n.dev_eui = u.dev_eui AND n.device_name IS NOT NULL AND (d.bound_from IS NULL OR n.at >= d.bound_from)
+       ORDER BY n.at DESC LIMIT 1),
+      ?
+    FROM uplinks u
+    LEFT JOIN device_reset_markers r ON r.dev_eui = u.dev_eui
+    ${inBinding}
+    GROUP BY u.dev_eui
+  `).run(new Date().toISOString());
+
+  const modules = db.prepare(`SELECT dev_eui FROM device_stats`).pluck().all() as string[];
+  const times = db.prepare(`SELECT u.at FROM uplinks u ${inBinding} AND u.dev_eui = ? ORDER BY u.at ASC, u.id ASC`).pluck();
+  const save = db.prepare(`UPDATE device_stats SET streak_start = ?, recent_intervals_json = ? WHERE dev_eui = ?`);
+  for (const devEui of modules) {
+    let streak = emptyStreak();
+    for (const at of times.iterate(devEui) as IterableIterator<string>) streak = advanceStreak(streak, at);
+    save.run(streak.streak_start, JSON.stringify(streak.recent_intervals), devEui);
+  }
+}
+
+export const MIGRATIONS: readonly Migration[] = [
+  { version: 1, name: "baseline", up: baseline },
+  {
+    version: 2,
+    name: "drop legacy uplink dedup index",
+    up: db => {
+      db.exec(`DROP INDEX IF EXISTS idx_uplinks_dedup;`);
+    },
+  },
+  {
+    version: 3,
+    name: "assign UUIDs to devices seen before device configurations",
+    up: db => {
+      const existingDevEuis = db.prepare(`
+        SELECT DISTINCT dev_eui FROM (
+          SELECT dev_eui FROM readings
+          UNION
+          SELECT dev_eui FROM uplinks
+        )
+      `).all() as Array<{ dev_eui: string }>;
+
+      const hasEntry = db.prepare(`SELECT 1 FROM devices WHERE dev_eui = ?`);
+      const insertDevice = db.prepare(`
+        INSERT INTO devices (uuid, dev_eui, name, device_type, created_at)
+        VALUES (@uuid, @dev_eui, @name, @device_type, @created_at)
+      `);
+
+      for (const row of existingDevEuis) {
+        if (hasEntry.get(row.dev_eui)) continue;
+        // Get device name from readings/uplinks
+        const nameRow = db.prepare(`
+          SELECT device_name FROM (
+            SELECT device_name FROM readings WHERE dev_eui = ? AND device_name IS NOT NULL
+            UNION ALL
+            SELECT device_name FROM uplinks WHERE dev_eui = ? AND device_name IS NOT NULL
+          ) LIMIT 1
+        `).get(row.dev_eui, row.dev_eui) as { device_name: string } | undefined;
+        // Get device type from device_settings
+        const typeRow = db.prepare(`SELECT device_type FROM device_settings WHERE dev_eui = ?`).get(row.dev_eui) as { device_type: string } | undefined;
+
+        insertDevice.run({
+          uuid: randomUUID(),
+          dev_eui: row.dev_eui,
+          name: nameRow?.device_name ?? "",
+          device_type: typeRow?.device_type ?? "unknown",
+          created_at: new Date().toISOString(),
+        });
+      }
+    },
+  },
+  {
+    version: 4,
+    name: "register gateways from stored receptions",
+    up: db => {
+      db.exec(`
+        INSERT OR IGNORE INTO gateways (gateway_id, reported_name, first_seen, last_seen)
+        SELECT gateway_id, MAX(gateway_name), MIN(uplink_at), MAX(uplink_at)
+        FROM uplink_receptions
+        GROUP BY gateway_id
+      `);
+    },
+  },
+  { version: 5, name: "frame metadata, reading quality and inbox archive columns", up: addLateBaselineColumns },
+  { version: 6, name: "merge device_settings into devices", foreignKeysOff: true, up: consolidateDevices },
+  { version: 7, name: "bind devices to LoRa modules for a time range", foreignKeysOff: true, up: addDeviceBindings },
+  { version: 8, name: "incremental device uplink statistics", up: addDeviceStats },
+];
+
+const LATEST = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    );
+  `);
+  if (!columnExists(db, "schema_migrations", "notes")) db.exec(`ALTER TABLE schema_migrations ADD COLUMN notes TEXT;`);
+}
+
+/** Read-only; a database without schema_migrations is at version 0. */
+export function getMigrationStatus(db: Database.Database): MigrationStatus {
+  const hasTable = db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'`).get();
+  const rows = (hasTable ? db.prepare(`SELECT * FROM schema_migrations ORDER BY version ASC`).all() : []) as Array<{
+    version: number;
+    name: string;
+    applied_at: string;
+    notes?: string | null;
+  }>;
+  const done = new Set(rows.map(r => r.version));
+  return {
+    current: rows.length ? rows[rows.length - 1].version : 0,
+    latest: LATEST,
+    applied: rows.map(r => ({
+      version: r.version,
+      name: r.name,
+      applied_at: r.applied_at,
+      notes: r.notes ? JSON.parse(r.notes) as string[] : [],
+      known: MIGRATIONS.some(m => m.version === r.version),
+    })),
+    pending: MIGRATIONS.filter(m => !done.has(m.version)).map(m => ({ version: m.version, name: m.name })),
+  };
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction together
+ * with its schema_migrations row. A dry run applies them to a temporary
+ * copy on disk next to the database, so failures and reports show up
+ * without touching it and without holding the archive in memory.
+ * Throws when the database was migrated by a newer build.
+ */
+export function runMigrations(db: Database.Database, opts: { dryRun?: boolean } = {}): AppliedMigration[] {
+  const status = getMigrationStatus(db);
+  if (status.current > LATEST) {
+    throw new Error(
+      `database schema is at version ${status.current}, this build only knows up to ${LATEST}; refusing to use it with an older build`,
+    );
+  }
+  if (opts.dryRun) {
+    const dir = db.memory ? os.tmpdir() : path.dirname(db.name);
+    const file = path.join(dir, `.migrate-dry-run-${process.pid}.db`);
+    fs.rmSync(file, { force: true });
+    db.prepare(`VACUUM INTO ?`).run(file);
+    const copy = new Database(file);
+    copy.pragma("foreign_keys = ON");
+    try {
+      return runMigrations(copy);
+    } finally {
+      copy.close();
+      for (const suffix of ["", "-wal", "-shm", "-journal"]) fs.rmSync(file + suffix, { force: true });
+    }
+  }
+
+  const ran: AppliedMigration[] = [];
+  for (const { version } of status.pending) {
+    const migration = MIGRATIONS.find(m => m.version === version)!;
+    let notes: string[] = [];
+    const apply = db.transaction(() => {
+      ensureMigrationsTable(db);
+      notes = migration.up(db) || [];
+      if (migration.foreignKeysOff) {
+        const violations = db.pragma("foreign_key_check") as Array<{ table: string; parent: string }>;
+        if (violations.length) {
+          throw new Error(`${violations.length} foreign key violation(s), first: ${violations[0].table} -> ${violations[0].parent}`);
+        }
+      }
+      db.prepare(`INSERT INTO schema_migrations (version, name, applied_at, notes) VALUES (?, ?, ?, ?)`)
+        .run(migration.version, migration.name, new Date().toISOString(), notes.length ? JSON.stringify(notes) : null);
+    });
+    // foreign_keys can only be switched outside a transaction
+    if (migration.foreignKeysOff) db.pragma("foreign_keys = OFF");
+    try {
+      apply();
+    } catch (err) {
+      throw new Error(`migration ${migration.version} (${migration.name}) failed: ${String((err as any)?.message || err)}`);
+    } finally {
+      if (migration.foreignKeysOff) db.pragma("foreign_keys = ON");
+    }
+    ran.push({ version: migration.version, name: migration.name, notes });
+  }
+  return ran;
+}
+
+/** Bring the database up to date on startup. */
+export function migrateDatabase(db: Database.Database): void {
+  for (const m of runMigrations(db)) {
+    console.log(`[MIGRATE] applied ${m.version} ${m.name}`);
+    for (const note of m.notes) console.warn(`[MIGRATE]   ${note}`);
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  createConfiguredDevice,
+  getLastBindingEnd,
+  getPendingDevice,
+  isProvisionedDevEui,
+  notePendingDevice,
+  removePendingDevice,
+} from "./db.js";
+import type { ConfiguredDevice, DeviceType, PendingDevice } from "./db.js";
+import type { ParsedUplink } from "./adapters/index.js";
+import { isSmlTransport } from "./sml.js";
+
+// ---- what happens to uplinks from DevEUIs without a configured device ----
+export type ProvisioningPolicy = "auto" | "pending" | "reject";
+
+const POLICIES: readonly ProvisioningPolicy[] = ["auto", "pending", "reject"];
+
+export function normalizeProvisioningPolicy(input: unknown, fallback: ProvisioningPolicy = "auto"): ProvisioningPolicy {
+  const v = String(input || "").trim().toLowerCase();
+  return (POLICIES as readonly string[]).includes(v) ? (v as ProvisioningPolicy) : fallback;
+}
+
+// Checked in order; the first hint found in the decoder output or device name wins.
+const TYPE_HINTS: Array<[DeviceType, RegExp]> = [
+  ["electricity_sml", /\b(sml|obis)\b|1[._]8[._]0|2[._]8[._]0/i],
+  ["electricity_ferraris", /ferraris|kwh|electric|strom|energy/i],
+  ["gas", /\bgas\b|gas[_-]?(meter|volume|zaehler|zähler)/i],
+  ["water", /water|wasser/i],
+];
+
+/** Best guess at the meter type from decoded keys and names; `unknown` when nothing matches. */
+export function guessDeviceType(parsed: Pick<ParsedUplink, "decodedObj" | "deviceName" | "applicationName" | "frmPayload">): DeviceType {
+  // a raw SML frame from a bare relay firmware
+  if (isSmlTransport(parsed.frmPayload)) return "electricity_sml";
+  const haystack = [
+    parsed.decodedObj ? Object.keys(parsed.decodedObj).join(" ") : "",
+    parsed.decodedObj ? JSON.stringify(parsed.decodedObj) : "",
+    parsed.deviceName ?? "",
+    parsed.applicationName ?? "",
+  ].join(" ");
+  const hit = TYPE_HINTS.find(([, re]) => re.test(haystack));
+  return hit ? hit[0] : "unknown";
+}
+
+export type ProvisioningDecision =
+  | { action: "store"; created: ConfiguredDevice | null }
+  | { action: "hold" | "drop"; pending: PendingDevice };
+
+/**
+ * Decide whether an uplink may be stored. Provisioned DevEUIs always pass;
+ * a DevEUI rejected from the inbox is dropped whatever the policy. Held
+ * uplinks stay in the webhook archive and are imported on acceptance.
+ */
+export function provisionUplink(parsed: ParsedUplink & { devEui: string }, policy: ProvisioningPolicy): ProvisioningDecision {
+  if (isProvisionedDevEui(parsed.devEui)) return { action: "store", created: null };
+
+  const guessedType = guessDeviceType(parsed);
+  const previous = getPendingDevice(parsed.devEui);
+  if (policy === "auto" && previous?.status !== "rejected") {
+    // a module whose devices were all closed: the new binding takes over where the last one ended, so this
+    // uplink and delayed or reprocessed ones before it belong to it rather than starting at processing time
+    const created = createConfiguredDevice({
+      dev_eui: parsed.devEui,
+      name: parsed.deviceName ?? "",
+      device_type: guessedType,
+      bound_from: getLastBindingEnd(parsed.devEui),
+    });
+    if (previous) removePendingDevice(parsed.devEui);
+    return { action: "store", created };
+  }
+
+  const pending = notePendingDevice({
+    dev_eui: parsed.devEui,
+    status: policy === "reject" ? "rejected" : "pending",
+    provider: parsed.provider,
+    device_name: parsed.deviceName,
+    application_id: parsed.applicationId,
+    guessed_type: guessedType,
+    at: parsed.at,
+    decoded_json: parsed.decodedObj,
+  });
+  return { action: pending.status === "rejected" ? "drop" : "hold", pending };
+}
@@ -0,0 +1,56 @@
+import type { StoreRegisterInput } from "./db.js";
+import type { SmlRegister } from "./sml.js";
+import type { WmbusRecord } from "./wmbus.js";
+import { numOrNull } from "./adapters/util.js";
+
+// ---- registers (every value a meter reports, not just the primary meter value) ----
+/** Top-level OBIS keys as decoders spell them: `1.8.0`, `obis_1_8_0`, `obis1_8_0`, `1_8_0` */
+const OBIS_KEY = /^(?:obis_?)?(\d{1,3})[._](\d{1,3})[._](\d{1,3})$/i;
+
+function fromSml(registers: SmlRegister[]): StoreRegisterInput[] {
+  return registers.flatMap(r => {
+    if (typeof r.value !== "number") return [];
+    // electricity registers under their short code, energy in kWh like the meter value
+    if (!r.obis.startsWith("1-")) return [{ register: r.obis, unit: r.unit, value: r.value }];
+    if (r.unit === "Wh") return [{ register: r.code, unit: "kWh", value: Number((r.value / 1000).toPrecision(15)) }];
+    return [{ register: r.code, unit: r.unit, value: r.value }];
+  });
+}
+
+/** Current values only: historic storage numbers carry their own date, not the uplink time. */
+function fromWmbus(records: WmbusRecord[]): StoreRegisterInput[] {
+  return records.flatMap(r => {
+    if (typeof r.value !== "number" || r.storage || r.extended || r.function !== "instantaneous") return [];
+    const register = r.quantity + (r.tariff ? `_t${r.tariff}` : "") + (r.subunit ? `_u${r.subunit}` : "");
+    return [{ register, unit: r.unit, value: r.value }];
+  });
+}
+
+function fromObisKeys(decoded: Record<string, unknown>): StoreRegisterInput[] {
+  return Object.entries(decoded).flatMap(([key, raw]) => {
+    const m = OBIS_KEY.exec(key);
+    const value = m ? numOrNull(raw) : null;
+    return m && value != null ? [{ register: `${Number(m[1])}.${Number(m[2])}.${Number(m[3])}`, unit: null, value }] : [];
+  });
+}
+
+/**
+ * Registers in a decoded payload: the register list of the built-in SML and
+ * wM-Bus parsers, otherwise top-level OBIS keys from any decoder. One value
+ * per register and unit; the first one wins.
+ */
+export function extractRegisters(decoded: Record<string, unknown> | null): StoreRegisterInput[] {
+  if (!decoded) return [];
+  let list: StoreRegisterInput[];
+  if (decoded.format === "sml" && Array.isArray(decoded.registers)) list = fromSml(decoded.registers as SmlRegister[]);
+  else if (decoded.format === "wmbus" && Array.isArray(decoded.records)) list = fromWmbus(decoded.records as WmbusRecord[]);
+  else list = fromObisKeys(decoded);
+
+  const seen = new Set<string>();
+  return list.filter(r => {
+    const key = `${r.register}\u0000${r.unit ?? ""}`;
+    if (seen.has(key) || !Number.isFinite(r.value)) return false;
+    seen.add(key);
+    return true;
+  });
+}
@@ -0,0 +1,51 @@
+import { reprocessUplinks } from "./reprocess.js";
+
+// Usage: npm run reprocess -- [--dev-eui <eui>] [--from <iso>] [--to <iso>] [--dry-run] [--json]
+function parseArgs(argv: string[]) {
+  const opts: { devEui?: string; from?: string; to?: string; dryRun: boolean; json: boolean } = { dryRun: false, json: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      const v = argv[++i];
+      if (v == null) throw new Error(`${arg} needs a value`);
+      return v;
+    };
+    if (arg === "--dev-eui") opts.devEui = next();
+    else if (arg === "--from") opts.from = next();
+    else if (arg === "--to") opts.to = next();
+    else if (arg === "--dry-run") opts.dryRun = true;
+    else if (arg === "--json") opts.json = true;
+    else throw new Error(`unknown argument ${arg}`);
+  }
+  return opts;
+}
+
+let args: ReturnType<typeof parseArgs>;
+try {
+  args = parseArgs(process.argv.slice(2));
+} catch (err) {
+  console.error(String((err as any)?.message || err));
+  console.error("usage: npm run reprocess -- [--dev-eui <eui>] [--from <iso>] [--to <iso>] [--dry-run] [--json]");
+  process.exit(2);
+}
+
+const report = reprocessUplinks({ ...args, maxChanges: args.json ? undefined : 200 });
+
+if (args.json) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  console.log(`[REPROCESS] ${report.dryRun ? "dry run" : "applied"} devEui=${report.devEui ?? "(all)"} from=${report.from ?? "-"} to=${report.to ?? "-"}`);
+  console.log(`  scanned: archive=${report.scanned.archive} uplinks=${report.scanned.uplinks} skipped=${report.skipped}`);
+  console.log(`  uplinks: added=${report.uplinks.added} updated=${report.uplinks.updated} unchanged=${report.uplinks.unchanged}`);
+  console.log(`  readings: added=${report.readings.added} updated=${report.readings.updated} removed=${report.readings.removed} unchanged=${report.readings.unchanged}`);
+  console.log(`  receptions: updated=${report.receptions.updated} unchanged=${report.receptions.unchanged}`);
+  console.log(`  registers: updated=${report.registers.updated} unchanged=${report.registers.unchanged}`);
+  for (const c of report.changes) {
+    const fields = Object.entries(c.fields)
+      .filter(([k]) => !k.endsWith("decoded_json"))
+      .map(([k, v]) => `${k}: ${JSON.stringify(v.before)} -> ${JSON.stringify(v.after)}`)
+      .join(", ");
+    console.log(`  ${c.dev_eui} ${c.at} uplink=${c.uplink} reading=${c.reading}${fields ? ` (${fields})` : ""}`);
+  }
+  if (report.truncated) console.log("  ... more changes not shown (use --json for the full list)");
+}
@@ -0,0 +1,302 @@
+import {
+  storeUplink,
+  storeReading,
+  withTransaction,
+  listArchivedWebhooks,
+  listUplinksForReprocess,
+  findUplink,
+  updateUplinkParsedFields,
+  getReadingAt,
+  deleteReadingAt,
+  isProvisionedDevEui,
+  listUplinkReceptionsFor,
+  replaceUplinkReceptions,
+  listRegisterValuesAt,
+  replaceRegisterValues,
+} from "./db.js";
+import type { ReadingRow, StoreReceptionInput, StoreRegisterInput, UplinkRow } from "./db.js";
+import { routeWebhookBody } from "./adapters/index.js";
+import type { ParsedUplink, WebhookContext } from "./adapters/index.js";
+import { toStoreInputs } from "./ingest.js";
+import { applyPayloadDecoder } from "./decoders.js";
+import { applyMeterMapping } from "./meter-mapping.js";
+import { withQuality } from "./validation.js";
+
+// ---- re-run the current parser over archived webhook bodies ----
+const PAGE_SIZE = 500;
+const DEFAULT_MAX_CHANGES = 1000;
+/** Inbox results that came from an uplink body (stored or rejected by the parser at the time). */
+const UPLINK_RESULTS = new Set(["up", "up-invalid", "up-missing", "up-pending", "up-rejected"]);
+
+export interface ReprocessOptions {
+  devEui?: string | null;
+  from?: string;
+  to?: string;
+  /** Compute the diff without writing anything */
+  dryRun?: boolean;
+  /** Cap on the number of change entries returned (counts are always complete) */
+  maxChanges?: number;
+}
+
+export type RowChange = "added" | "updated" | "removed" | "unchanged";
+
+export interface ReprocessChange {
+  dev_eui: string;
+  at: string;
+  deduplication_id: string | null;
+  source: "archive" | "uplinks";
+  uplink: RowChange;
+  reading: RowChange;
+  receptions: "updated" | "unchanged";
+  registers: "updated" | "unchanged";
+  fields: Record<string, { before: unknown; after: unknown }>;
+}
+
+export interface ReprocessReport {
+  dryRun: boolean;
+  devEui: string | null;
+  from: string | null;
+  to: string | null;
+  scanned: { archive: number; uplinks: number };
+  skipped: number;
+  uplinks: Record<Exclude<RowChange, "removed">, number>;
+  readings: Record<RowChange, number>;
+  receptions: { updated: number; unchanged: number };
+  registers: { updated: number; unchanged: number };
+  changes: ReprocessChange[];
+  truncated: boolean;
+}
+
+const UPLINK_FIELDS = [
+  "provider",
+  "device_name",
+  "application_id",
+  "application_name",
+  "meter_value",
+  "meter_value_raw",
+  "battery_mv",
+  "rssi",
+  "snr",
+  "f_cnt",
+  "f_port",
+  "data_rate",
+  "spreading_factor",
+  "frequency",
+  "confirmed",
+  "decoded_json",
+] as const;
+
+const READING_FIELDS = ["meter_value", "meter_value_raw", "battery_mv", "rssi", "snr", "quality", "quality_reasons"] as const;
+
+const RECEPTION_FIELDS = [
+  "gateway_id", "gateway_name", "rssi", "snr", "channel", "received_at", "latitude", "longitude", "altitude",
+] as const;
+
+/** Order-sensitive fingerprint of a reception list, as stored. */
+function receptionsKey(list: StoreReceptionInput[]): string {
+  return JSON.stringify(list.map(r => RECEPTION_FIELDS.map(f => r[f] ?? null)));
+}
+
+/** Order-insensitive fingerprint of an uplink's register values. */
+function registersKey(list: StoreRegisterInput[]): string {
+  return JSON.stringify(list.map(r => [r.register, r.unit ?? "", r.value]).sort());
+}
+
+/** Bring a value into the shape it has after a round-trip through SQLite. */
+function normalizeField(field: string, v: unknown): unknown {
+  if (v == null) return null;
+  if (field === "decoded_json") return typeof v === "string" ? v : JSON.stringify(v);
+  if (field === "meter_value_raw") return String(v);
+  if (field === "confirmed") return v ? 1 : 0;
+  if (field === "battery_mv" || field === "rssi") return Math.round(Number(v));
+  return v;
+}
+
+function diffFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>,
+  fields: readonly string[],
+  prefix: string,
+  out: Record<string, { before: unknown; after: unknown }>
+): boolean {
+  let changed = false;
+  for (const f of fields) {
+    const b = before ? normalizeField(f, before[f]) : null;
+    const a = normalizeField(f, after[f]);
+    if (b !== a) {
+      changed = true;
+      out[`${prefix}.${f}`] = { before: b, after: a };
+    }
+  }
+  return changed;
+}
+
+/**
+ * Rebuild `uplinks` and `readings` from raw bodies: first the webhook archive,
+ * then stored uplinks whose payload predates the archive. Rows are updated in
+ * place, so running it twice yields no further changes.
+ */
+export function reprocessUplinks(opts: ReprocessOptions = {}): ReprocessReport {
+  const dryRun = opts.dryRun ?? false;
+  const devEui = opts.devEui ? String(opts.devEui).trim().toLowerCase() : null;
+  const maxChanges = Math.max(0, opts.maxChanges ?? DEFAULT_MAX_CHANGES);
+
+  const report: ReprocessReport = {
+    dryRun,
+    devEui,
+    from: opts.from ?? null,
+    to: opts.to ?? null,
+    scanned: { archive: 0, uplinks: 0 },
+    skipped: 0,
+    uplinks: { added: 0, updated: 0, unchanged: 0 },
+    readings: { added: 0, updated: 0, removed: 0, unchanged: 0 },
+    receptions: { updated: 0, unchanged: 0 },
+    registers: { updated: 0, unchanged: 0 },
+    changes: [],
+    truncated: false,
+  };
+  const handledUplinkIds = new Set<number>();
+
+  const inRange = (parsed: ParsedUplink & { devEui: string }) => {
+    if (devEui && parsed.devEui !== devEui) return false;
+    if (opts.from && parsed.at < opts.from) return false;
+    if (opts.to && parsed.at > opts.to) return false;
+    return true;
+  };
+
+  const parseBody = (bodyJson: string, ctx: WebhookContext): (ParsedUplink & { devEui: string }) | null => {
+    let body: unknown;
+    try {
+      body = JSON.parse(bodyJson);
+    } catch {
+      return null;
+    }
+    const routed = routeWebhookBody(body, ctx);
+    if (routed.type !== "up" || routed.errors.length || !routed.parsed.devEui) return null;
+    return { ...routed.parsed, devEui: routed.parsed.devEui };
+  };
+
+  const apply = (adapted: ParsedUplink & { devEui: string }, target: UplinkRow | null, source: ReprocessChange["source"]) => {
+    const parsed = applyMeterMapping(applyPayloadDecoder(adapted).parsed);
+    // An existing row keeps its timestamp so the reading key stays stable
+    const at = target?.at ?? parsed.at;
+    const inputs = toStoreInputs({ ...parsed, at });
+    const { uplink, receptions, registers } = inputs;
+    const reading = inputs.reading && withQuality(inputs.reading);
+    const fields: ReprocessChange["fields"] = {};
+
+    let uplinkChange: RowChange;
+    let uplinkId = target?.id ?? null;
+    if (!target) {
+      uplinkChange = "added";
+      diffFields(null, uplink as unknown as Record<string, unknown>, UPLINK_FIELDS, "uplink", fields);
+      if (!dryRun) uplinkId = storeUplink(uplink);
+    } else if (diffFields(target as unknown as Record<string, unknown>, uplink as unknown as Record<string, unknown>, UPLINK_FIELDS, "uplink", fields)) {
+      uplinkChange = "updated";
+      if (!dryRun) updateUplinkParsedFields(target.id, uplink);
+    } else {
+      uplinkChange = "unchanged";
+    }
+    if (target) handledUplinkIds.add(target.id);
+
+    const existing: ReadingRow | null = getReadingAt(parsed.devEui, at);
+    let readingChange: RowChange = "unchanged";
+    if (reading) {
+      if (diffFields(existing as unknown as Record<string, unknown> | null, reading as unknown as Record<string, unknown>, READING_FIELDS, "reading", fields)) {
+        readingChange = existing ? "updated" : "added";
+        if (!dryRun) storeReading(reading);
+      }
+    } else if (existing && (existing.deduplication_id == null || existing.deduplication_id === parsed.deduplicationId)) {
+      // the current parser finds no meter value any more: drop the stale reading
+      readingChange = "removed";
+      fields["reading.meter_value"] = { before: existing.meter_value, after: null };
+      if (!dryRun) deleteReadingAt(parsed.devEui, at);
+    }
+
+    // receptions are replaced as a whole; this also backfills uplinks stored before they were kept
+    const storedReceptions = target ? listUplinkReceptionsFor(target.id) : [];
+    const receptionsChange = receptionsKey(storedReceptions) === receptionsKey(receptions) ? "unchanged" : "updated";
+    if (receptionsChange === "updated") {
+      fields["receptions.count"] = { before: storedReceptions.length, after: receptions.length };
+      if (!dryRun && uplinkId != null) replaceUplinkReceptions(uplinkId, parsed.devEui, at, receptions);
+    }
+
+    const storedRegisters = listRegisterValuesAt(parsed.devEui, at);
+    const registersChange = registersKey(storedRegisters) === registersKey(registers) ? "unchanged" : "updated";
+    if (registersChange === "updated") {
+      fields["registers.count"] = { before: storedRegisters.length, after: registers.length };
+      if (!dryRun) replaceRegisterValues(parsed.devEui, at, registers);
+    }
+
+    report.uplinks[uplinkChange]++;
+    report.readings[readingChange]++;
+    report.receptions[receptionsChange]++;
+    report.registers[registersChange]++;
+    if (
+      uplinkChange === "unchanged" && readingChange === "unchanged" &&
+      receptionsChange === "unchanged" && registersChange === "unchanged"
+    ) return;
+    if (report.changes.length >= maxChanges) {
+      report.truncated = true;
+      return;
+    }
+    report.changes.push({
+      dev_eui: parsed.devEui,
+      at,
+      deduplication_id: parsed.deduplicationId,
+      source,
+      uplink: uplinkChange,
+      reading: readingChange,
+      receptions: receptionsChange,
+      registers: registersChange,
+      fields,
+    });
+  };
+
+  // 1) raw archive (includes bodies that failed or were dead-lettered)
+  for (let afterId = 0; ;) {
+    const page = listArchivedWebhooks({ devEui, from: opts.from, to: opts.to, afterId, limit: PAGE_SIZE });
+    if (!page.length) break;
+    afterId = page[page.length - 1].id;
+
+    withTransaction(() => {
+      for (const item of page) {
+        report.scanned.archive++;
+        if (item.status === "done" && item.result && !UPLINK_RESULTS.has(item.result)) {
+          continue; // network events and ignored bodies are not uplinks
+        }
+        const parsed = parseBody(item.body_json, { path: item.path, event: item.event ?? "" });
+        if (!parsed) {
+          report.skipped++;
+          continue;
+        }
+        if (!inRange(parsed)) continue;
+        // uplinks held back by the provisioning policy wait for acceptance; deleted devices stay deleted
+        if (!isProvisionedDevEui(parsed.devEui)) continue;
+        apply(parsed, findUplink(parsed.devEui, parsed.deduplicationId, parsed.at), "archive");
+      }
+    });
+  }
+
+  // 2) uplinks stored before the archive existed, re-parsed from payload_json
+  for (let afterId = 0; ;) {
+    const page = listUplinksForReprocess({ devEui, from: opts.from, to: opts.to, afterId, limit: PAGE_SIZE });
+    if (!page.length) break;
+    afterId = page[page.length - 1].id;
+
+    withTransaction(() => {
+      for (const row of page) {
+        if (handledUplinkIds.has(row.id)) continue;
+        report.scanned.uplinks++;
+        const parsed = parseBody(row.payload_json ?? "", { path: "", event: "" });
+        if (!parsed || parsed.devEui !== row.dev_eui) {
+          report.skipped++;
+          continue;
+        }
+        apply(parsed, row, "uplinks");
+      }
+    });
+  }
+
+  return report;
+}
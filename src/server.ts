@@ -1,4 +1,4 @@
-import express, { Request, Response } from "express";
+import express, { NextFunction, Request, Response } from "express";
 import dotenv from "dotenv";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
@@ -13,6 +13,7 @@ import {
   getLastUplink,
   countTx,
   deleteDevice,
+  isProvisionedDevEui,
   exportDeviceData,
   deleteDataPoint,
   deleteDataRange,
@@ -28,15 +29,120 @@ import {
   listAnomalies,
   listConfiguredDevices,
   getConfiguredDevice,
+  findOverlappingBinding,
+  rowCursor,
   getDevEuiByUuid,
   createConfiguredDevice,
   updateConfiguredDevice,
   deleteConfiguredDevice,
+  PAYLOAD_FORMATS,
   resetUplinkCount,
   getUplinkCountResetAt,
   resetFailureLogs,
   getFailureLogsResetAt,
+  storeNetworkEvent,
+  listNetworkEvents,
+  getDeviceNetworkStatus,
+  recordDownlink,
+  findOpenDownlink,
+  updateDownlinkStatus,
+  setDownlinkProviderRef,
+  getDownlink,
+  listDownlinks,
+  enqueueWebhook,
+  claimNextInboxItem,
+  completeInboxItem,
+  failInboxItem,
+  requeueStaleInboxItems,
+  pruneInboxItems,
+  withTransaction,
+  listInboxItems,
+  retryInboxItem,
+  getInboxStats,
+  createWebhookCredential,
+  getWebhookCredential,
+  listWebhookCredentials,
+  revokeWebhookCredential,
+  listWebhookAuthFailures,
+  createWebhookSigningSecret,
+  getWebhookSigningSecret,
+  listWebhookSigningSecrets,
+  revokeWebhookSigningSecret,
+  getPendingDevice,
+  listPendingDevices,
+  rejectPendingDevice,
+  removePendingDevice,
+  replaceUplinkReceptions,
+  replaceRegisterValues,
+  listRegisters,
+  listRegisterSeries,
+  getMeterUnit,
+  getDeviceType,
+  listGasConversionFactors,
+  findOverlappingGasFactor,
+  createGasConversionFactor,
+  deleteGasConversionFactor,
+  listMeterInstallations,
+  getMeterInstallation,
+  createMeterInstallation,
+  updateMeterInstallation,
+  deleteMeterInstallation,
+  listMeterOffsets,
+  createMeterOffset,
+  deleteMeterOffset,
+  meterValueAdjuster,
+  getMaxCounterValue,
+  setMaxCounterValue,
+  counterDelta,
+  getCounterLimits,
+  getPreviousReading,
+  getValidationRules,
+  setValidationRules,
+  READING_QUALITIES,
+  listReceptions,
+  getDeviceCoverage,
+  listGateways,
+  getGateway,
+  listGatewayDevices,
+  updateGateway,
+  setGatewayStatus,
+  createPayloadDecoderVersion,
+  getPayloadDecoder,
+  listActivePayloadDecoders,
+  listPayloadDecoderVersions,
+  activatePayloadDecoderVersion,
+  removePayloadDecoder,
+  findActivePayloadDecoder,
+  getUplinkById,
+  findUplink,
+  listMeterMappings,
+  getMeterMapping,
+  upsertMeterMapping,
+  deleteMeterMapping,
+  findMeterMapping,
 } from "./db.js";
+import { routeWebhookBody, listAdapters, TTN_CORRELATION_PREFIX } from "./adapters/index.js";
+import type { NetworkEventKind, ParsedNetworkEvent } from "./adapters/index.js";
+import type { ConfigScope, DeviceType, MeterInstallationInput, RangeQuery, ReadingQuality, MeterMappingInput, GatewayStatus, GatewaySummary, InboxOutcome, PendingDeviceStatus } from "./db.js";
+import { toStoreInputs } from "./ingest.js";
+import { applyPayloadDecoder, checkDecoderScript, decoderInputFor, runDecoder } from "./decoders.js";
+import { applyMeterMapping, normalizeMeterMappingInput } from "./meter-mapping.js";
+import { isWmbusKey } from "./wmbus.js";
+import { normalizeGasFactorInput, withGasEnergy } from "./gas.js";
+import { normalizeMeterInstallationInput, normalizeMeterOffsetInput } from "./meters.js";
+import { normalizeValidationRules, withQuality } from "./validation.js";
+import { checkFrameCounter, getFrameCounterStats } from "./frame-counters.js";
+import { reprocessUplinks } from "./reprocess.js";
+import { normalizeProvisioningPolicy, provisionUplink } from "./provisioning.js";
+import {
+  adminTokenMatches,
+  authorizeWebhook,
+  extractWebhookToken,
+  generateSigningSecret,
+  generateWebhookToken,
+  hashWebhookToken,
+  providerMatches,
+} from "./webhook-auth.js";
 
 dotenv.config();
 
@@ -44,7 +150,13 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const app = express();
-app.use(express.json({ limit: "2mb" }));
+// Webhook bodies keep their raw bytes for HMAC signature verification
+app.use(express.json({
+  limit: "2mb",
+  verify: (req, _res, buf) => {
+    if ((req as Request).originalUrl?.startsWith("/webhooks/")) (req as any).rawBody = Buffer.from(buf);
+  },
+}));
 
 // ---- simple request logger ----
 app.use((req, _res, next) => {
@@ -57,29 +169,32 @@ app.use((req, _res, next) => {
 
 // ---- ENV defaults ----
 const EXPECTED_TOKEN = process.env.CHIRPSTACK_WEBHOOK_TOKEN || "";
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || "";
 const PORT = Number(process.env.PORT || 8000);
 const DEFAULT_TZ = process.env.UI_TIMEZONE || "Europe/Berlin";
 const DEFAULT_DAYS = Number(process.env.UI_DAYS || "30");
 const TTN_DOWNLINK_API_KEY = process.env.TTN_DOWNLINK_API_KEY || "";
 const TTN_API_BASE = (process.env.TTN_API_BASE || "https://eu1.cloud.thethings.network").replace(/\/$/, "");
 const TTN_DEFAULT_F_PORT = Number(process.env.TTN_DEFAULT_F_PORT || "15");
+const TTN_DOWNLINK_TIMEOUT_MS = Math.max(1000, Number(process.env.TTN_DOWNLINK_TIMEOUT_MS || "15000"));
 const AUTO_RECAL_DEFAULT_ENABLED = String(process.env.AUTO_RECAL_DEFAULT_ENABLED || "1") !== "0";
 const AUTO_RECAL_DEFAULT_QMAX_FACTOR = Number(process.env.AUTO_RECAL_DEFAULT_QMAX_FACTOR || "6");
 const AUTO_RECAL_DEFAULT_MIN_JUMP = Number(process.env.AUTO_RECAL_DEFAULT_MIN_JUMP || "100000");
 const AUTO_RECAL_DEFAULT_COOLDOWN_MIN = Number(process.env.AUTO_RECAL_DEFAULT_COOLDOWN_MIN || "180");
+const INBOX_MAX_ATTEMPTS = Math.max(1, Number(process.env.INBOX_MAX_ATTEMPTS || "6"));
+const INBOX_RETRY_BASE_SEC = Math.max(1, Number(process.env.INBOX_RETRY_BASE_SEC || "10"));
+const INBOX_RETRY_MAX_SEC = Math.max(INBOX_RETRY_BASE_SEC, Number(process.env.INBOX_RETRY_MAX_SEC || "3600"));
+const INBOX_POLL_MS = Math.max(500, Number(process.env.INBOX_POLL_MS || "5000"));
+const INBOX_RETENTION_DAYS = Math.max(0, Number(process.env.INBOX_RETENTION_DAYS || "0"));
+const PROVISIONING_POLICY = normalizeProvisioningPolicy(process.env.DEVICE_PROVISIONING_POLICY);
+const GATEWAY_CHECK_MS = Math.max(5000, Number(process.env.GATEWAY_CHECK_MS || "60000"));
+const WEBHOOK_SIGNATURE_TOLERANCE_SEC = Math.max(1, Number(process.env.WEBHOOK_SIGNATURE_TOLERANCE_SEC || "300"));
+const DEBUG_LOG = process.env.DEBUG_LOG === "1";
 
 // ---- helpers ----
-const HEX16 = /^[0-9a-fA-F]{16}$/;
-
-function normalizeDevEui(v: unknown): { hex?: string; base64?: string } {
-  const s = typeof v === "string" ? v.trim() : "";
-  if (!s) return {};
-  if (HEX16.test(s)) return { hex: s.toLowerCase() };
-  try {
-    const buf = Buffer.from(s, "base64");
-    if (buf.length === 8) return { hex: buf.toString("hex"), base64: s };
-  } catch {}
-  return { hex: s.toLowerCase() };
+/** Progress and admin-action logging; failures keep logging unconditionally. */
+function debugLog(message: string): void {
+  if (DEBUG_LOG) console.log(message);
 }
 
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -98,300 +213,47 @@ function resolveDevEui(query: Record<string, unknown>): string | null {
   return raw || null;
 }
 
-function numOrNull(v: unknown): number | null {
-  if (v == null) return null;
-  if (typeof v === "number") return Number.isFinite(v) ? v : null;
-  if (typeof v === "string") {
-    const n = Number(v);
-    return Number.isFinite(n) ? n : null;
-  }
-  return null;
-}
-
-function asRecord(v: unknown): Record<string, unknown> | null {
-  if (!v || typeof v !== "object" || Array.isArray(v)) return null;
-  return v as Record<string, unknown>;
-}
-
-function getDeep(obj: unknown, path: Array<string | number>): unknown {
-  let cur: unknown = obj;
-  for (const seg of path) {
-    if (typeof seg === "number") {
-      if (!Array.isArray(cur) || seg < 0 || seg >= cur.length) return undefined;
-      cur = cur[seg];
-      continue;
-    }
-    const rec = asRecord(cur);
-    if (!rec || !(seg in rec)) return undefined;
-    cur = rec[seg];
-  }
-  return cur;
-}
-
-function firstDefined(obj: unknown, paths: Array<Array<string | number>>): unknown {
-  for (const p of paths) {
-    const v = getDeep(obj, p);
-    if (v !== undefined && v !== null) return v;
+/**
+ * Resolve the devEui and the range a data query covers: `from` / `to`
+ * (inclusive ISO timestamps) and the `before` / `after` paging cursors. A
+ * `uuid` is limited to its device's binding [bound_from, bound_to) of the
+ * DevEUI and has that device's type; a plain devEui sees all of its history
+ * and has the type of the device bound now.
+ */
+function resolveDeviceRange(query: Record<string, unknown>): { devEui: string; range: RangeQuery; deviceType: DeviceType } | null {
+  const range: RangeQuery = {};
+  for (const key of ["from", "to", "before", "after"] as const) {
+    if (query[key]) range[key] = String(query[key]);
   }
-  return undefined;
-}
-
-function parseJsonObject(raw: unknown): Record<string, unknown> | null {
-  if (typeof raw !== "string") return null;
-  try {
-    const v = JSON.parse(raw);
-    return asRecord(v);
-  } catch {
-    return null;
+  const uuid = query.uuid ? String(query.uuid).trim() : "";
+  if (!uuid || !UUID_RE.test(uuid)) {
+    const devEui = resolveDevEui(query);
+    return devEui ? { devEui, range, deviceType: getDeviceType(devEui) } : null;
   }
-}
 
-function decodeBase64Ascii(v: unknown): string | null {
-  if (typeof v !== "string" || !v.trim()) return null;
-  try {
-    return Buffer.from(v, "base64").toString("utf8");
-  } catch {
-    return null;
-  }
+  const device = getConfiguredDevice(uuid);
+  if (!device) return null;
+  if (device.bound_from && (!range.from || range.from < device.bound_from)) range.from = device.bound_from;
+  if (device.bound_to) range.until = device.bound_to;
+  return { devEui: device.dev_eui, range, deviceType: device.device_type };
 }
 
-function findFirstKeyDeep(root: unknown, keys: string[], maxDepth = 4): unknown {
-  const wanted = new Set(keys);
-  const seen = new Set<unknown>();
-  const stack: Array<{ v: unknown; depth: number }> = [{ v: root, depth: 0 }];
-
-  while (stack.length) {
-    const { v, depth } = stack.pop()!;
-    if (v == null || seen.has(v) || depth > maxDepth) continue;
-    seen.add(v);
-
-    if (Array.isArray(v)) {
-      for (const item of v) stack.push({ v: item, depth: depth + 1 });
-      continue;
-    }
-
-    const rec = asRecord(v);
-    if (!rec) continue;
-
-    for (const [k, val] of Object.entries(rec)) {
-      if (wanted.has(k) && val != null) return val;
-      stack.push({ v: val, depth: depth + 1 });
-    }
-  }
-
-  return undefined;
+/** Whether a query names a device; routes where it is optional must not fall back to all devices for an unknown one. */
+function namesDevice(query: Record<string, unknown>): boolean {
+  return !!(query.uuid || query.devEui);
 }
 
-function parseMeterNumber(raw: unknown): { meterValue: number | null; meterValueRaw: string | number | null } {
-  if (typeof raw === "number") {
-    return {
-      meterValue: Number.isFinite(raw) ? raw : null,
-      meterValueRaw: Number.isFinite(raw) ? raw : null,
-    };
-  }
-
-  if (typeof raw === "string") {
-    const s = raw.trim();
-    if (!s) return { meterValue: null, meterValueRaw: null };
-
-    const direct = Number(s.replace(",", "."));
-    if (Number.isFinite(direct)) {
-      return { meterValue: direct, meterValueRaw: s };
-    }
-
-    const compact = s.match(/^(\d{5})(\d{1,3})$/);
-    if (compact) {
-      const normalized = `${compact[1]}.${compact[2]}`;
-      const n = Number(normalized);
-      if (Number.isFinite(n)) return { meterValue: n, meterValueRaw: s };
-    }
-
-    const firstNum = s.replace(",", ".").match(/-?\d+(?:\.\d+)?/);
-    if (firstNum) {
-      const n = Number(firstNum[0]);
-      if (Number.isFinite(n)) return { meterValue: n, meterValueRaw: s };
-    }
-
-    return { meterValue: null, meterValueRaw: s };
-  }
-
-  return { meterValue: null, meterValueRaw: null };
+/** `?limit=` as a positive integer, or the fallback. */
+function parseLimit(value: unknown, fallback?: number): number | undefined {
+  const n = Math.floor(Number(value));
+  return value != null && value !== "" && n >= 1 ? n : fallback;
 }
 
-function bestSignal(rxItems: unknown[]): { rssi: number | null; snr: number | null } {
-  let bestRssi: number | null = null;
-  let bestSnr: number | null = null;
-
-  for (const item of rxItems) {
-    const r = numOrNull(firstDefined(item, [["rssi"], ["channel_rssi"]]));
-    const s = numOrNull(firstDefined(item, [["loRaSNR"], ["loraSNR"], ["snr"]]));
-    if (r == null) continue;
-    if (bestRssi == null || r > bestRssi) {
-      bestRssi = r;
-      bestSnr = s;
-    }
-  }
-
-  return { rssi: bestRssi, snr: bestSnr };
-}
-
-function parseLoRaPayload(up: any) {
-  const provider =
-    up?.end_device_ids ? "ttn" :
-    up?.deviceInfo ? "chirpstack" :
-    up?.device ? "generic-device" :
-    "generic";
-
-  const devEuiRaw = firstDefined(up, [
-    ["deviceInfo", "devEui"],
-    ["end_device_ids", "dev_eui"],
-    ["endDeviceIds", "devEui"],
-    ["device", "devEui"],
-    ["devEui"],
-    ["devEUI"],
-    ["dev_eui"],
-    ["deviceEui"],
-  ]);
-  const { hex: devEui, base64: devEuiB64 } = normalizeDevEui(devEuiRaw);
-
-  const deviceName = (firstDefined(up, [
-    ["deviceInfo", "deviceName"],
-    ["end_device_ids", "device_id"],
-    ["endDeviceIds", "deviceId"],
-    ["device", "name"],
-    ["deviceName"],
-  ]) ?? null) as string | null;
-
-  const applicationId = (firstDefined(up, [
-    ["deviceInfo", "applicationId"],
-    ["end_device_ids", "application_ids", "application_id"],
-    ["endDeviceIds", "applicationIds", "applicationId"],
-    ["applicationId"],
-  ]) ?? null) as string | null;
-
-  const applicationName = (firstDefined(up, [
-    ["deviceInfo", "applicationName"],
-    ["applicationName"],
-  ]) ?? null) as string | null;
-
-  const at = String(
-    firstDefined(up, [
-      ["time"],
-      ["publishedAt"],
-      ["received_at"],
-      ["uplink_message", "received_at"],
-    ]) ?? new Date().toISOString()
-  );
-
-  const dedupRaw =
-    (firstDefined(up, [
-      ["deduplicationId"],
-      ["deduplication_id"],
-      ["uplink_message", "f_cnt"],
-      ["f_cnt"],
-    ]) ?? null) as string | number | null;
-
-  // f_cnt resets when a device restarts/rejoins, so combine it with the
-  // timestamp to avoid falsely deduplicating new uplinks against old ones.
-  // True duplicates (same uplink via multiple gateways) share both f_cnt AND
-  // receive time, so they will still be deduplicated correctly.
-  const deduplicationId =
-    dedupRaw != null ? `${dedupRaw}:${at}` : null;
-
-  const rxCandidates =
-    (Array.isArray(up?.rxInfo) ? up.rxInfo : []).concat(
-      Array.isArray(up?.uplink_message?.rx_metadata) ? up.uplink_message.rx_metadata : []
-    );
-  const signal = bestSignal(rxCandidates);
-  const rssi = signal.rssi ?? numOrNull(firstDefined(up, [["rssi"], ["uplink_message", "rssi"]]));
-  const snr = signal.snr ?? numOrNull(firstDefined(up, [["loRaSNR"], ["loraSNR"], ["snr"], ["uplink_message", "snr"]]));
-
-  const decodedObj =
-    asRecord(firstDefined(up, [["object"], ["decoded_payload"], ["uplink_message", "decoded_payload"]])) ??
-    parseJsonObject(firstDefined(up, [["objectJSON"], ["objectJson"]])) ??
-    null;
-
-  let meterRaw = firstDefined(up, [
-    ["meterValue"],
-    ["meter_value"],
-    ["obis_1_8_0"],
-    ["message"],
-    ["uplink_message", "decoded_payload", "meterValue"],
-    ["uplink_message", "decoded_payload", "obis_1_8_0"],
-  ]);
-
-  if (meterRaw == null && decodedObj) {
-    meterRaw = findFirstKeyDeep(decodedObj, [
-      "meterValue",
-      "meter_value",
-      "obis_1_8_0",
-      "obis1_8_0",
-      "obis_1_8_0_value",
-      "meter",
-      "reading",
-      "counter",
-      "message",
-      "value",
-    ]);
-  }
-
-  if (meterRaw == null) {
-    const frmPayload = firstDefined(up, [["data"], ["frm_payload"], ["uplink_message", "frm_payload"], ["payload_raw"]]);
-    const ascii = decodeBase64Ascii(frmPayload);
-    if (ascii) meterRaw = ascii.replace(/^(\d{5})(\d+)/, "$1.$2");
-  }
-
-  const { meterValue, meterValueRaw } = parseMeterNumber(meterRaw);
-
-  let battery_mv = numOrNull(firstDefined(up, [
-    ["battery_mv"],
-    ["batteryMv"],
-    ["uplink_message", "decoded_payload", "battery_mv"],
-  ]));
-
-  if (battery_mv == null && decodedObj) {
-    battery_mv = numOrNull(findFirstKeyDeep(decodedObj, [
-      "battery_mv",
-      "batteryMv",
-      "battery_mV",
-      "battery",
-      "battery_voltage",
-      "batteryVoltage",
-      "batt",
-      "voltage",
-    ]));
-  }
-
-  // if decoder gives volts (e.g. 3.6), convert to mV
-  if (battery_mv != null && battery_mv > 0 && battery_mv < 20) {
-    battery_mv = Math.round(battery_mv * 1000);
-  }
-
-  return {
-    provider,
-    devEui,
-    devEuiB64,
-    deviceName,
-    applicationId,
-    applicationName,
-    at,
-    deduplicationId: deduplicationId == null ? null : String(deduplicationId),
-    rssi,
-    snr,
-    battery_mv,
-    meterValue,
-    meterValueRaw,
-    decodedObj,
-    payloadObj: up,
-  };
-}
-
-function isWebhookAuthorized(req: Request): boolean {
-  if (!EXPECTED_TOKEN) return true;
-  const apiKey = req.get("X-API-Key") || "";
-  const auth = req.get("Authorization") || "";
-  const bearer = auth.startsWith("Bearer ") ? auth.slice(7).trim() : "";
-  return apiKey === EXPECTED_TOKEN || bearer === EXPECTED_TOKEN;
+/** Cursors of a page's first and last row, for `before` / `after` on the next request. */
+function pageCursors(rows: Array<{ at: string; id?: number }>): { before: string | null; after: string | null } {
+  return rows.length
+    ? { before: rowCursor(rows[0]), after: rowCursor(rows[rows.length - 1]) }
+    : { before: null, after: null };
 }
 
 function csvEscape(v: unknown): string {
@@ -433,7 +295,13 @@ function resolveTtnIdentifiers(devEui: string, overrides?: { applicationId?: str
   return { applicationId, deviceId };
 }
 
+function ttnDownlinkCorrelationId(downlinkId: number): string {
+  return `${TTN_CORRELATION_PREFIX}${downlinkId}`;
+}
+
 async function pushTtnJsonDownlink(input: {
+  devEui: string;
+  purpose: string;
   applicationId: string;
   deviceId: string;
   payloadObj: Record<string, unknown>;
@@ -442,24 +310,50 @@ async function pushTtnJsonDownlink(input: {
 }) {
   const ttnUrl = `${TTN_API_BASE}/api/v3/as/applications/${encodeURIComponent(input.applicationId)}/devices/${encodeURIComponent(input.deviceId)}/down/push`;
   const frmPayload = Buffer.from(JSON.stringify(input.payloadObj), "utf8").toString("base64");
+
+  // Record first so the correlation id can travel with the downlink; TTN
+  // echoes it in downlink_queued/sent/ack/nack/failed webhooks.
+  const downlinkId = recordDownlink({
+    dev_eui: input.devEui,
+    provider: "ttn",
+    application_id: input.applicationId,
+    device_id: input.deviceId,
+    f_port: input.fPort,
+    confirmed: input.confirmed ?? true,
+    payload_json: input.payloadObj,
+    frm_payload: frmPayload,
+    purpose: input.purpose,
+  });
+  const correlationId = ttnDownlinkCorrelationId(downlinkId);
+  setDownlinkProviderRef(downlinkId, correlationId);
+
   const payload = {
     downlinks: [
       {
         f_port: input.fPort,
         confirmed: input.confirmed ?? true,
         frm_payload: frmPayload,
+        correlation_ids: [correlationId],
       },
     ],
   };
 
-  const r = await fetch(ttnUrl, {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${TTN_DOWNLINK_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(payload),
-  });
+  let r: globalThis.Response;
+  try {
+    r = await fetch(ttnUrl, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${TTN_DOWNLINK_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+      // auto-recalibration awaits this inside the inbox worker; a hung TTN call must not stall the queue
+      signal: AbortSignal.timeout(TTN_DOWNLINK_TIMEOUT_MS),
+    });
+  } catch (err) {
+    updateDownlinkStatus(downlinkId, { status: "failed", error: String((err as any)?.message || err) });
+    throw err;
+  }
 
   let responseJson: unknown = null;
   let responseText = "";
@@ -469,15 +363,46 @@ async function pushTtnJsonDownlink(input: {
     try { responseJson = await r.json(); } catch {}
   }
 
+  if (!r.ok) {
+    updateDownlinkStatus(downlinkId, { status: "failed", error: `HTTP ${r.status}: ${responseText.slice(0, 300)}` });
+  }
+
   return {
     ok: r.ok,
     status: r.status,
+    downlinkId,
     frmPayload,
     ttn: responseJson,
     details: responseText,
   };
 }
 
+/** Log a counter wrap (e.g. 99999.9 -> 00000.4) as a rollover instead of letting it look like a drop. */
+function checkCounterRollover(devEui: string, at: string, meterValue: number): void {
+  const limits = getCounterLimits(devEui);
+  const maxCounterValue = limits.maxCounterValue;
+  if (!maxCounterValue) return;
+  const prev = getPreviousReading(devEui, at);
+  if (!prev) return;
+  if (listMeterInstallations(devEui).some(m => m.installed_at > prev.at && m.installed_at <= at)) return;
+
+  const { delta, rollover } = counterDelta(prev, { at, meter_value: meterValue }, limits);
+  if (!rollover) return;
+  storeAnomaly({
+    dev_eui: devEui,
+    at,
+    event_type: "rollover",
+    meter_value: meterValue,
+    previous_value: prev.meter_value,
+    jump: delta,
+    threshold: maxCounterValue,
+    action: "none",
+    details: `Counter wrapped at ${maxCounterValue}: ${prev.meter_value} -> ${meterValue} (+${delta})`,
+  });
+  debugLog(`[ROLLOVER] devEui=${devEui} ${prev.meter_value} -> ${meterValue} wraps at ${maxCounterValue}, delta=${delta}`);
+  pushEvent({ type: "rollover", devEui, meterValue, previousValue: prev.meter_value, delta, maxCounterValue, at });
+}
+
 async function maybeIssueAutoRecalibration(input: {
   devEui: string;
   meterValue: number;
@@ -550,6 +475,8 @@ async function maybeIssueAutoRecalibration(input: {
 
   try {
     const sent = await pushTtnJsonDownlink({
+      devEui: input.devEui,
+      purpose: "auto_recalibrate",
       applicationId: ids.applicationId,
       deviceId: ids.deviceId,
       payloadObj: { recalibrate: 1 },
@@ -639,110 +566,648 @@ app.get("/events", (req, res) => {
   });
 });
 
+// ---- non-uplink network events ----
+type NetworkEventHandler = (ev: ParsedNetworkEvent & { devEui: string }) => void;
+
+function baseEventRecord(ev: ParsedNetworkEvent & { devEui: string }) {
+  return {
+    dev_eui: ev.devEui,
+    at: ev.at,
+    provider: ev.provider,
+    event_type: ev.kind,
+    payload_json: ev.payloadObj,
+  };
+}
+
+/** Apply an ack/txack-style delivery event to the downlink it refers to. */
+function confirmDownlink(
+  ev: ParsedNetworkEvent & { devEui: string },
+  status: "queued" | "sent" | "acked" | "nacked" | "failed",
+  error?: string | null
+): number | null {
+  const downlink = findOpenDownlink(ev.devEui, ev.provider, ev.downlinkRef, ev.downlinkRefRequired ?? false);
+  if (!downlink) return null;
+  updateDownlinkStatus(downlink.id, {
+    status,
+    f_cnt_down: ev.fCntDown ?? null,
+    provider_ref: ev.downlinkRef ?? null,
+    error: error ?? null,
+  });
+  pushEvent({ type: `downlink-${status}`, devEui: ev.devEui, downlinkId: downlink.id, purpose: downlink.purpose, at: ev.at });
+  sseBroadcast({ type: "downlink", devEui: ev.devEui, downlinkId: downlink.id, status });
+  return downlink.id;
+}
+
+const networkEventHandlers: Record<NetworkEventKind, NetworkEventHandler> = {
+  join(ev) {
+    storeNetworkEvent({ ...baseEventRecord(ev), dev_addr: ev.devAddr ?? null });
+    pushEvent({ type: "join", provider: ev.provider, devEui: ev.devEui, devAddr: ev.devAddr, at: ev.at });
+    sseBroadcast({ type: "join", devEui: ev.devEui, at: ev.at });
+    debugLog(`[JOIN] devEui=${ev.devEui} devAddr=${ev.devAddr ?? "(none)"} at=${ev.at}`);
+  },
+
+  status(ev) {
+    storeNetworkEvent({
+      ...baseEventRecord(ev),
+      margin: ev.margin ?? null,
+      battery_level: ev.batteryLevel ?? null,
+      external_power: ev.externalPower == null ? null : (ev.externalPower ? 1 : 0),
+    });
+    pushEvent({ type: "status", devEui: ev.devEui, margin: ev.margin, batteryLevel: ev.batteryLevel, at: ev.at });
+  },
+
+  ack(ev) {
+    const acked = ev.acknowledged === true;
+    const downlinkId = confirmDownlink(ev, acked ? "acked" : "nacked");
+    storeNetworkEvent({
+      ...baseEventRecord(ev),
+      downlink_id: downlinkId,
+      acknowledged: acked ? 1 : 0,
+      f_cnt_down: ev.fCntDown ?? null,
+    });
+  },
+
+  txack(ev) {
+    const downlinkId = confirmDownlink(ev, "sent");
+    storeNetworkEvent({
+      ...baseEventRecord(ev),
+      downlink_id: downlinkId,
+      f_cnt_down: ev.fCntDown ?? null,
+      gateway_id: ev.gatewayId ?? null,
+    });
+  },
+
+  log(ev) {
+    storeNetworkEvent({
+      ...baseEventRecord(ev),
+      level: ev.level ?? null,
+      code: ev.code ?? null,
+      description: ev.description ?? null,
+    });
+    pushEvent({ type: "ns-log", devEui: ev.devEui, level: ev.level, code: ev.code, description: ev.description, at: ev.at });
+    if (ev.level && ev.level.toUpperCase() !== "INFO") {
+      console.warn(`[NS-LOG] devEui=${ev.devEui} level=${ev.level} code=${ev.code ?? "-"} ${ev.description ?? ""}`);
+    }
+  },
+
+  location(ev) {
+    storeNetworkEvent({
+      ...baseEventRecord(ev),
+      latitude: ev.latitude ?? null,
+      longitude: ev.longitude ?? null,
+      altitude: ev.altitude ?? null,
+      description: ev.locationSource ?? null,
+    });
+  },
+
+  downlink_queued(ev) {
+    const downlinkId = confirmDownlink(ev, "queued");
+    storeNetworkEvent({ ...baseEventRecord(ev), downlink_id: downlinkId, f_cnt_down: ev.fCntDown ?? null });
+  },
+
+  downlink_failed(ev) {
+    const downlinkId = confirmDownlink(ev, "failed", ev.description);
+    storeNetworkEvent({
+      ...baseEventRecord(ev),
+      downlink_id: downlinkId,
+      f_cnt_down: ev.fCntDown ?? null,
+      code: ev.code ?? null,
+      description: ev.description ?? null,
+    });
+
+    const downlink = downlinkId != null ? getDownlink(downlinkId) : null;
+    // the anomaly log only holds configured devices
+    if (isProvisionedDevEui(ev.devEui)) storeAnomaly({
+      dev_eui: ev.devEui,
+      at: ev.at,
+      event_type: "downlink_failed",
+      action: downlink?.purpose ?? null,
+      details: `Downlink${downlink ? ` #${downlink.id} (${downlink.purpose ?? "unknown"})` : ""} failed: ${ev.description ?? ev.code ?? "unknown error"}`,
+    });
+    console.warn(`[DOWNLINK] failed devEui=${ev.devEui} downlink=${downlinkId ?? "(unknown)"} ${ev.description ?? ""}`);
+  },
+};
+
+function handleNetworkEvent(ev: ParsedNetworkEvent) {
+  debugLog(`[RECV] provider=${ev.provider} event=${ev.kind} devEui=${ev.devEui ?? ev.devEuiB64 ?? "(missing)"} at=${ev.at}`);
+  if (!ev.devEui) {
+    pushEvent({ type: `${ev.kind}-missing`, provider: ev.provider, at: ev.at });
+    return;
+  }
+  networkEventHandlers[ev.kind]({ ...ev, devEui: ev.devEui });
+}
+
 // ---- webhook (TTN / ChirpStack / generic LoRaWAN → us) ----
-async function handleLoRaWebhook(req: Request, res: Response) {
-  if (!isWebhookAuthorized(req)) {
-    console.warn(`[WARN] Unauthorized POST to ${req.path}`);
-    return res.status(401).send("unauthorized");
+const WEBHOOK_PATHS = ["/webhooks/chirpstack", "/webhooks/ttn", "/webhooks/lorawan"];
+const REDACTED_HEADERS = new Set(["authorization", "x-api-key", "cookie"]);
+
+/** Request headers as archived with the body, credentials redacted. */
+function archivedHeaders(req: Request): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(req.headers)) {
+    if (v == null) continue;
+    out[k] = REDACTED_HEADERS.has(k) ? "[redacted]" : (Array.isArray(v) ? v.join(", ") : String(v));
   }
+  return out;
+}
 
+// Bodies are written to the inbox and acked immediately; parsing, storage,
+// anomaly checks and downlinks happen in the inbox worker below.
+function handleLoRaWebhook(req: Request, res: Response) {
   const event = String(req.query.event || "");
   const up: any = req.body || {};
-  console.log(`[RECV] path=${req.path} event=${event || "(none)"} keys=${Object.keys(up)} length=${JSON.stringify(up).length}`);
 
-  const parsed = parseLoRaPayload(up);
+  const auth = authorizeWebhook({
+    token: extractWebhookToken({ apiKey: req.get("X-API-Key"), authorization: req.get("Authorization") }),
+    legacyToken: EXPECTED_TOKEN,
+    body: up,
+    ctx: { path: req.path, event },
+    signature: {
+      signature: req.get("X-Webhook-Signature") || "",
+      timestamp: req.get("X-Webhook-Timestamp") || "",
+      rawBody: (req as any).rawBody ?? Buffer.alloc(0),
+      toleranceSec: WEBHOOK_SIGNATURE_TOLERANCE_SEC,
+    },
+    ip: (req.headers["x-forwarded-for"] as string) || req.socket.remoteAddress || null,
+  });
+  if (!auth.ok) {
+    console.warn(`[AUTH] rejected POST to ${req.path} credential=${auth.credentialId ?? "-"}: ${auth.reason}`);
+    return res.status(auth.status).send(auth.status === 401 ? "unauthorized" : "forbidden");
+  }
+
+  const bodyJson = JSON.stringify(up);
+  console.log(`[RECV] path=${req.path} event=${event || "(none)"} keys=${Object.keys(up)} length=${bodyJson.length}`);
+
+  try {
+    enqueueWebhook({
+      path: req.path,
+      event,
+      body_json: bodyJson,
+      headers_json: JSON.stringify(archivedHeaders(req)),
+      credential_id: auth.credentialId,
+    });
+  } catch (e) {
+    // Let the network server retry rather than silently losing the body
+    console.error("[ERROR] enqueue failed:", e);
+    return res.status(503).send("unavailable");
+  }
+
+  kickInboxWorker();
+  return res.status(200).send("ok");
+}
+
+/**
+ * Parse and store one webhook body. Returns a short outcome label plus the
+ * device/time it belonged to; throws when storage fails so the inbox worker
+ * can retry.
+ */
+async function processWebhookBody(path: string, event: string, up: any): Promise<InboxOutcome> {
+  const routed = routeWebhookBody(up, { path, event });
+  if (routed.type === "ignored") {
+    debugLog(`[RECV] adapter=${routed.adapter} ignored: ${routed.reason}`);
+    return { result: "ignored" };
+  }
+  if (routed.type === "event") {
+    handleNetworkEvent(routed.event);
+    return { result: routed.event.kind, dev_eui: routed.event.devEui ?? null, at: routed.event.at };
+  }
+
+  const { adapter, parsed, errors } = routed;
   const {
     provider,
     devEui,
     devEuiB64,
     deviceName,
     applicationId,
-    applicationName,
     at,
-    deduplicationId,
     rssi,
     snr,
     battery_mv,
     meterValue,
-    meterValueRaw,
-    decodedObj,
-    payloadObj,
+    fCnt,
   } = parsed;
 
   console.log(
-    `[RECV] provider=${provider} devEui=${devEui ?? devEuiB64 ?? "(missing)"} meter=${meterValue ?? "(null)"} batt=${battery_mv ?? "(null)"}mV rssi=${rssi ?? "(null)"} snr=${snr ?? "(null)"} at=${at}`
+    `[RECV] provider=${provider} devEui=${devEui ?? devEuiB64 ?? "(missing)"} meter=${meterValue ?? "(null)"} batt=${battery_mv ?? "(null)"}mV rssi=${rssi ?? "(null)"} snr=${snr ?? "(null)"} fcnt=${fCnt ?? "(null)"} at=${at}`
   );
 
   if (!devEui) {
     pushEvent({ type: "up-missing", provider, devEui: devEui ?? devEuiB64, meterValue, at });
-    return res.status(200).send("ok");
+    return { result: "up-missing", at };
   }
 
-  try {
-    storeUplink({
-      dev_eui: devEui,
-      at,
-      provider,
-      meter_value: meterValue,
-      meter_value_raw: meterValueRaw,
-      device_name: deviceName,
-      application_id: applicationId,
-      application_name: applicationName,
-      deduplication_id: deduplicationId,
-      battery_mv,
-      rssi,
-      snr,
-      decoded_json: decodedObj,
-      payload_json: payloadObj,
-    });
+  if (errors.length) {
+    console.warn(`[WARN] adapter=${adapter} rejected uplink devEui=${devEui}: ${errors.join("; ")}`);
+    pushEvent({ type: "up-invalid", provider, devEui, errors, at });
+    return { result: "up-invalid", dev_eui: devEui, at };
+  }
+
+  const provisioning = provisionUplink({ ...parsed, devEui }, PROVISIONING_POLICY);
+  if (provisioning.action !== "store") {
+    const result = provisioning.action === "hold" ? "up-pending" : "up-rejected";
+    debugLog(`[PROVISION] devEui=${devEui} not provisioned, policy=${PROVISIONING_POLICY}: ${provisioning.action}`);
+    pushEvent({ type: result, provider, devEui, deviceName, at });
+    if (provisioning.action === "hold" && provisioning.pending.uplink_count === 1) {
+      sseBroadcast({ type: "device-pending", devEui, deviceName, at });
+    }
+    return { result, dev_eui: devEui, at };
+  }
+  if (provisioning.created) {
+    debugLog(`[PROVISION] devEui=${devEui} auto-created uuid=${provisioning.created.uuid} type=${provisioning.created.device_type}`);
+    pushEvent({ type: "device-created", devEui, uuid: provisioning.created.uuid, deviceType: provisioning.created.device_type, at });
+  }
+
+  const decoding = applyPayloadDecoder({ ...parsed, devEui });
+  if (decoding.output?.errors.length) {
+    const { decoder, format, output } = decoding;
+    const source = decoder ? `decoder=${decoder.scope}:${decoder.target} v${decoder.version}` : `format=${format}`;
+    console.warn(`[DECODER] devEui=${devEui} ${source} failed: ${output.errors.join("; ")}`);
+    pushEvent({ type: "decoder-error", devEui, decoderId: decoder?.id ?? null, format, errors: output.errors, at });
+  }
+
+  const mapped = applyMeterMapping(decoding.parsed);
+  const { meterValue: storedMeter, battery_mv: storedBattery } = mapped;
+  const inputs = toStoreInputs(mapped);
+  // all or nothing, so a retry doesn't build on a half-stored uplink
+  const { reading, fcntStep } = withTransaction(() => {
+    const uplinkId = storeUplink(inputs.uplink);
+    replaceUplinkReceptions(uplinkId, devEui, at, inputs.receptions);
+    const reading = inputs.reading ? withQuality(inputs.reading) : null;
+    if (reading) {
+      storeReading(reading);
+      if (reading.quality !== "rejected") checkCounterRollover(devEui, at, reading.meter_value);
+    }
+    if (inputs.registers.length) replaceRegisterValues(devEui, at, inputs.registers);
+    return { reading, fcntStep: checkFrameCounter(devEui, at, fCnt) };
+  });
+  if (reading && reading.quality !== "valid") {
+    console.warn(`[VALIDATE] devEui=${devEui} meter=${reading.meter_value} ${reading.quality}: ${reading.quality_reasons}`);
+    pushEvent({ type: "reading-flagged", devEui, meterValue: reading.meter_value, quality: reading.quality, reasons: reading.quality_reasons, at });
+  }
+  if (fcntStep?.kind === "gap") {
+    console.warn(`[FCNT] devEui=${devEui} ${fcntStep.previous_f_cnt} -> ${fCnt}: ${fcntStep.lost} uplink(s) lost`);
+    pushEvent({ type: "fcnt-gap", devEui, fCnt, previousFCnt: fcntStep.previous_f_cnt, lost: fcntStep.lost, at });
+  } else if (fcntStep?.kind === "reset") {
+    console.warn(`[FCNT] devEui=${devEui} counter reset ${fcntStep.previous_f_cnt} -> ${fCnt}`);
+    pushEvent({ type: "fcnt-reset", devEui, fCnt, previousFCnt: fcntStep.previous_f_cnt, at });
+  }
 
-    if (meterValue != null) {
-      storeReading({
-        dev_eui: devEui,
+  pushEvent({ type: "up", provider, devEui, deviceName, meterValue: storedMeter, battery_mv: storedBattery, rssi, snr, at });
+  sseBroadcast({ type: "up", devEui, deviceName, at, meterValue: storedMeter, battery_mv: storedBattery });
+  console.log(`[STORE] devEui=${devEui} meter=${storedMeter ?? "(null)"} batt=${storedBattery ?? "(null)"}mV at=${at}`);
+
+  // auto-recalibration check; a TTN API failure must not re-run the whole body
+  if (storedMeter != null) {
+    try {
+      await maybeIssueAutoRecalibration({
+        devEui,
+        meterValue: storedMeter,
         at,
-        meter_value: meterValue,
-        meter_value_raw: meterValueRaw,
-        device_name: deviceName,
-        application_id: applicationId,
-        application_name: applicationName,
-        deduplication_id: deduplicationId,
-        battery_mv,
-        rssi,
-        snr,
+        applicationId,
+        deviceId: deviceName,
       });
+    } catch (autoErr) {
+      console.error("[AUTO-RECAL] error:", autoErr);
     }
+  }
+
+  return { result: "up", dev_eui: devEui, at };
+}
 
-    pushEvent({ type: "up", provider, devEui, deviceName, meterValue, battery_mv, rssi, snr, at });
-    sseBroadcast({ type: "up", devEui, deviceName, at, meterValue, battery_mv });
-    console.log(`[STORE] devEui=${devEui} meter=${meterValue ?? "(null)"} batt=${battery_mv ?? "(null)"}mV at=${at}`);
+// ---- inbox worker ----
+let inboxWorkerRunning = false;
+
+function inboxRetryDelayMs(attempts: number): number {
+  return Math.min(INBOX_RETRY_MAX_SEC, INBOX_RETRY_BASE_SEC * 2 ** Math.max(0, attempts - 1)) * 1000;
+}
+
+async function drainInbox() {
+  if (inboxWorkerRunning) return;
+  inboxWorkerRunning = true;
+  try {
+    for (;;) {
+      const item = claimNextInboxItem(new Date().toISOString());
+      if (!item) break;
 
-    // auto-recalibration check
-    if (meterValue != null) {
       try {
-        await maybeIssueAutoRecalibration({
-          devEui,
-          meterValue,
-          at,
-          applicationId,
-          deviceId: deviceName,
-        });
-      } catch (autoErr) {
-        console.error("[AUTO-RECAL] error:", autoErr);
+        const body = JSON.parse(item.body_json);
+        const outcome = await processWebhookBody(item.path, item.event ?? "", body);
+        completeInboxItem(item.id, outcome);
+      } catch (e) {
+        const error = String((e as any)?.message || e);
+        const dead = item.attempts >= INBOX_MAX_ATTEMPTS;
+        const retryAt = dead ? null : new Date(Date.now() + inboxRetryDelayMs(item.attempts)).toISOString();
+        failInboxItem(item.id, error, retryAt);
+        console.error(`[INBOX] item=${item.id} attempt=${item.attempts} ${dead ? "dead-lettered" : `retry at ${retryAt}`}: ${error}`);
+        if (dead) pushEvent({ type: "inbox-dead", inboxId: item.id, path: item.path, error });
       }
     }
-  } catch (e) {
-    console.error("[ERROR] storeReading failed:", e);
+  } finally {
+    inboxWorkerRunning = false;
   }
+}
 
-  return res.status(200).send("ok");
+/** Drop processed bodies past the opt-in retention period; dead-lettered and held ones stay. */
+function sweepInbox() {
+  if (!INBOX_RETENTION_DAYS) return;
+  const before = new Date(Date.now() - INBOX_RETENTION_DAYS * 86_400_000).toISOString();
+  const removed = pruneInboxItems(before);
+  if (removed) debugLog(`[INBOX] pruned ${removed} processed item(s) older than ${INBOX_RETENTION_DAYS} days`);
+}
+
+function kickInboxWorker() {
+  setImmediate(() => {
+    drainInbox().catch(err => console.error("[INBOX] worker error:", err));
+  });
+}
+
+for (const webhookPath of WEBHOOK_PATHS) app.post(webhookPath, handleLoRaWebhook);
+
+// ---- admin endpoints ----
+/**
+ * Guards credential, signing-secret and decoder management. The token comes
+ * from `X-Admin-Token` or `Authorization: Bearer …`; without `ADMIN_TOKEN`
+ * these endpoints stay disabled.
+ */
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!ADMIN_TOKEN) return res.status(403).json({ error: "Admin API disabled; set ADMIN_TOKEN" });
+  const token = extractWebhookToken({ apiKey: req.header("x-admin-token"), authorization: req.header("authorization") });
+  if (!adminTokenMatches(token, ADMIN_TOKEN)) return res.status(401).json({ error: "Admin token required" });
+  next();
+}
+
+app.use(["/api/webhook-credentials", "/api/webhook-auth-failures", "/api/webhook-signing-secrets"], requireAdmin);
+
+// ---- webhook credentials ----
+app.get("/api/webhook-credentials", (_req, res) => {
+  res.json({ credentials: listWebhookCredentials(), legacyTokenConfigured: !!EXPECTED_TOKEN });
+});
+
+app.post("/api/webhook-credentials", (req, res) => {
+  const body = req.body || {};
+  const name = String(body.name || "").trim();
+  if (!name) return res.status(400).json({ error: "name is required" });
+
+  const provider = body.provider ? String(body.provider).trim().toLowerCase() : null;
+  if (provider && !listAdapters().some(id => providerMatches(provider, id))) {
+    return res.status(400).json({ error: `unknown provider "${provider}"` });
+  }
+
+  const rawIds = body.applicationIds ?? [];
+  if (!Array.isArray(rawIds)) return res.status(400).json({ error: "applicationIds must be an array" });
+  const applicationIds = [...new Set(rawIds.map((v: unknown) => String(v).trim()).filter(Boolean))];
+
+  const devEuiPrefix = body.devEuiPrefix ? String(body.devEuiPrefix).trim().toLowerCase() : null;
+  if (devEuiPrefix && !/^[0-9a-f]{1,16}$/.test(devEuiPrefix)) {
+    return res.status(400).json({ error: "devEuiPrefix must be 1-16 hex characters" });
+  }
+
+  const { token, hint } = generateWebhookToken();
+  const credential = createWebhookCredential({
+    name,
+    token_hash: hashWebhookToken(token),
+    token_hint: hint,
+    provider,
+    application_ids: applicationIds,
+    dev_eui_prefix: devEuiPrefix,
+  });
+  debugLog(`[AUTH] created webhook credential id=${credential.id} name=${name}`);
+  // The plain token is only ever returned here
+  return res.status(201).json({ credential, token });
+});
+
+app.delete("/api/webhook-credentials/:id", (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id)) return res.status(400).json({ error: "id must be an integer" });
+  if (!revokeWebhookCredential(id)) return res.status(404).json({ error: "Credential not found or already revoked" });
+  debugLog(`[AUTH] revoked webhook credential id=${id}`);
+  return res.json({ credential: getWebhookCredential(id) });
+});
+
+app.get("/api/webhook-credentials/:id/failures", (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id)) return res.status(400).json({ error: "id must be an integer" });
+  if (!getWebhookCredential(id)) return res.status(404).json({ error: "Credential not found" });
+  const limit = parseLimit(req.query.limit) ?? 100;
+  return res.json({ failures: listWebhookAuthFailures(id, limit) });
+});
+
+// Rejected attempts without a known token (missing or unknown)
+app.get("/api/webhook-auth-failures", (req, res) => {
+  const limit = parseLimit(req.query.limit) ?? 100;
+  res.json({ failures: listWebhookAuthFailures(null, limit) });
+});
+
+// ---- webhook signing secrets (HMAC-SHA256) ----
+app.get("/api/webhook-signing-secrets", (_req, res) => {
+  res.json({ secrets: listWebhookSigningSecrets(), toleranceSec: WEBHOOK_SIGNATURE_TOLERANCE_SEC });
+});
+
+app.post("/api/webhook-signing-secrets", (req, res) => {
+  const body = req.body || {};
+  const name = String(body.name || "").trim();
+  if (!name) return res.status(400).json({ error: "name is required" });
+
+  const rawEndpoint = body.endpoint ? String(body.endpoint).trim() : "";
+  const endpoint = rawEndpoint ? (rawEndpoint.startsWith("/") ? rawEndpoint : `/webhooks/${rawEndpoint}`) : null;
+  const applicationId = body.applicationId ? String(body.applicationId).trim() : null;
+  if (!endpoint === !applicationId) return res.status(400).json({ error: "exactly one of endpoint or applicationId is required" });
+  if (endpoint && !WEBHOOK_PATHS.includes(endpoint)) {
+    return res.status(400).json({ error: `endpoint must be one of ${WEBHOOK_PATHS.join(", ")}` });
+  }
+
+  const { secret, hint } = generateSigningSecret();
+  const created = createWebhookSigningSecret({ name, endpoint, application_id: applicationId, secret, secret_hint: hint });
+  debugLog(`[AUTH] created signing secret id=${created.id} endpoint=${endpoint ?? "-"} application=${applicationId ?? "-"}`);
+  // The secret is only returned here; the signer needs it, so it is stored as is
+  return res.status(201).json({ signingSecret: created, secret });
+});
+
+app.delete("/api/webhook-signing-secrets/:id", (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id)) return res.status(400).json({ error: "id must be an integer" });
+  if (!revokeWebhookSigningSecret(id)) return res.status(404).json({ error: "Signing secret not found or already revoked" });
+  debugLog(`[AUTH] revoked signing secret id=${id}`);
+  return res.json({ signingSecret: getWebhookSigningSecret(id) });
+});
+
+// ---- device provisioning (unknown DevEUIs) ----
+app.get("/api/provisioning", (req, res) => {
+  const status = req.query.status ? String(req.query.status) : null;
+  if (status && status !== "pending" && status !== "rejected") {
+    return res.status(400).json({ error: "status must be pending or rejected" });
+  }
+  res.json({ policy: PROVISIONING_POLICY, devices: listPendingDevices(status as PendingDeviceStatus | null) });
+});
+
+// Accept: create the device and import the uplinks that were held in the archive
+app.post("/api/provisioning/:devEui/accept", (req, res) => {
+  const devEui = String(req.params.devEui || "").trim().toLowerCase();
+  const pending = getPendingDevice(devEui);
+  if (!pending) return res.status(404).json({ error: "No pending device with this devEui" });
+  if (isProvisionedDevEui(devEui)) return res.status(409).json({ error: "A device with this devEui is already configured" });
+
+  // the binding starts at the first held uplink so the import below lands inside it
+  const overlap = findOverlappingBinding(devEui, pending.first_seen_at);
+  if (overlap) {
+    return res.status(409).json({
+      error: `held uplinks overlap the binding of device ${overlap.uuid} (${overlap.bound_from ?? "start"} – ${overlap.bound_to ?? "open"})`,
+    });
+  }
+
+  const body = req.body || {};
+  const device = createConfiguredDevice({
+    dev_eui: devEui,
+    name: String(body.name ?? pending.device_name ?? ""),
+    device_type: String(body.device_type ?? pending.guessed_type),
+    bound_from: pending.first_seen_at,
+  });
+  removePendingDevice(devEui);
+  const report = reprocessUplinks({ devEui, dryRun: false, maxChanges: 0 });
+  debugLog(`[PROVISION] accepted devEui=${devEui} uuid=${device.uuid} imported=${report.uplinks.added}`);
+  sseBroadcast({ type: "device-accepted", devEui, uuid: device.uuid });
+  return res.status(201).json({ device, imported: { uplinks: report.uplinks.added, readings: report.readings.added } });
+});
+
+app.post("/api/provisioning/:devEui/reject", (req, res) => {
+  const devEui = String(req.params.devEui || "").trim().toLowerCase();
+  if (!rejectPendingDevice(devEui)) return res.status(404).json({ error: "No pending device with this devEui" });
+  debugLog(`[PROVISION] rejected devEui=${devEui}`);
+  return res.json({ device: getPendingDevice(devEui) });
+});
+
+// Forget a pending/rejected entry; the next uplink is handled by the policy again
+app.delete("/api/provisioning/:devEui", (req, res) => {
+  const devEui = String(req.params.devEui || "").trim().toLowerCase();
+  if (!removePendingDevice(devEui)) return res.status(404).json({ error: "No pending device with this devEui" });
+  return res.json({ ok: true });
+});
+
+// ---- gateways ----
+// Same rule as getDeviceStatus in the frontend (lib/formatters.ts, lib/constants.ts)
+const STATUS_ACTIVE_MULTIPLIER = 3;
+const STATUS_WARNING_MULTIPLIER = 6;
+
+function computeGatewayStatus(g: GatewaySummary, nowMs = Date.now()): GatewayStatus {
+  if (!g.last_seen) return "inactive";
+  const elapsed = (nowMs - new Date(g.last_seen).getTime()) / 1000;
+  const interval = g.avg_interval_seconds || 3600;
+  if (elapsed <= interval * STATUS_ACTIVE_MULTIPLIER) return "active";
+  if (elapsed <= interval * STATUS_WARNING_MULTIPLIER) return "warning";
+  return "offline";
+}
+
+function withLiveStatus(g: GatewaySummary): GatewaySummary {
+  return { ...g, status: computeGatewayStatus(g) };
+}
+
+/** Persist status changes and raise an event when a gateway that was forwarding goes silent. */
+function checkGatewayHealth() {
+  try {
+    const now = new Date().toISOString();
+    for (const g of listGateways()) {
+      const status = computeGatewayStatus(g);
+      if (status === g.status) continue;
+      setGatewayStatus(g.gateway_id, status, now);
+
+      const label = g.name || g.reported_name || g.gateway_id;
+      if (status === "offline" && (g.status === "active" || g.status === "warning")) {
+        console.warn(`[GATEWAY] ${label} offline, last seen ${g.last_seen}`);
+        pushEvent({ type: "gateway-offline", gatewayId: g.gateway_id, name: label, lastSeen: g.last_seen });
+        sseBroadcast({ type: "gateway-offline", gatewayId: g.gateway_id, name: label, at: now });
+      } else if (g.status === "offline" && status === "active") {
+        debugLog(`[GATEWAY] ${label} back online`);
+        pushEvent({ type: "gateway-online", gatewayId: g.gateway_id, name: label, lastSeen: g.last_seen });
+        sseBroadcast({ type: "gateway-online", gatewayId: g.gateway_id, name: label, at: now });
+      }
+    }
+  } catch (err) {
+    console.error("[GATEWAY] health check failed:", err);
+  }
 }
 
-app.post("/webhooks/chirpstack", handleLoRaWebhook);
-app.post("/webhooks/ttn", handleLoRaWebhook);
-app.post("/webhooks/lorawan", handleLoRaWebhook);
+app.get("/api/gateways", (_req, res) => {
+  res.json({ gateways: listGateways().map(withLiveStatus) });
+});
+
+app.get("/api/gateways/:gatewayId", (req, res) => {
+  const gatewayId = String(req.params.gatewayId || "").trim();
+  const gateway = getGateway(gatewayId);
+  if (!gateway) return res.status(404).json({ error: "Gateway not found" });
+
+  const from = req.query.from ? String(req.query.from) : undefined;
+  const to = req.query.to ? String(req.query.to) : undefined;
+  return res.json({ gateway: withLiveStatus(gateway), devices: listGatewayDevices(gatewayId, from, to) });
+});
+
+app.put("/api/gateways/:gatewayId", (req, res) => {
+  const gatewayId = String(req.params.gatewayId || "").trim();
+  if (!gatewayId) return res.status(400).json({ error: "gatewayId is required" });
+
+  const body = req.body || {};
+  const coord = (v: unknown) => (v == null || v === "" ? null : Number(v));
+  const latitude = body.latitude !== undefined ? coord(body.latitude) : undefined;
+  const longitude = body.longitude !== undefined ? coord(body.longitude) : undefined;
+  const altitude = body.altitude !== undefined ? coord(body.altitude) : undefined;
+  for (const v of [latitude, longitude, altitude]) {
+    if (v != null && !Number.isFinite(v)) return res.status(400).json({ error: "latitude, longitude and altitude must be numbers" });
+  }
+  if ((latitude == null) !== (longitude == null)) {
+    return res.status(400).json({ error: "latitude and longitude must be set together" });
+  }
+
+  const gateway = updateGateway(gatewayId, {
+    name: body.name !== undefined ? String(body.name ?? "").trim() : undefined,
+    latitude,
+    longitude,
+    altitude,
+  });
+  return res.json({ gateway: withLiveStatus(gateway) });
+});
+
+// ---- reprocess archived webhooks with the current parser ----
+app.post("/api/reprocess", (req, res) => {
+  const body = req.body || {};
+  const uuid = body.uuid ? String(body.uuid).trim() : "";
+  const devEui = uuid && UUID_RE.test(uuid)
+    ? getDevEuiByUuid(uuid)
+    : (body.devEui ? String(body.devEui).trim().toLowerCase() : null);
+  if (uuid && !devEui) return res.status(404).json({ error: "Device not found" });
+
+  const from = body.from ? String(body.from) : undefined;
+  const to = body.to ? String(body.to) : undefined;
+  if (from && to && from > to) return res.status(400).json({ error: "from must be <= to" });
+
+  const report = reprocessUplinks({
+    devEui,
+    from,
+    to,
+    dryRun: body.dryRun !== false,
+    maxChanges: body.maxChanges != null ? Number(body.maxChanges) : undefined,
+  });
+  debugLog(`[REPROCESS] dryRun=${report.dryRun} devEui=${devEui ?? "(all)"} uplinks=${JSON.stringify(report.uplinks)} readings=${JSON.stringify(report.readings)}`);
+  if (!report.dryRun) sseBroadcast({ type: "reprocessed", devEui });
+  return res.json(report);
+});
+
+// ---- inbox API ----
+app.get("/api/inbox", (req, res) => {
+  const status = req.query.status ? String(req.query.status) : null;
+  const limit = parseLimit(req.query.limit) ?? 100;
+  res.json({ stats: getInboxStats(), items: listInboxItems(status, limit) });
+});
+
+app.post("/api/inbox/:id/retry", (req, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id)) return res.status(400).json({ error: "id must be an integer" });
+  if (!retryInboxItem(id)) return res.status(404).json({ error: "Inbox item not found or not dead" });
+  kickInboxWorker();
+  return res.json({ id, ok: true });
+});
 
 // debug
 app.get("/debug/last", (_req, res) => res.json({ lastEvents }));
+app.get("/debug/adapters", (_req, res) => res.json({ adapters: listAdapters() }));
 
 // REST API
 app.get("/api/devices", (_req, res) => res.json({ devices: listDevices() }));
@@ -755,13 +1220,13 @@ app.get("/api/device-summaries", (_req, res) => {
   const seenDevEuis = new Set<string>();
   const enriched = summaries.map(s => {
     seenDevEuis.add(s.dev_eui);
-    const cfg = configured.find(c => c.dev_eui === s.dev_eui);
+    const cfg = configured.find(c => c.dev_eui === s.dev_eui && !c.bound_to);
     return { ...s, uuid: cfg?.uuid ?? null };
   });
 
   // Add configured devices that have no data yet (not in readings/uplinks)
   for (const cfg of configured) {
-    if (!seenDevEuis.has(cfg.dev_eui)) {
+    if (!seenDevEuis.has(cfg.dev_eui) && !cfg.bound_to) {
       enriched.push({
         dev_eui: cfg.dev_eui,
         device_name: cfg.name || null,
@@ -792,9 +1257,8 @@ app.put("/api/device-types/:devEui", (req, res) => {
   const devEui = String(req.params.devEui || "").trim().toLowerCase();
   if (!devEui) return res.status(400).json({ error: "devEui is required" });
 
-  const rawType = req.body?.deviceType;
-  const deviceType = normalizeDeviceType(rawType);
-  setDeviceType(devEui, deviceType);
+  const deviceType = setDeviceType(devEui, normalizeDeviceType(req.body?.deviceType));
+  if (!deviceType) return res.status(404).json({ error: "Device not found" });
   return res.json({ devEui, deviceType });
 });
 
@@ -810,22 +1274,48 @@ app.get("/api/configured-devices/:uuid", (req, res) => {
   return res.json({ device });
 });
 
+// A dev_eui that is already bound is reassigned: its current device's binding ends at bound_from (default: now)
 app.post("/api/configured-devices", (req, res) => {
-  const { dev_eui, name, device_type } = req.body || {};
+  const { dev_eui, name, device_type, bound_from } = req.body || {};
   if (!dev_eui) return res.status(400).json({ error: "dev_eui is required" });
   if (!name) return res.status(400).json({ error: "name is required" });
+  const boundFromMs = bound_from == null || bound_from === "" ? null : Date.parse(String(bound_from));
+  if (boundFromMs != null && !Number.isFinite(boundFromMs)) {
+    return res.status(400).json({ error: "bound_from must be a timestamp" });
+  }
+  const boundFrom = boundFromMs == null ? null : new Date(boundFromMs).toISOString();
+
+  const devEui = String(dev_eui).trim().toLowerCase();
+  const overlap = findOverlappingBinding(devEui, boundFrom ?? new Date().toISOString());
+  if (overlap) {
+    return res.status(409).json({
+      error: `overlaps the binding of device ${overlap.uuid} (${overlap.bound_from ?? "start"} – ${overlap.bound_to ?? "open"})`,
+    });
+  }
 
   const device = createConfiguredDevice({
-    dev_eui: String(dev_eui),
+    dev_eui: devEui,
     name: String(name),
     device_type: String(device_type || "unknown"),
+    bound_from: boundFrom,
   });
   return res.status(201).json({ device });
 });
 
 app.put("/api/configured-devices/:uuid", (req, res) => {
-  const { name, device_type } = req.body || {};
-  const device = updateConfiguredDevice(req.params.uuid, { name, device_type });
+  const { name, device_type, payload_format, wmbus_key } = req.body || {};
+  if (payload_format != null && payload_format !== "" && !PAYLOAD_FORMATS.includes(payload_format)) {
+    return res.status(400).json({ error: `payload_format must be one of ${PAYLOAD_FORMATS.join(", ")} or null` });
+  }
+  if (wmbus_key != null && wmbus_key !== "" && !isWmbusKey(wmbus_key)) {
+    return res.status(400).json({ error: "wmbus_key must be an AES-128 key as 32 hex characters" });
+  }
+  const device = updateConfiguredDevice(req.params.uuid, {
+    name,
+    device_type,
+    payload_format: payload_format === undefined ? undefined : payload_format || null,
+    wmbus_key: wmbus_key === undefined ? undefined : wmbus_key || null,
+  });
   if (!device) return res.status(404).json({ error: "Device not found" });
   return res.json({ device });
 });
@@ -833,56 +1323,288 @@ app.put("/api/configured-devices/:uuid", (req, res) => {
 app.delete("/api/configured-devices/:uuid", (req, res) => {
   const deleted = deleteConfiguredDevice(req.params.uuid);
   if (!deleted) return res.status(404).json({ error: "Device not found" });
-  return res.json({ ok: true });
+  return res.json({ ok: true, ...deleted });
 });
 
-app.get("/api/readings", (req, res) => {
-  const devEui = resolveDevEui(req.query as Record<string, unknown>);
-  if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
+/** `?quality=valid,suspect` → the quality flags to keep; absent = all readings. */
+function parseQualityFilter(value: unknown): { qualities: ReadingQuality[] | undefined } | { error: string } {
+  if (value == null || value === "") return { qualities: undefined };
+  const qualities = String(value).split(",").map(q => q.trim()).filter(Boolean);
+  const unknown = qualities.find(q => !(READING_QUALITIES as readonly string[]).includes(q));
+  if (unknown) return { error: `unknown quality "${unknown}" (expected ${READING_QUALITIES.join(", ")})` };
+  return { qualities: qualities as ReadingQuality[] };
+}
 
-  const from = req.query.from ? String(req.query.from) : undefined;
-  const to = req.query.to ? String(req.query.to) : undefined;
-  res.json({ devEui, readings: listReadings(devEui, from, to) });
+app.get("/api/readings", (req, res) => {
+  const resolved = resolveDeviceRange(req.query as Record<string, unknown>);
+  if (!resolved) return res.status(400).json({ error: "devEui or uuid is required" });
+
+  const { devEui, range, deviceType } = resolved;
+  const filter = parseQualityFilter(req.query.quality);
+  if ("error" in filter) return res.status(400).json({ error: filter.error });
+  const rows = listReadings(devEui, { ...range, limit: parseLimit(req.query.limit), qualities: filter.qualities });
+  // total_value: the counter continued across meter replacements and offsets
+  const adjust = meterValueAdjuster(devEui, range);
+  const readings = rows.map(r => ({
+    ...r,
+    total_value: r.meter_value == null ? null : adjust(r.at, r.meter_value),
+  }));
+  res.json({ devEui, unit: getMeterUnit(devEui, deviceType), readings, cursors: pageCursors(rows) });
 });
 
 app.get("/api/uplinks", (req, res) => {
-  const devEui = resolveDevEui(req.query as Record<string, unknown>);
-  if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
+  const resolved = resolveDeviceRange(req.query as Record<string, unknown>);
+  if (!resolved) return res.status(400).json({ error: "devEui or uuid is required" });
 
-  const from = req.query.from ? String(req.query.from) : undefined;
-  const to = req.query.to ? String(req.query.to) : undefined;
-  const limit = req.query.limit ? Math.max(1, Number(req.query.limit)) : 500;
-
-  const uplinks = listUplinks(devEui, from, to, limit).map((u) => ({
+  const { devEui, range } = resolved;
+  const rows = listUplinks(devEui, { ...range, limit: parseLimit(req.query.limit, 500) });
+  const uplinks = rows.map((u) => ({
     ...u,
     decoded_json: typeof u.decoded_json === "string" ? (() => { try { return JSON.parse(u.decoded_json); } catch { return null; } })() : null,
     payload_json: typeof u.payload_json === "string" ? (() => { try { return JSON.parse(u.payload_json); } catch { return null; } })() : null,
   }));
 
-  return res.json({ devEui, uplinks });
+  return res.json({ devEui, uplinks, cursors: pageCursors(rows) });
+});
+
+// Per-gateway receptions of a device's uplinks
+app.get("/api/receptions", (req, res) => {
+  const resolved = resolveDeviceRange(req.query as Record<string, unknown>);
+  if (!resolved) return res.status(400).json({ error: "devEui or uuid is required" });
+
+  const { devEui, range } = resolved;
+  const limit = parseLimit(req.query.limit) ?? 1000;
+  res.json({ devEui, receptions: listReceptions(devEui, range, limit) });
+});
+
+// Which gateways hear a device, how often, and how many uplinks depend on a single gateway
+app.get("/api/device-gateways", (req, res) => {
+  const resolved = resolveDeviceRange(req.query as Record<string, unknown>);
+  if (!resolved) return res.status(400).json({ error: "devEui or uuid is required" });
+  res.json(getDeviceCoverage(resolved.devEui, resolved.range));
 });
 
 app.get("/api/consumption/daily", (req, res) => {
-  const devEui = resolveDevEui(req.query as Record<string, unknown>);
-  if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
+  const resolved = resolveDeviceRange({ ...req.query, from: undefined, to: undefined, before: undefined, after: undefined });
+  if (!resolved) return res.status(400).json({ error: "devEui or uuid is required" });
+  const devEui = resolved.devEui;
 
   const days = req.query.days ? Number(req.query.days) : DEFAULT_DAYS;
   const tz = req.query.tz ? String(req.query.tz) : DEFAULT_TZ;
   const end = req.query.end ? String(req.query.end) : undefined;
+  // any stored register instead of the primary meter value, e.g. ?register=2.8.0
+  const register = req.query.register ? String(req.query.register) : undefined;
+  const unit = req.query.unit !== undefined ? String(req.query.unit) : undefined;
+  const filter = parseQualityFilter(req.query.quality);
+  if ("error" in filter) return res.status(400).json({ error: filter.error });
+
+  const series = dailyConsumption(devEui, days, tz, end, register ? { register, unit } : undefined, filter.qualities, resolved.range);
+  if (register) {
+    const seriesUnit = unit !== undefined ? unit || null : listRegisters(devEui, resolved.range).find(r => r.register === register)?.unit ?? null;
+    return res.json({ devEui, days, tz, register, unit: seriesUnit, energy_unit: null, series });
+  }
 
-  res.json({ devEui, days, tz, series: dailyConsumption(devEui, days, tz, end) });
+  // gas volumes also in kWh, per the conversion factor in force on each day
+  const meterUnit = getMeterUnit(devEui, resolved.deviceType);
+  if (resolved.deviceType === "gas" && meterUnit === "m³") {
+    const withEnergy = withGasEnergy(series, listGasConversionFactors(devEui));
+    return res.json({ devEui, days, tz, register: null, unit: meterUnit, energy_unit: "kWh", series: withEnergy });
+  }
+  return res.json({ devEui, days, tz, register: null, unit: meterUnit, energy_unit: null, series });
 });
 
-app.get("/api/last-reading", (req, res) => {
+// ---- gas conversion factors ----
+app.get("/api/gas-factors", (req, res) => {
   const devEui = resolveDevEui(req.query as Record<string, unknown>);
   if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
-  res.json({ devEui, last: getLastReading(devEui) });
+  return res.json({ devEui, factors: listGasConversionFactors(devEui) });
 });
 
-app.get("/api/last-uplink", (req, res) => {
+app.post("/api/gas-factors", (req, res) => {
+  const body = req.body || {};
+  const devEui = resolveDevEui(body);
+  if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
+  const input = normalizeGasFactorInput(devEui, body);
+  if ("error" in input) return res.status(400).json({ error: input.error });
+
+  const { valid_from, valid_to } = input.factor;
+  const overlap = findOverlappingGasFactor(devEui, valid_from, valid_to);
+  if (overlap) {
+    return res.status(409).json({
+      error: `overlaps factor ${overlap.id} (${overlap.valid_from} – ${overlap.valid_to ?? "open"}); close or delete it first`,
+    });
+  }
+  return res.status(201).json({ factor: createGasConversionFactor(input.factor) });
+});
+
+app.delete("/api/gas-factors/:id", (req, res) => {
+  if (!deleteGasConversionFactor(Number(req.params.id))) return res.status(404).json({ error: "Factor not found" });
+  return res.json({ ok: true });
+});
+
+// ---- reading validation ----
+app.get("/api/validation-rules", (req, res) => {
   const devEui = resolveDevEui(req.query as Record<string, unknown>);
   if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
-  const last = getLastUplink(devEui);
+  return res.json({ devEui, rules: getValidationRules(devEui) });
+});
+
+// Replaces the device's chain; [] switches validation off
+app.put("/api/validation-rules", (req, res) => {
+  const body = req.body || {};
+  const devEui = resolveDevEui(body);
+  if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
+  if (!isProvisionedDevEui(devEui)) return res.status(404).json({ error: "Device not found" });
+  const parsed = normalizeValidationRules(body.rules);
+  if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+  setValidationRules(devEui, parsed.rules);
+  return res.json({ devEui, rules: parsed.rules });
+});
+
+// ---- meter lifecycle (counter size, replacements, offset corrections) ----
+app.get("/api/counter-settings", (req, res) => {
+  const devEui = resolveDevEui(req.query as Record<string, unknown>);
+  if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
+  return res.json({ devEui, max_counter_value: getMaxCounterValue(devEui) });
+});
+
+// Where the counter wraps: max_counter_value (e.g. 100000), or counter_digits before the decimal point; null = never
+app.put("/api/counter-settings", (req, res) => {
+  const body = req.body || {};
+  const devEui = resolveDevEui(body);
+  if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
+  if (!isProvisionedDevEui(devEui)) return res.status(404).json({ error: "Device not found" });
+
+  let maxCounterValue: number | null = null;
+  if (body.counter_digits != null && body.counter_digits !== "") {
+    const digits = Number(body.counter_digits);
+    if (!Number.isInteger(digits) || digits < 1 || digits > 12) {
+      return res.status(400).json({ error: "counter_digits must be an integer between 1 and 12" });
+    }
+    maxCounterValue = 10 ** digits;
+  } else if (body.max_counter_value != null && body.max_counter_value !== "") {
+    maxCounterValue = Number(body.max_counter_value);
+    if (!Number.isFinite(maxCounterValue) || maxCounterValue <= 0) {
+      return res.status(400).json({ error: "max_counter_value must be a positive number or null" });
+    }
+  }
+  setMaxCounterValue(devEui, maxCounterValue);
+  return res.json({ devEui, max_counter_value: maxCounterValue });
+});
+
+app.get("/api/meters", (req, res) => {
+  const devEui = resolveDevEui(req.query as Record<string, unknown>);
+  if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
+  return res.json({ devEui, installations: listMeterInstallations(devEui), offsets: listMeterOffsets(devEui) });
+});
+
+// Record a meter swap, also after the fact. previous_end_reading closes the meter in force at installed_at.
+app.post("/api/meters", (req, res) => {
+  const body = req.body || {};
+  const devEui = resolveDevEui(body);
+  if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
+  const parsed = normalizeMeterInstallationInput(body);
+  if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+  const input = parsed.input as MeterInstallationInput;
+  const previousEnd = body.previous_end_reading == null || body.previous_end_reading === "" ? null : Number(body.previous_end_reading);
+  if (previousEnd != null && !Number.isFinite(previousEnd)) {
+    return res.status(400).json({ error: "previous_end_reading must be a number" });
+  }
+
+  const existing = listMeterInstallations(devEui);
+  if (existing.some(m => m.installed_at === input.installed_at)) {
+    return res.status(409).json({ error: `a meter is already installed at ${input.installed_at}` });
+  }
+  if (previousEnd != null) {
+    const previous = [...existing].reverse().find(m => m.installed_at < input.installed_at);
+    if (previous) {
+      updateMeterInstallation(previous.id, { end_reading: previousEnd });
+    } else {
+      // first recorded swap: keep the old meter's end reading on an open-ended record for it
+      createMeterInstallation(devEui, {
+        serial: String(body.previous_serial ?? "").trim(),
+        installed_at: new Date(0).toISOString(),
+        start_reading: null,
+        end_reading: previousEnd,
+        comment: null,
+      });
+    }
+  }
+  return res.status(201).json({ meter: createMeterInstallation(devEui, input) });
+});
+
+app.put("/api/meters/:id", (req, res) => {
+  const id = Number(req.params.id);
+  const existing = getMeterInstallation(id);
+  if (!existing) return res.status(404).json({ error: "Meter not found" });
+  const parsed = normalizeMeterInstallationInput(req.body || {}, true);
+  if ("error" in parsed) return res.status(400).json({ error: parsed.error });
+  const { installed_at } = parsed.input;
+  if (installed_at && listMeterInstallations(existing.dev_eui).some(m => m.id !== id && m.installed_at === installed_at)) {
+    return res.status(409).json({ error: `a meter is already installed at ${installed_at}` });
+  }
+  return res.json({ meter: updateMeterInstallation(id, parsed.input) });
+});
+
+app.delete("/api/meters/:id", (req, res) => {
+  if (!deleteMeterInstallation(Number(req.params.id))) return res.status(404).json({ error: "Meter not found" });
+  return res.json({ ok: true });
+});
+
+app.post("/api/meter-offsets", (req, res) => {
+  const body = req.body || {};
+  const devEui = resolveDevEui(body);
+  if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
+  const input = normalizeMeterOffsetInput(devEui, body);
+  if ("error" in input) return res.status(400).json({ error: input.error });
+  return res.status(201).json({ offset: createMeterOffset(input.offset) });
+});
+
+app.delete("/api/meter-offsets/:id", (req, res) => {
+  if (!deleteMeterOffset(Number(req.params.id))) return res.status(404).json({ error: "Offset not found" });
+  return res.json({ ok: true });
+});
+
+// ---- register values (all registers a meter reports) ----
+app.get("/api/registers", (req, res) => {
+  const resolved = resolveDeviceRange({ ...req.query, from: undefined, to: undefined, before: undefined, after: undefined });
+  if (!resolved) return res.status(400).json({ error: "devEui or uuid is required" });
+  return res.json({ devEui: resolved.devEui, registers: listRegisters(resolved.devEui, resolved.range) });
+});
+
+app.get("/api/register-values", (req, res) => {
+  const resolved = resolveDeviceRange({ ...req.query, before: undefined, after: undefined });
+  if (!resolved) return res.status(400).json({ error: "devEui or uuid is required" });
+
+  const { devEui, range } = resolved;
+  const from = req.query.from ? String(req.query.from) : undefined;
+  const to = req.query.to ? String(req.query.to) : undefined;
+  const limit = req.query.limit ? Math.min(100000, Math.max(1, Number(req.query.limit) || 1)) : undefined;
+  // ?register=1.8.0,2.8.0 picks registers; default is every register of the device
+  const wanted = req.query.register ? String(req.query.register).split(",").map(r => r.trim()).filter(Boolean) : null;
+
+  const registers = listRegisters(devEui, range)
+    .filter(r => !wanted || wanted.includes(r.register))
+    .map(r => ({
+      register: r.register,
+      unit: r.unit,
+      points: listRegisterSeries(devEui, r.register, { unit: r.unit, from: range.from, to: range.to, until: range.until, limit }),
+    }));
+  return res.json({ devEui, from: from ?? null, to: to ?? null, registers });
+});
+
+app.get("/api/last-reading", (req, res) => {
+  const resolved = resolveDeviceRange({ ...req.query, from: undefined, to: undefined, before: undefined, after: undefined });
+  if (!resolved) return res.status(400).json({ error: "devEui or uuid is required" });
+  const { devEui, range, deviceType } = resolved;
+  res.json({ devEui, unit: getMeterUnit(devEui, deviceType), last: getLastReading(devEui, range) });
+});
+
+app.get("/api/last-uplink", (req, res) => {
+  const resolved = resolveDeviceRange({ ...req.query, from: undefined, to: undefined, before: undefined, after: undefined });
+  if (!resolved) return res.status(400).json({ error: "devEui or uuid is required" });
+  const devEui = resolved.devEui;
+  const last = getLastUplink(devEui, resolved.range);
   if (!last) return res.json({ devEui, last: null });
 
   return res.json({
@@ -896,11 +1618,14 @@ app.get("/api/last-uplink", (req, res) => {
 });
 
 app.get("/api/tx-count", (req, res) => {
-  const devEui = resolveDevEui(req.query as Record<string, unknown>);
   const from = String(req.query.from || "");
   const to = String(req.query.to || "");
   if (!from || !to) return res.status(400).json({ error: "from and to are required (ISO timestamps)" });
-  res.json({ devEui, from, to, count: countTx(devEui, from, to) });
+  const query = { ...req.query, before: undefined, after: undefined } as Record<string, unknown>;
+  const resolved = resolveDeviceRange(query);
+  if (!resolved && namesDevice(query)) return res.status(400).json({ error: "unknown device" });
+  const devEui = resolved?.devEui ?? null;
+  res.json({ devEui, from, to, count: countTx(devEui, resolved?.range ?? { from, to }) });
 });
 
 app.post("/api/downlink/upload-interval", async (req, res) => {
@@ -946,6 +1671,8 @@ app.post("/api/downlink/upload-interval", async (req, res) => {
 
   try {
     const sent = await pushTtnJsonDownlink({
+      devEui,
+      purpose: "upload_interval",
       applicationId: ids.applicationId,
       deviceId: ids.deviceId,
       payloadObj: downlinkObj,
@@ -971,6 +1698,7 @@ app.post("/api/downlink/upload-interval", async (req, res) => {
       fPort,
       confirmed: true,
       downlinkPayload: downlinkObj,
+      downlinkId: sent.downlinkId,
       frm_payload: sent.frmPayload,
       ttn: sent.ttn,
     });
@@ -988,6 +1716,7 @@ app.post("/api/downlink/recalibrate", async (req, res) => {
   const fPort = Number(fPortRaw);
 
   if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
+  if (!isProvisionedDevEui(devEui)) return res.status(404).json({ error: "Device not found" });
   if (!Number.isInteger(fPort) || fPort < 1 || fPort > 255) {
     return res.status(400).json({ error: "fPort must be an integer between 1 and 255" });
   }
@@ -1008,6 +1737,8 @@ app.post("/api/downlink/recalibrate", async (req, res) => {
 
   try {
     const sent = await pushTtnJsonDownlink({
+      devEui,
+      purpose: "manual_recalibrate",
       applicationId: ids.applicationId,
       deviceId: ids.deviceId,
       payloadObj: { recalibrate: 1 },
@@ -1040,6 +1771,7 @@ app.post("/api/downlink/recalibrate", async (req, res) => {
       applicationId: ids.applicationId,
       deviceId: ids.deviceId,
       fPort,
+      downlinkId: sent.downlinkId,
       ttn: sent.ttn,
     });
   } catch (err: any) {
@@ -1047,12 +1779,214 @@ app.post("/api/downlink/recalibrate", async (req, res) => {
   }
 });
 
+// ---- network events / downlink state API ----
+app.get("/api/network-events", (req, res) => {
+  const query = { ...req.query, from: undefined, to: undefined, before: undefined, after: undefined } as Record<string, unknown>;
+  const resolved = resolveDeviceRange(query);
+  if (!resolved && namesDevice(query)) return res.status(400).json({ error: "unknown device" });
+  const devEui = resolved?.devEui ?? null;
+  const type = req.query.type ? String(req.query.type) : null;
+  const limit = parseLimit(req.query.limit) ?? 200;
+  return res.json({ devEui, type, events: listNetworkEvents(devEui, type, limit, resolved?.range) });
+});
+
+app.get("/api/network-status", (req, res) => {
+  const resolved = resolveDeviceRange({ ...req.query, from: undefined, to: undefined, before: undefined, after: undefined });
+  if (!resolved) return res.status(400).json({ error: "devEui or uuid is required" });
+  return res.json({ devEui: resolved.devEui, status: getDeviceNetworkStatus(resolved.devEui, resolved.range) });
+});
+
+app.get("/api/downlinks", (req, res) => {
+  const query = { ...req.query, from: undefined, to: undefined, before: undefined, after: undefined } as Record<string, unknown>;
+  const resolved = resolveDeviceRange(query);
+  if (!resolved && namesDevice(query)) return res.status(400).json({ error: "unknown device" });
+  const devEui = resolved?.devEui ?? null;
+  const limit = parseLimit(req.query.limit) ?? 100;
+  return res.json({ devEui, downlinks: listDownlinks(devEui, limit, resolved?.range) });
+});
+
+// ---- payload decoders ----
+/** Decoder / mapping targets: `device` accepts a DevEUI or UUID, `device_type` a known type. */
+function resolveConfigTarget(scopeRaw: unknown, targetRaw: unknown): { scope: ConfigScope; target: string } | { error: string } {
+  const scope = String(scopeRaw || "").trim().toLowerCase();
+  const raw = String(targetRaw || "").trim();
+  if (scope === "device") {
+    const devEui = UUID_RE.test(raw) ? getDevEuiByUuid(raw) : raw.toLowerCase();
+    return devEui ? { scope, target: devEui } : { error: "unknown device" };
+  }
+  if (scope === "device_type") {
+    const type = raw.toLowerCase();
+    if (normalizeDeviceType(type) !== type) return { error: `unknown device type "${raw}"` };
+    return { scope, target: type };
+  }
+  return { error: "scope must be device or device_type" };
+}
+
+app.get("/api/decoders", (req, res) => {
+  const scope = req.query.scope ? String(req.query.scope) : null;
+  if (scope && scope !== "device" && scope !== "device_type") {
+    return res.status(400).json({ error: "scope must be device or device_type" });
+  }
+  res.json({ decoders: listActivePayloadDecoders(scope as ConfigScope | null) });
+});
+
+app.get("/api/decoders/:scope/:target", (req, res) => {
+  const t = resolveConfigTarget(req.params.scope, req.params.target);
+  if ("error" in t) return res.status(400).json({ error: t.error });
+  res.json({ ...t, versions: listPayloadDecoderVersions(t.scope, t.target) });
+});
+
+app.put("/api/decoders/:scope/:target", requireAdmin, (req, res) => {
+  const t = resolveConfigTarget(req.params.scope, req.params.target);
+  if ("error" in t) return res.status(400).json({ error: t.error });
+  const script = typeof req.body?.script === "string" ? req.body.script : "";
+  if (!script.trim()) return res.status(400).json({ error: "script is required" });
+  const compileError = checkDecoderScript(script);
+  if (compileError) return res.status(400).json({ error: `script does not compile: ${compileError}` });
+
+  const decoder = createPayloadDecoderVersion({
+    ...t,
+    script,
+    comment: req.body?.comment ? String(req.body.comment).trim() : null,
+  });
+  debugLog(`[DECODER] ${t.scope}:${t.target} saved as v${decoder.version}`);
+  res.status(201).json({ decoder });
+});
+
+app.post("/api/decoders/:id/activate", requireAdmin, (req, res) => {
+  const decoder = activatePayloadDecoderVersion(Number(req.params.id));
+  if (!decoder) return res.status(404).json({ error: "decoder not found" });
+  debugLog(`[DECODER] ${decoder.scope}:${decoder.target} switched to v${decoder.version}`);
+  res.json({ decoder });
+});
+
+app.delete("/api/decoders/:scope/:target", requireAdmin, (req, res) => {
+  const t = resolveConfigTarget(req.params.scope, req.params.target);
+  if ("error" in t) return res.status(400).json({ error: t.error });
+  res.json({ ...t, deleted: removePayloadDecoder(t.scope, t.target) });
+});
+
+/**
+ * Run a decoder against a stored uplink without changing anything. The
+ * uplink is picked by `uplinkId` or `devEui`/`uuid` + `at`; the script is
+ * `script`, a saved version (`decoderId`) or the device's active decoder.
+ */
+app.post("/api/decoders/test", requireAdmin, (req, res) => {
+  const body = req.body || {};
+  let uplink = body.uplinkId != null ? getUplinkById(Number(body.uplinkId)) : null;
+  if (!uplink && body.at) {
+    const devEui = resolveDevEui(body as Record<string, unknown>);
+    if (devEui) uplink = findUplink(devEui, null, String(body.at));
+  }
+  if (!uplink) return res.status(404).json({ error: "uplink not found" });
+
+  let payload: unknown = null;
+  try {
+    payload = uplink.payload_json ? JSON.parse(uplink.payload_json) : null;
+  } catch {}
+  const routed = routeWebhookBody(payload, { path: "", event: "" });
+  if (routed.type !== "up" || !routed.parsed.frmPayload?.length) {
+    return res.status(422).json({ error: "stored uplink has no raw payload" });
+  }
+
+  const decoder = typeof body.script === "string"
+    ? null
+    : body.decoderId != null
+      ? getPayloadDecoder(Number(body.decoderId))
+      : findActivePayloadDecoder(uplink.dev_eui);
+  const script = typeof body.script === "string" ? body.script : decoder?.script;
+  if (!script) return res.status(404).json({ error: "no decoder to test" });
+
+  const input = decoderInputFor({ ...routed.parsed, at: uplink.at });
+  res.json({
+    uplinkId: uplink.id,
+    devEui: uplink.dev_eui,
+    decoder: decoder ? { id: decoder.id, scope: decoder.scope, target: decoder.target, version: decoder.version } : null,
+    input: { ...input, bytesHex: routed.parsed.frmPayload.toString("hex") },
+    output: runDecoder(script, input),
+    stored: uplink.decoded_json ? JSON.parse(uplink.decoded_json) : null,
+  });
+});
+
+// ---- meter-value mappings ----
+app.get("/api/meter-mappings", (_req, res) => {
+  res.json({ mappings: listMeterMappings() });
+});
+
+app.get("/api/meter-mappings/:scope/:target", (req, res) => {
+  const t = resolveConfigTarget(req.params.scope, req.params.target);
+  if ("error" in t) return res.status(400).json({ error: t.error });
+  const mapping = getMeterMapping(t.scope, t.target);
+  if (!mapping) return res.status(404).json({ error: "mapping not found" });
+  res.json({ mapping });
+});
+
+app.put("/api/meter-mappings/:scope/:target", (req, res) => {
+  const t = resolveConfigTarget(req.params.scope, req.params.target);
+  if ("error" in t) return res.status(400).json({ error: t.error });
+  const input = normalizeMeterMappingInput(req.body);
+  if ("error" in input) return res.status(400).json({ error: input.error });
+  res.json({ mapping: upsertMeterMapping(t.scope, t.target, input.mapping) });
+});
+
+app.delete("/api/meter-mappings/:scope/:target", (req, res) => {
+  const t = resolveConfigTarget(req.params.scope, req.params.target);
+  if ("error" in t) return res.status(400).json({ error: t.error });
+  res.json({ ...t, deleted: deleteMeterMapping(t.scope, t.target) });
+});
+
+/**
+ * What a mapping would make of a device's recent uplinks, next to what is
+ * stored. Uses `mapping` from the body when given (unsaved draft), otherwise
+ * the device's effective mapping.
+ */
+app.post("/api/meter-mappings/preview", (req, res) => {
+  const body = req.body || {};
+  const devEui = resolveDevEui(body as Record<string, unknown>);
+  if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
+
+  let mapping: MeterMappingInput | null = findMeterMapping(devEui);
+  if (body.mapping) {
+    const input = normalizeMeterMappingInput(body.mapping);
+    if ("error" in input) return res.status(400).json({ error: input.error });
+    mapping = input.mapping;
+  }
+  const limit = Math.min(200, Math.max(1, Number(body.limit) || 20));
+
+  const rows = listUplinks(devEui, { limit }).reverse().map(u => {
+    let payload: unknown = null;
+    try {
+      payload = u.payload_json ? JSON.parse(u.payload_json) : null;
+    } catch {}
+    const routed = routeWebhookBody(payload, { path: "", event: "" });
+    if (routed.type !== "up") return { id: u.id, at: u.at, stored: { meter_value: u.meter_value, battery_mv: u.battery_mv }, mapped: null };
+    const decoded = applyPayloadDecoder({ ...routed.parsed, devEui }).parsed;
+    const mapped = applyMeterMapping(decoded, mapping);
+    return {
+      id: u.id,
+      at: u.at,
+      stored: { meter_value: u.meter_value, battery_mv: u.battery_mv },
+      mapped: { meter_value: mapped.meterValue, meter_value_raw: mapped.meterValueRaw, battery_mv: mapped.battery_mv },
+    };
+  });
+  res.json({ devEui, mapping, uplinks: rows });
+});
+
+// ---- frame counters (packet loss / resets) ----
+app.get("/api/frame-counters", (req, res) => {
+  const resolved = resolveDeviceRange({ ...req.query, before: undefined, after: undefined });
+  if (!resolved) return res.status(400).json({ error: "devEui or uuid is required" });
+  return res.json(getFrameCounterStats(resolved.devEui, resolved.range));
+});
+
 // ---- anomaly log API ----
 app.get("/api/anomalies", (req, res) => {
-  const devEui = resolveDevEui(req.query as Record<string, unknown>);
-  const limit = req.query.limit ? Math.max(1, Number(req.query.limit)) : 200;
-  const entries = listAnomalies(devEui, limit);
-  return res.json({ devEui, anomalies: entries });
+  const query = { ...req.query, from: undefined, to: undefined, before: undefined, after: undefined } as Record<string, unknown>;
+  const resolved = resolveDeviceRange(query);
+  if (!resolved && namesDevice(query)) return res.status(400).json({ error: "unknown device" });
+  const limit = parseLimit(req.query.limit) ?? 200;
+  const entries = listAnomalies(resolved?.devEui ?? null, limit, resolved?.range);
+  return res.json({ devEui: resolved?.devEui ?? null, anomalies: entries });
 });
 
 app.delete("/api/devices/:devEui", (req, res) => {
@@ -1098,6 +2032,7 @@ app.delete("/api/data-range", (req, res) => {
 app.post("/api/reset-uplink-count", (req, res) => {
   const devEui = resolveDevEui(req.query as Record<string, unknown>) || "";
   if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
+  if (!isProvisionedDevEui(devEui)) return res.status(404).json({ error: "Device not found" });
 
   resetUplinkCount(devEui);
   return res.json({ devEui, ok: true });
@@ -1114,6 +2049,7 @@ app.get("/api/uplink-count-reset-at", (req, res) => {
 app.post("/api/reset-failure-logs", (req, res) => {
   const devEui = resolveDevEui(req.query as Record<string, unknown>) || "";
   if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
+  if (!isProvisionedDevEui(devEui)) return res.status(404).json({ error: "Device not found" });
 
   resetFailureLogs(devEui);
   return res.json({ devEui, ok: true });
@@ -1128,13 +2064,12 @@ app.get("/api/failure-logs-reset-at", (req, res) => {
 });
 
 app.get("/api/export", (req, res) => {
-  const devEui = resolveDevEui(req.query as Record<string, unknown>) || "";
+  const resolved = resolveDeviceRange(req.query as Record<string, unknown>);
   const format = String(req.query.format || "json").toLowerCase();
-  if (!devEui) return res.status(400).json({ error: "devEui or uuid is required" });
+  if (!resolved) return res.status(400).json({ error: "devEui or uuid is required" });
 
-  const from = req.query.from ? String(req.query.from) : undefined;
-  const to = req.query.to ? String(req.query.to) : undefined;
-  const data = exportDeviceData(devEui, from, to);
+  const { devEui, range } = resolved;
+  const data = exportDeviceData(devEui, range);
 
   if (format === "csv") {
     const header = [
@@ -1202,7 +2137,7 @@ app.get("/api/export", (req, res) => {
 
   res.setHeader("Content-Type", "application/json; charset=utf-8");
   res.setHeader("Content-Disposition", `attachment; filename=${devEui}-export.json`);
-  return res.send(JSON.stringify({ devEui, from: from ?? null, to: to ?? null, ...data }, null, 2));
+  return res.send(JSON.stringify({ devEui, from: range.from ?? null, to: range.to ?? null, ...data }, null, 2));
 });
 
 // static frontend
@@ -1215,6 +2150,16 @@ app.use("/", express.static(path.join(__dirname, "..", "public")));
 // health
 app.get("/healthz", (_req, res) => res.status(200).send("ok"));
 
+// Items left in `processing` by a crash are picked up again on start.
+const requeued = requeueStaleInboxItems();
+if (requeued) debugLog(`[INBOX] requeued ${requeued} item(s) interrupted by restart`);
+setInterval(kickInboxWorker, INBOX_POLL_MS).unref();
+kickInboxWorker();
+setInterval(sweepInbox, 3_600_000).unref();
+sweepInbox();
+setInterval(checkGatewayHealth, GATEWAY_CHECK_MS).unref();
+checkGatewayHealth();
+
 app.listen(PORT, "0.0.0.0", () => {
   console.log(`Webhook + UI listening on http://0.0.0.0:${PORT}`);
 });
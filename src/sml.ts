@@ -0,0 +1,212 @@
+// ---- SML (Smart Message Language, BSI TR-03109-1) ----
+export interface SmlRegister {
+  /** Full OBIS code, e.g. `1-0:1.8.0*255` */
+  obis: string;
+  /** Short C.D.E form as used in decoded payloads, e.g. `1.8.0` */
+  code: string;
+  unit: string | null;
+  scaler: number | null;
+  /** Value with the scaler applied (numbers), or the octet string as text/hex */
+  value: number | string | null;
+  raw: number | string | null;
+}
+
+export interface SmlReading {
+  format: "sml";
+  server_id: string | null;
+  /** Meter seconds index or timestamp from the GetList response */
+  sensor_time: number | null;
+  registers: SmlRegister[];
+  /** 1.8.0 (import) in kWh */
+  meter_value: number | null;
+  meter_unit: string | null;
+  /** Numeric electricity registers by short code (energy in kWh, power in W) */
+  [code: string]: unknown;
+}
+
+type SmlNode = null | boolean | number | Buffer | SmlNode[];
+
+const ESCAPE = 0x1b1b1b1b;
+const START = Buffer.from("1b1b1b1b01010101", "hex");
+const GET_LIST_RESPONSE = 0x0701;
+
+/** DLMS/COSEM unit codes (IEC 62056-62) that occur on SML meters */
+const UNITS: Record<number, string> = {
+  1: "a", 2: "mo", 3: "wk", 4: "d", 5: "h", 6: "min", 7: "s",
+  8: "°", 9: "°C", 13: "m³", 14: "m³", 15: "m³/h",
+  27: "W", 28: "VA", 29: "var", 30: "Wh", 31: "VAh", 32: "varh",
+  33: "A", 34: "C", 35: "V", 44: "Hz", 255: "count",
+};
+const WH = 30;
+
+function fail(message: string): never {
+  throw new Error(`SML: ${message}`);
+}
+
+/** CRC-16/X-25 as used by the SML transport layer */
+function crc16(buf: Buffer): number {
+  let crc = 0xffff;
+  for (const byte of buf) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+  }
+  return ~crc & 0xffff;
+}
+
+export function isSmlTransport(payload: Buffer | null): boolean {
+  return !!payload && payload.length >= START.length && payload.subarray(0, START.length).equals(START);
+}
+
+/**
+ * Unescape an SML transport v1 frame and check its CRC. The CRC is
+ * transmitted low byte first; some meter firmwares swap it, so both byte
+ * orders are accepted.
+ */
+function unwrapTransport(frame: Buffer): Buffer {
+  const chunks: Buffer[] = [];
+  let pos = START.length;
+  while (pos + 4 <= frame.length) {
+    if (frame.readUInt32BE(pos) !== ESCAPE) {
+      chunks.push(frame.subarray(pos, pos + 4));
+      pos += 4;
+      continue;
+    }
+    if (pos + 8 > frame.length) break;
+    const next = frame.subarray(pos + 4, pos + 8);
+    if (next.readUInt32BE(0) === ESCAPE) {
+      chunks.push(next);
+      pos += 8;
+      continue;
+    }
+    if (next[0] !== 0x1a) fail(`unknown escape sequence ${next.toString("hex")} at byte ${pos}`);
+
+    const crc = crc16(frame.subarray(0, pos + 6));
+    if (crc !== next.readUInt16LE(2) && crc !== next.readUInt16BE(2)) fail("transport CRC mismatch");
+    const body = Buffer.concat(chunks);
+    return body.subarray(0, body.length - next[1]);
+  }
+  fail("end sequence missing");
+}
+
+function readInteger(b: Buffer, signed: boolean): number {
+  let v = 0n;
+  for (const x of b) v = (v << 8n) | BigInt(x);
+  if (signed && b.length && b[0] & 0x80) v -= 1n << BigInt(8 * b.length);
+  return Number(v);
+}
+
+/** Decode the TL-encoded message list into nested nodes (lists become arrays). */
+function parseNodes(buf: Buffer): SmlNode[] {
+  let pos = 0;
+  const read = (): SmlNode => {
+    if (pos >= buf.length) fail("message list truncated");
+    const first = buf[pos];
+    // end-of-message marker (and padding)
+    if (first === 0x00) {
+      pos++;
+      return null;
+    }
+    const type = (first >> 4) & 0x07;
+    let len = first & 0x0f;
+    let tlBytes = 1;
+    for (let b = first; b & 0x80; tlBytes++) {
+      if (pos + tlBytes >= buf.length) fail("TL field truncated");
+      b = buf[pos + tlBytes];
+      len = (len << 4) | (b & 0x0f);
+    }
+    pos += tlBytes;
+
+    if (type === 0x07) {
+      const list: SmlNode[] = [];
+      for (let i = 0; i < len; i++) list.push(read());
+      return list;
+    }
+    const dataLen = len - tlBytes;
+    if (dataLen < 0 || pos + dataLen > buf.length) fail(`invalid length at byte ${pos - tlBytes}`);
+    const data = buf.subarray(pos, pos + dataLen);
+    pos += dataLen;
+    if (!dataLen) return null; // optional value not set
+    if (type === 0x00) return data;
+    if (type === 0x04) return data[0] !== 0;
+    if (type === 0x05) return readInteger(data, true);
+    if (type === 0x06) return readInteger(data, false);
+    fail(`unknown TL type ${type} at byte ${pos - dataLen - tlBytes}`);
+  };
+
+  const nodes: SmlNode[] = [];
+  while (pos < buf.length) nodes.push(read());
+  return nodes;
+}
+
+function obisCode(b: Buffer): { obis: string; code: string } {
+  const [a, bb, c, d, e, f] = b;
+  return { obis: `${a}-${bb}:${c}.${d}.${e}*${f}`, code: `${c}.${d}.${e}` };
+}
+
+function octetValue(b: Buffer): string {
+  return /^[\x20-\x7e]+$/.test(b.toString("latin1")) ? b.toString("latin1") : b.toString("hex");
+}
+
+/** SML_Time is a choice: [1, secIndex] or [2, timestamp] */
+function smlTime(node: SmlNode): number | null {
+  if (Array.isArray(node) && typeof node[1] === "number") return node[1];
+  return typeof node === "number" ? node : null;
+}
+
+function toRegister(entry: SmlNode): SmlRegister | null {
+  if (!Array.isArray(entry) || !Buffer.isBuffer(entry[0]) || entry[0].length !== 6) return null;
+  const [objName, , , unitCode, scalerNode, valueNode] = entry;
+  const { obis, code } = obisCode(objName as Buffer);
+  const scaler = typeof scalerNode === "number" ? scalerNode : null;
+  const unit = typeof unitCode === "number" ? UNITS[unitCode] ?? `unit ${unitCode}` : null;
+
+  if (typeof valueNode === "number") {
+    const value = scaler ? Number((valueNode * 10 ** scaler).toPrecision(15)) : valueNode;
+    return { obis, code, unit, scaler, value, raw: valueNode };
+  }
+  if (Buffer.isBuffer(valueNode)) {
+    const text = octetValue(valueNode);
+    return { obis, code, unit, scaler, value: text, raw: text };
+  }
+  if (typeof valueNode === "boolean") return { obis, code, unit, scaler, value: valueNode ? 1 : 0, raw: valueNode ? 1 : 0 };
+  return { obis, code, unit, scaler, value: null, raw: null };
+}
+
+/**
+ * Parse an SML payload: a transport v1 frame (escape sequences, padding,
+ * CRC) or, from relays that strip the transport layer, the bare message
+ * list. Every GetList response entry becomes a register. Throws on
+ * malformed frames.
+ */
+export function decodeSml(payload: Buffer): SmlReading {
+  const body = isSmlTransport(payload) ? unwrapTransport(payload) : payload;
+  const reading: SmlReading = { format: "sml", server_id: null, sensor_time: null, registers: [], meter_value: null, meter_unit: null };
+
+  for (const message of parseNodes(body)) {
+    if (!Array.isArray(message) || message.length < 4) continue;
+    const messageBody = message[3];
+    if (!Array.isArray(messageBody) || messageBody[0] !== GET_LIST_RESPONSE || !Array.isArray(messageBody[1])) continue;
+
+    const [, serverId, , sensorTime, valList] = messageBody[1];
+    if (Buffer.isBuffer(serverId)) reading.server_id = serverId.toString("hex");
+    reading.sensor_time = smlTime(sensorTime);
+    if (!Array.isArray(valList)) continue;
+    for (const entry of valList) {
+      const reg = toRegister(entry);
+      if (reg) reading.registers.push(reg);
+    }
+  }
+  if (!reading.registers.length) fail("no GetList response with values");
+
+  for (const reg of reading.registers) {
+    // electricity registers (A = 1) under their short code, the way decoders report them
+    if (!reg.obis.startsWith("1-") || typeof reg.value !== "number" || reg.code in reading) continue;
+    const kwh = reg.unit === UNITS[WH];
+    reading[reg.code] = kwh ? Number((reg.value / 1000).toPrecision(15)) : reg.value;
+  }
+  if (typeof reading["1.8.0"] === "number") {
+    reading.meter_value = reading["1.8.0"];
+    reading.meter_unit = "kWh";
+  }
+  return reading;
+}
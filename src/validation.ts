@@ -0,0 +1,107 @@
+import {
+  getValidationRules,
+  getPreviousReading,
+  getCounterLimits,
+  counterDelta,
+  listMeterInstallations,
+} from "./db.js";
+import type { ReadingQuality, StoreReadingInput, ValidationAction, ValidationRule } from "./db.js";
+
+// ---- per-device validation chain for incoming meter values ----
+const ACTIONS: readonly ValidationAction[] = ["suspect", "reject"];
+const CHECKS = ["monotonic", "max_flow", "range", "digits"] as const;
+
+function positive(value: unknown): number | null {
+  const n = Number(value);
+  return value != null && value !== "" && Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function optionalFinite(value: unknown): number | null | undefined {
+  if (value == null || value === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** Validate a rule list from a request body; the order is the order the checks run in. */
+export function normalizeValidationRules(body: any): { rules: ValidationRule[] } | { error: string } {
+  if (!Array.isArray(body)) return { error: "rules must be an array" };
+  const rules: ValidationRule[] = [];
+  for (const [i, raw] of body.entries()) {
+    const check = String(raw?.check ?? "");
+    const action = String(raw?.action ?? "suspect") as ValidationAction;
+    if (!(CHECKS as readonly string[]).includes(check)) return { error: `rules[${i}].check must be one of ${CHECKS.join(", ")}` };
+    if (!ACTIONS.includes(action)) return { error: `rules[${i}].action must be suspect or reject` };
+
+    if (check === "monotonic") {
+      rules.push({ check, action });
+    } else if (check === "max_flow") {
+      const qmax = positive(raw.qmax);
+      if (qmax == null) return { error: `rules[${i}].qmax must be a positive flow per hour` };
+      rules.push({ check, qmax, action });
+    } else if (check === "range") {
+      const min = optionalFinite(raw.min);
+      const max = optionalFinite(raw.max);
+      if (min === undefined || max === undefined) return { error: `rules[${i}].min and max must be numbers or null` };
+      if (min == null && max == null) return { error: `rules[${i}] needs min or max` };
+      if (min != null && max != null && max < min) return { error: `rules[${i}].max must not be below min` };
+      rules.push({ check, min, max, action });
+    } else {
+      const digits = Number(raw.digits);
+      if (!Number.isInteger(digits) || digits < 1 || digits > 12) return { error: `rules[${i}].digits must be an integer between 1 and 12` };
+      rules.push({ check: "digits", digits, action });
+    }
+  }
+  return { rules };
+}
+
+/**
+ * Run a device's rules against a new meter value. Checks that compare with
+ * the previous reading skip rejected readings, counter wraps and meter swaps.
+ * The worst outcome wins; every failed check adds a reason. On a counter that
+ * can wrap, a drop that is no wrap is suspect even without a `monotonic` rule.
+ */
+export function validateReading(devEui: string, at: string, meterValue: number): { quality: ReadingQuality; reasons: string[] } {
+  const rules = getValidationRules(devEui);
+  const limits = getCounterLimits(devEui, rules);
+  if (!rules.length && !limits.maxCounterValue) return { quality: "valid", reasons: [] };
+
+  let prev = getPreviousReading(devEui, at);
+  if (prev && listMeterInstallations(devEui).some(m => m.installed_at > prev!.at && m.installed_at <= at)) prev = null;
+  const delta = prev ? counterDelta(prev, { at, meter_value: meterValue }, limits).delta : null;
+
+  let quality: ReadingQuality = "valid";
+  const reasons: string[] = [];
+  const flag = (action: ValidationAction, reason: string) => {
+    reasons.push(reason);
+    if (action === "reject") quality = "rejected";
+    else if (quality === "valid") quality = "suspect";
+  };
+
+  for (const rule of rules) {
+    if (rule.check === "monotonic") {
+      if (prev && delta! < 0) flag(rule.action, `decreased from ${prev.meter_value} to ${meterValue}`);
+    } else if (rule.check === "max_flow") {
+      if (!prev || !(delta! > 0)) continue;
+      const hours = (Date.parse(at) - Date.parse(prev.at)) / 3_600_000;
+      const maxIncrease = rule.qmax * hours;
+      if (Number.isFinite(maxIncrease) && delta! > maxIncrease) {
+        flag(rule.action, `increase ${delta} exceeds ${Number(maxIncrease.toPrecision(6))} (Qmax ${rule.qmax}/h over ${Number(hours.toFixed(2))} h)`);
+      }
+    } else if (rule.check === "range") {
+      if (rule.min != null && meterValue < rule.min) flag(rule.action, `${meterValue} below minimum ${rule.min}`);
+      if (rule.max != null && meterValue > rule.max) flag(rule.action, `${meterValue} above maximum ${rule.max}`);
+    } else if (Math.trunc(Math.abs(meterValue)).toString().length > rule.digits) {
+      flag(rule.action, `${meterValue} has more than ${rule.digits} digits`);
+    }
+  }
+  if (prev && delta! < 0 && limits.maxCounterValue && !rules.some(r => r.check === "monotonic")) {
+    flag("suspect", `dropped from ${prev.meter_value} to ${meterValue}, not a counter wrap`);
+  }
+  return { quality, reasons };
+}
+
+/** The reading with its quality flag, as live ingestion and reprocessing store it. */
+export function withQuality(reading: StoreReadingInput): StoreReadingInput {
+  const { quality, reasons } = validateReading(reading.dev_eui, reading.at, reading.meter_value);
+  return { ...reading, quality, quality_reasons: reasons.length ? reasons.join("; ") : null };
+}
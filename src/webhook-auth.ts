@@ -0,0 +1,193 @@
+import crypto from "node:crypto";
+import {
+  countActiveSigningSecrets,
+  countWebhookCredentials,
+  findActiveSigningSecrets,
+  findWebhookCredentialByHash,
+  logWebhookAuthFailure,
+  markWebhookCredentialUsed,
+  markWebhookSigningSecretUsed,
+} from "./db.js";
+import type { WebhookCredential } from "./db.js";
+import { routeWebhookBody } from "./adapters/index.js";
+import type { WebhookContext } from "./adapters/index.js";
+
+// ---- per-credential webhook authentication ----
+const TOKEN_PREFIX = "emwh_";
+
+export function hashWebhookToken(token: string): string {
+  return crypto.createHash("sha256").update(token, "utf8").digest("hex");
+}
+
+/** A new random token plus the short hint we keep to recognise it in listings. */
+export function generateWebhookToken(): { token: string; hint: string } {
+  const token = TOKEN_PREFIX + crypto.randomBytes(24).toString("base64url");
+  return { token, hint: token.slice(0, TOKEN_PREFIX.length + 6) };
+}
+
+/** Token from `X-API-Key` or `Authorization: Bearer …`, empty when neither is set. */
+export function extractWebhookToken(headers: { apiKey?: string; authorization?: string }): string {
+  const apiKey = (headers.apiKey || "").trim();
+  if (apiKey) return apiKey;
+  const auth = headers.authorization || "";
+  return auth.startsWith("Bearer ") ? auth.slice(7).trim() : "";
+}
+
+/** `chirpstack` covers `chirpstack-v3`, `generic` covers `generic-device`. */
+export function providerMatches(allowed: string, adapterId: string): boolean {
+  return adapterId === allowed || adapterId.startsWith(`${allowed}-`);
+}
+
+/** A new random HMAC secret plus its listing hint. */
+export function generateSigningSecret(): { secret: string; hint: string } {
+  const secret = "whsec_" + crypto.randomBytes(32).toString("base64url");
+  return { secret, hint: secret.slice(0, 12) };
+}
+
+/** `sha256=<hex>` of HMAC-SHA256 over `<timestamp>.<raw body>`. */
+export function computeWebhookSignature(secret: string, timestamp: string, rawBody: Buffer): string {
+  const mac = crypto.createHmac("sha256", secret);
+  mac.update(`${timestamp}.`, "utf8");
+  mac.update(rawBody);
+  return `sha256=${mac.digest("hex")}`;
+}
+
+function signaturesEqual(a: string, b: string): boolean {
+  const ab = Buffer.from(a, "utf8");
+  const bb = Buffer.from(b, "utf8");
+  return ab.length === bb.length && crypto.timingSafeEqual(ab, bb);
+}
+
+/** Constant-time check of a presented admin token against `ADMIN_TOKEN`. */
+export function adminTokenMatches(token: string, expected: string): boolean {
+  if (!token || !expected) return false;
+  return crypto.timingSafeEqual(
+    Buffer.from(hashWebhookToken(token), "hex"),
+    Buffer.from(hashWebhookToken(expected), "hex"),
+  );
+}
+
+// Signatures accepted within the tolerance window; a second delivery of the same one is a replay.
+const seenSignatures = new Map<string, number>();
+
+function rememberSignature(signature: string, expiresAtMs: number): boolean {
+  const now = Date.now();
+  for (const [sig, exp] of seenSignatures) {
+    if (exp <= now) seenSignatures.delete(sig);
+  }
+  if (seenSignatures.has(signature)) return false;
+  seenSignatures.set(signature, expiresAtMs);
+  return true;
+}
+
+export interface WebhookSignatureInput {
+  /** `X-Webhook-Signature` header, `sha256=<hex>` */
+  signature: string;
+  /** `X-Webhook-Timestamp` header, unix seconds */
+  timestamp: string;
+  rawBody: Buffer;
+  toleranceSec: number;
+}
+
+export type WebhookAuthResult =
+  | { ok: true; credentialId: number | null }
+  | { ok: false; status: 401 | 403; reason: string; credentialId: number | null };
+
+/** Provider, application and DevEUI a body claims to be from, as far as the adapters can tell. */
+function bodyScope(body: unknown, ctx: WebhookContext) {
+  const routed = routeWebhookBody(body, ctx);
+  if (routed.type === "up") {
+    return { provider: routed.adapter, applicationId: routed.parsed.applicationId, devEui: routed.parsed.devEui };
+  }
+  if (routed.type === "event") {
+    return { provider: routed.adapter, applicationId: routed.event.applicationId, devEui: routed.event.devEui };
+  }
+  return { provider: routed.adapter, applicationId: null, devEui: null };
+}
+
+function scopeViolation(cred: WebhookCredential, scope: ReturnType<typeof bodyScope>): string | null {
+  if (cred.provider && !providerMatches(cred.provider, scope.provider)) {
+    return `provider ${scope.provider} not allowed`;
+  }
+  if (cred.application_ids.length) {
+    if (!scope.applicationId) return "application id missing";
+    if (!cred.application_ids.includes(scope.applicationId)) return `application ${scope.applicationId} not allowed`;
+  }
+  if (cred.dev_eui_prefix) {
+    if (!scope.devEui) return "devEui missing";
+    if (!scope.devEui.startsWith(cred.dev_eui_prefix)) return `devEui ${scope.devEui} outside allowed prefix`;
+  }
+  return null;
+}
+
+/**
+ * Check a webhook request. When a signing secret applies to the endpoint or
+ * the body's application, a valid fresh HMAC signature is required and is
+ * enough on its own (no bearer token needs to travel with the request).
+ * Otherwise the token is checked against the credential table; the legacy
+ * `legacyToken` (CHIRPSTACK_WEBHOOK_TOKEN) is still accepted unscoped, and
+ * until it, a first credential or an active signing secret is configured the
+ * endpoints stay open; after that a request matching none of them is rejected.
+ * Every rejection is logged, attributed to the credential when one matched.
+ */
+export function authorizeWebhook(input: {
+  token: string;
+  legacyToken: string;
+  body: unknown;
+  ctx: WebhookContext;
+  signature: WebhookSignatureInput;
+  ip?: string | null;
+}): WebhookAuthResult {
+  const { token, legacyToken, body, ctx } = input;
+
+  const reject = (status: 401 | 403, reason: string, credentialId: number | null, scope?: ReturnType<typeof bodyScope>): WebhookAuthResult => {
+    logWebhookAuthFailure({
+      credential_id: credentialId,
+      path: ctx.path,
+      reason,
+      ip: input.ip ?? null,
+      provider: scope?.provider ?? null,
+      application_id: scope?.applicationId ?? null,
+      dev_eui: scope?.devEui ?? null,
+    });
+    return { ok: false, status, reason, credentialId };
+  };
+
+  const scope = bodyScope(body, ctx);
+  const secrets = findActiveSigningSecrets(ctx.path, scope.applicationId ?? null);
+  if (secrets.length) {
+    const { signature, timestamp, rawBody, toleranceSec } = input.signature;
+    if (!signature || !timestamp) return reject(401, "missing signature", null, scope);
+    const ts = Number(timestamp);
+    if (!Number.isFinite(ts) || Math.abs(Date.now() / 1000 - ts) > toleranceSec) {
+      return reject(401, "signature timestamp outside tolerance", null, scope);
+    }
+    const match = secrets.find(s => signaturesEqual(computeWebhookSignature(s.secret, timestamp, rawBody), signature));
+    if (!match) return reject(401, "invalid signature", null, scope);
+    if (!rememberSignature(signature, (ts + toleranceSec) * 1000)) return reject(401, "replayed signature", null, scope);
+    markWebhookSigningSecretUsed(match.id);
+    return { ok: true, credentialId: null };
+  }
+
+  if (!legacyToken && countWebhookCredentials() === 0 && countActiveSigningSecrets() === 0) {
+    return { ok: true, credentialId: null };
+  }
+  if (legacyToken && token && crypto.timingSafeEqual(
+    Buffer.from(hashWebhookToken(token), "hex"),
+    Buffer.from(hashWebhookToken(legacyToken), "hex"),
+  )) {
+    return { ok: true, credentialId: null };
+  }
+
+  // a signature only counts when a secret applies; the body's application id can't opt out of one
+  if (!token) return reject(401, input.signature.signature ? "no signing secret for this request" : "missing token", null, scope);
+  const cred = findWebhookCredentialByHash(hashWebhookToken(token));
+  if (!cred) return reject(401, "unknown token", null);
+  if (cred.revoked_at) return reject(401, "revoked token", cred.id);
+
+  const violation = scopeViolation(cred, scope);
+  if (violation) return reject(403, violation, cred.id, scope);
+
+  markWebhookCredentialUsed(cred.id);
+  return { ok: true, credentialId: cred.id };
+}
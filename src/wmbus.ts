@@ -0,0 +1,512 @@
+import { createCipheriv, createDecipheriv } from "node:crypto";
+
+// ---- Wireless M-Bus / OMS telegrams (EN 13757-3/-4, OMS Vol. 2) ----
+export interface WmbusRecord {
+  /** DIF/DIFE/VIF/VIFE bytes, hex */
+  header: string;
+  quantity: string;
+  unit: string | null;
+  value: number | string | null;
+  function: "instantaneous" | "maximum" | "minimum" | "error";
+  storage: number;
+  tariff: number;
+  subunit: number;
+  /** The VIF carries combinable extensions (backward flow, per-time units, …) */
+  extended: boolean;
+}
+
+export interface WmbusTelegram {
+  format: "wmbus";
+  /** Three-letter FLAG manufacturer code */
+  manufacturer: string;
+  /** Meter id (secondary address) as printed on the meter */
+  id: string;
+  version: number;
+  device_type: number;
+  medium: string;
+  ci: number;
+  access_number: number | null;
+  status: number | null;
+  status_flags: string[];
+  /** Security mode from the configuration word; 0 = unencrypted */
+  encryption_mode: number;
+  records: WmbusRecord[];
+  /** Main register of the meter (volume in m³, energy in kWh for heat/cooling meters) */
+  meter_value: number | null;
+  meter_unit: string | null;
+  volume_m3: number | null;
+  flow_m3h: number | null;
+  energy_kwh: number | null;
+  /** Meter clock, local time without offset */
+  meter_time: string | null;
+}
+
+const MEDIA: Record<number, string> = {
+  0x00: "other",
+  0x02: "electricity",
+  0x03: "gas",
+  0x04: "heat",
+  0x06: "warm_water",
+  0x07: "water",
+  0x08: "heat_cost_allocator",
+  0x0a: "cooling_outlet",
+  0x0b: "cooling_inlet",
+  0x0c: "heat_inlet",
+  0x0d: "heat_cooling",
+  0x15: "hot_water",
+  0x16: "cold_water",
+  0x1a: "smoke_detector",
+  0x37: "radio_converter",
+};
+
+const ENERGY_MEDIA = new Set([0x04, 0x0a, 0x0b, 0x0c, 0x0d]);
+
+/** Data length per DIF data field coding; 0x0D (variable) is read from the LVAR byte. */
+const DATA_LENGTH = [0, 1, 2, 3, 4, 4, 6, 8, 0, 1, 2, 3, 4, -1, 6, 0];
+const TIME_UNITS = ["s", "min", "h", "d"];
+const FUNCTIONS = ["instantaneous", "maximum", "minimum", "error"] as const;
+
+function fail(message: string): never {
+  throw new Error(`wM-Bus: ${message}`);
+}
+
+// -- crypto --
+function aesBlock(key: Buffer, block: Buffer): Buffer {
+  const c = createCipheriv("aes-128-ecb", key, null);
+  c.setAutoPadding(false);
+  return Buffer.concat([c.update(block), c.final()]);
+}
+
+function shiftLeft(b: Buffer): Buffer {
+  const out = Buffer.alloc(16);
+  for (let i = 0; i < 16; i++) out[i] = ((b[i] << 1) & 0xff) | (i < 15 ? b[i + 1] >> 7 : 0);
+  if (b[0] & 0x80) out[15] ^= 0x87;
+  return out;
+}
+
+function xor(a: Buffer, b: Buffer): Buffer {
+  const out = Buffer.alloc(16);
+  for (let i = 0; i < 16; i++) out[i] = a[i] ^ b[i];
+  return out;
+}
+
+/** AES-128-CMAC (RFC 4493), used by the mode 7 key derivation. */
+export function aesCmac(key: Buffer, msg: Buffer): Buffer {
+  const k1 = shiftLeft(aesBlock(key, Buffer.alloc(16)));
+  const k2 = shiftLeft(k1);
+  const blocks = Math.max(1, Math.ceil(msg.length / 16));
+  const complete = msg.length > 0 && msg.length % 16 === 0;
+
+  const last = Buffer.alloc(16);
+  const tail = msg.subarray((blocks - 1) * 16);
+  tail.copy(last);
+  if (!complete) last[tail.length] = 0x80;
+
+  let x: Buffer = Buffer.alloc(16);
+  for (let i = 0; i < blocks - 1; i++) x = aesBlock(key, xor(x, msg.subarray(i * 16, i * 16 + 16)));
+  return aesBlock(key, xor(x, xor(last, complete ? k1 : k2)));
+}
+
+function aesCbcDecrypt(key: Buffer, iv: Buffer, data: Buffer): Buffer {
+  const d = createDecipheriv("aes-128-cbc", key, iv);
+  d.setAutoPadding(false);
+  return Buffer.concat([d.update(data), d.final()]);
+}
+
+export function isWmbusKey(v: unknown): v is string {
+  return typeof v === "string" && /^[0-9a-f]{32}$/i.test(v);
+}
+
+// -- link layer --
+/** CRC of format A/B blocks: polynomial 0x3D65, inverted, transmitted MSB first. */
+function crc16(buf: Buffer): number {
+  let crc = 0;
+  for (const byte of buf) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x3d65) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return ~crc & 0xffff;
+}
+
+/**
+ * Strip the per-block CRCs of a frame format A telegram. Most receivers hand
+ * them on already removed; a frame whose CRCs do not all check out is
+ * returned unchanged.
+ */
+function stripFormatACrcs(frame: Buffer): Buffer {
+  const l = frame[0];
+  const dataBlocks = Math.ceil(Math.max(0, l - 9) / 16);
+  if (frame.length !== 1 + l + 2 * (1 + dataBlocks)) return frame;
+
+  const parts = [frame.subarray(0, 10)];
+  if (crc16(frame.subarray(0, 10)) !== frame.readUInt16BE(10)) return frame;
+  let pos = 12;
+  for (let remaining = l - 9; remaining > 0; remaining -= 16) {
+    const size = Math.min(16, remaining);
+    const block = frame.subarray(pos, pos + size);
+    if (crc16(block) !== frame.readUInt16BE(pos + size)) return frame;
+    parts.push(block);
+    pos += size + 2;
+  }
+  return Buffer.concat(parts);
+}
+
+function manufacturerCode(m: number): string {
+  return [(m >> 10) & 0x1f, (m >> 5) & 0x1f, m & 0x1f].map(c => String.fromCharCode(c + 64)).join("");
+}
+
+function statusFlags(status: number): string[] {
+  const flags: string[] = [];
+  const app = status & 0x03;
+  if (app === 1) flags.push("application_busy");
+  if (app === 2) flags.push("application_error");
+  if (app === 3) flags.push("abnormal_condition");
+  if (status & 0x04) flags.push("power_low");
+  if (status & 0x08) flags.push("permanent_error");
+  if (status & 0x10) flags.push("temporary_error");
+  return flags;
+}
+
+// -- data records --
+function readBcd(b: Buffer): number | null {
+  let value = 0;
+  let sign = 1;
+  for (let i = b.length - 1; i >= 0; i--) {
+    let hi = b[i] >> 4;
+    const lo = b[i] & 0x0f;
+    if (i === b.length - 1 && hi === 0x0f) {
+      sign = -1;
+      hi = 0;
+    }
+    if (hi > 9 || lo > 9) return null;
+    value = value * 100 + hi * 10 + lo;
+  }
+  return sign * value;
+}
+
+function readInt(b: Buffer): number {
+  if (b.length <= 6) return b.readIntLE(0, b.length);
+  return Number(b.readBigInt64LE(0));
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/** Type G date (2 bytes) */
+function readDate(b: Buffer): string | null {
+  const day = b[0] & 0x1f;
+  const month = b[1] & 0x0f;
+  const year = 2000 + (((b[0] & 0xe0) >> 5) | ((b[1] & 0xf0) >> 1));
+  if (!day || !month || month > 12) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/** Type F date/time (4 bytes) or type I (6 bytes, seconds first) */
+function readDateTime(b: Buffer): string | null {
+  const seconds = b.length === 6 ? b[0] & 0x3f : 0;
+  const f = b.length === 6 ? b.subarray(1) : b;
+  if (f[0] & 0x80) return null; // time invalid
+  const date = readDate(f.subarray(2, 4));
+  if (!date) return null;
+  return `${date}T${pad(f[1] & 0x1f)}:${pad(f[0] & 0x3f)}:${pad(seconds)}`;
+}
+
+interface VifMeaning {
+  quantity: string;
+  unit: string | null;
+  /** Decimal exponent applied to the raw value */
+  exp: number;
+  kind?: "date" | "datetime" | "text";
+}
+
+function primaryVif(code: number): VifMeaning {
+  const n = code & 0x07;
+  const nn = code & 0x03;
+  if (code <= 0x07) return { quantity: "energy", unit: "kWh", exp: n - 6 };
+  if (code <= 0x0f) return { quantity: "energy", unit: "MJ", exp: n - 6 };
+  if (code <= 0x17) return { quantity: "volume", unit: "m³", exp: n - 6 };
+  if (code <= 0x1f) return { quantity: "mass", unit: "kg", exp: n - 3 };
+  if (code <= 0x23) return { quantity: "on_time", unit: TIME_UNITS[nn], exp: 0 };
+  if (code <= 0x27) return { quantity: "operating_time", unit: TIME_UNITS[nn], exp: 0 };
+  if (code <= 0x2f) return { quantity: "power", unit: "W", exp: n - 3 };
+  if (code <= 0x37) return { quantity: "power", unit: "J/h", exp: n };
+  if (code <= 0x3f) return { quantity: "volume_flow", unit: "m³/h", exp: n - 6 };
+  if (code <= 0x47) return { quantity: "volume_flow", unit: "m³/min", exp: n - 7 };
+  if (code <= 0x4f) return { quantity: "volume_flow", unit: "m³/s", exp: n - 9 };
+  if (code <= 0x57) return { quantity: "mass_flow", unit: "kg/h", exp: n - 3 };
+  if (code <= 0x5b) return { quantity: "flow_temperature", unit: "°C", exp: nn - 3 };
+  if (code <= 0x5f) return { quantity: "return_temperature", unit: "°C", exp: nn - 3 };
+  if (code <= 0x63) return { quantity: "temperature_difference", unit: "K", exp: nn - 3 };
+  if (code <= 0x67) return { quantity: "external_temperature", unit: "°C", exp: nn - 3 };
+  if (code <= 0x6b) return { quantity: "pressure", unit: "bar", exp: nn - 3 };
+  if (code === 0x6c) return { quantity: "date", unit: null, exp: 0, kind: "date" };
+  if (code === 0x6d) return { quantity: "datetime", unit: null, exp: 0, kind: "datetime" };
+  if (code === 0x6e) return { quantity: "hca_units", unit: null, exp: 0 };
+  if (code >= 0x70 && code <= 0x73) return { quantity: "averaging_duration", unit: TIME_UNITS[nn], exp: 0 };
+  if (code >= 0x74 && code <= 0x77) return { quantity: "actuality_duration", unit: TIME_UNITS[nn], exp: 0 };
+  if (code === 0x78) return { quantity: "fabrication_no", unit: null, exp: 0 };
+  if (code === 0x79) return { quantity: "enhanced_id", unit: null, exp: 0 };
+  if (code === 0x7a) return { quantity: "bus_address", unit: null, exp: 0 };
+  if (code === 0x7c) return { quantity: "custom", unit: null, exp: 0, kind: "text" };
+  if (code === 0x7f) return { quantity: "manufacturer_specific", unit: null, exp: 0 };
+  return { quantity: "unknown", unit: null, exp: 0 };
+}
+
+/** Extension table 0xFB (first extension) */
+function fbVif(code: number): VifMeaning {
+  const n = code & 0x01;
+  if (code <= 0x01) return { quantity: "energy", unit: "kWh", exp: n + 2 };
+  if (code >= 0x08 && code <= 0x09) return { quantity: "energy", unit: "MJ", exp: n + 2 };
+  if (code >= 0x10 && code <= 0x11) return { quantity: "volume", unit: "m³", exp: n + 2 };
+  return { quantity: "unknown", unit: null, exp: 0 };
+}
+
+/** Extension table 0xFD (second extension) */
+function fdVif(code: number): VifMeaning {
+  if (code === 0x0c) return { quantity: "model_version", unit: null, exp: 0 };
+  if (code === 0x0e) return { quantity: "firmware_version", unit: null, exp: 0 };
+  if (code === 0x0f) return { quantity: "software_version", unit: null, exp: 0 };
+  if (code === 0x17) return { quantity: "error_flags", unit: null, exp: 0 };
+  if (code === 0x3a) return { quantity: "dimensionless", unit: null, exp: 0 };
+  if (code === 0x74) return { quantity: "remaining_battery", unit: "d", exp: 0 };
+  return { quantity: "unknown", unit: null, exp: 0 };
+}
+
+function scaled(v: number, exp: number): number {
+  return exp === 0 ? v : Number((v * 10 ** exp).toPrecision(15));
+}
+
+/** Parse the application layer (after decryption) into data records. */
+export function parseDataRecords(buf: Buffer): WmbusRecord[] {
+  const records: WmbusRecord[] = [];
+  let pos = 0;
+  const take = (len: number) => {
+    if (pos + len > buf.length) fail(`record truncated at byte ${pos}`);
+    const out = buf.subarray(pos, pos + len);
+    pos += len;
+    return out;
+  };
+
+  while (pos < buf.length) {
+    const start = pos;
+    const dif = take(1)[0];
+    if (dif === 0x2f) continue; // idle filler
+    if ((dif & 0x7f) === 0x0f || dif === 0x7f) {
+      // manufacturer specific data up to the end of the telegram
+      const rest = buf.subarray(pos);
+      records.push({
+        header: buf.subarray(start, pos).toString("hex"),
+        quantity: "manufacturer_data",
+        unit: null,
+        value: rest.toString("hex"),
+        function: "instantaneous",
+        storage: 0,
+        tariff: 0,
+        subunit: 0,
+        extended: false,
+      });
+      break;
+    }
+
+    let storage = (dif >> 6) & 0x01;
+    let tariff = 0;
+    let subunit = 0;
+    for (let i = 0, ext = dif & 0x80; ext; i++) {
+      const dife = take(1)[0];
+      storage |= (dife & 0x0f) << (1 + 4 * i);
+      tariff |= ((dife >> 4) & 0x03) << (2 * i);
+      subunit |= ((dife >> 6) & 0x01) << i;
+      ext = dife & 0x80;
+    }
+
+    const vif = take(1)[0];
+    let meaning: VifMeaning;
+    let ext: number;
+    if (vif === 0xfb || vif === 0xfd) {
+      const code = take(1)[0];
+      meaning = vif === 0xfb ? fbVif(code & 0x7f) : fdVif(code & 0x7f);
+      ext = code & 0x80;
+    } else {
+      meaning = primaryVif(vif & 0x7f);
+      ext = vif & 0x80;
+    }
+    let extended = false;
+    while (ext) {
+      ext = take(1)[0] & 0x80;
+      extended = true;
+    }
+    if (meaning.kind === "text") {
+      const len = take(1)[0];
+      meaning = { ...meaning, unit: Buffer.from(take(len)).reverse().toString("latin1") };
+    }
+    const header = buf.subarray(start, pos).toString("hex");
+
+    const coding = dif & 0x0f;
+    let value: number | string | null = null;
+    if (coding === 0x0d) {
+      const lvar = take(1)[0];
+      if (lvar <= 0xbf) value = Buffer.from(take(lvar)).reverse().toString("latin1");
+      else if (lvar >= 0xc0 && lvar <= 0xd9) {
+        const bcd = readBcd(take(lvar & 0x0f));
+        value = bcd == null ? null : scaled(lvar >= 0xd0 ? -bcd : bcd, meaning.exp);
+      } else if (lvar >= 0xe0 && lvar <= 0xef) value = take(lvar - 0xe0).toString("hex");
+      else fail(`unsupported LVAR 0x${lvar.toString(16)} at byte ${start}`);
+    } else {
+      const data = take(DATA_LENGTH[coding]);
+      if (!data.length) value = null;
+      else if (meaning.kind === "date" && coding === 0x02) value = readDate(data);
+      else if (meaning.kind === "datetime" && (coding === 0x04 || coding === 0x06)) value = readDateTime(data);
+      else if (coding >= 0x09 && coding !== 0x0d && coding !== 0x0f) {
+        const bcd = readBcd(data);
+        value = bcd == null ? null : scaled(bcd, meaning.exp);
+      } else if (coding === 0x05) value = scaled(data.readFloatLE(0), meaning.exp);
+      else value = scaled(readInt(data), meaning.exp);
+    }
+
+    records.push({
+      header,
+      quantity: meaning.quantity,
+      unit: meaning.unit,
+      value,
+      function: FUNCTIONS[(dif >> 4) & 0x03],
+      storage,
+      tariff,
+      subunit,
+      extended,
+    });
+  }
+  return records;
+}
+
+/** The current (storage 0, tariff 0) value of a quantity, if the telegram has one. */
+function currentValue(records: WmbusRecord[], quantity: string): WmbusRecord | null {
+  return records.find(r =>
+    r.quantity === quantity && r.function === "instantaneous" && !r.storage && !r.tariff && !r.subunit && !r.extended && typeof r.value === "number"
+  ) ?? null;
+}
+
+/** Energy in kWh, whether the meter counts in kWh or MJ. */
+function energyKwh(r: WmbusRecord | null): number | null {
+  if (!r || typeof r.value !== "number") return null;
+  return r.unit === "MJ" ? Number((r.value / 3.6).toPrecision(15)) : r.value;
+}
+
+// -- telegram --
+/**
+ * Decode a wM-Bus telegram as relayed in a LoRaWAN payload: with or without
+ * the L-field, with or without format A block CRCs. Encrypted telegrams
+ * (security mode 5 or 7) need the meter's AES-128 key. Throws on malformed
+ * or undecryptable telegrams.
+ */
+export function decodeWmbusTelegram(payload: Buffer, key: Buffer | null): WmbusTelegram {
+  let frame = payload;
+  if (frame.length > 1 && frame[0] !== frame.length - 1) frame = stripFormatACrcs(frame);
+  // the L-field counts every byte after itself
+  let pos = frame.length > 1 && frame[0] === frame.length - 1 ? 1 : 0;
+  if (frame.length - pos < 10) fail("telegram too short");
+
+  pos++; // C-field
+  let mBytes = frame.subarray(pos, pos + 2);
+  let idBytes = frame.subarray(pos + 2, pos + 6);
+  let version = frame[pos + 6];
+  let deviceType = frame[pos + 7];
+  pos += 8;
+
+  let ci = frame[pos++];
+  let messageCounter: Buffer | null = null;
+  for (;;) {
+    if (ci === 0x8c) {
+      // ELL without encryption: communication control, access number
+      pos += 2;
+    } else if (ci === 0x90) {
+      // AFL: only the message counter matters here (mode 7 key derivation)
+      const len = frame[pos];
+      const afl = frame.subarray(pos + 1, pos + 1 + len);
+      const fcl = afl.readUInt16LE(0);
+      let p = 2;
+      if (fcl & 0x2000) p += 1; // MCL
+      if (fcl & 0x0200) p += 2; // KI
+      if (fcl & 0x0800) messageCounter = afl.subarray(p, p + 4);
+      pos += 1 + len;
+    } else {
+      break;
+    }
+    if (pos >= frame.length) fail("telegram ends inside the extended link / authentication layer");
+    ci = frame[pos++];
+  }
+
+  let accessNumber: number | null = null;
+  let status: number | null = null;
+  let cw = 0;
+  if (ci === 0x72) {
+    if (pos + 12 > frame.length) fail("long transport header truncated");
+    idBytes = frame.subarray(pos, pos + 4);
+    mBytes = frame.subarray(pos + 4, pos + 6);
+    version = frame[pos + 6];
+    deviceType = frame[pos + 7];
+    accessNumber = frame[pos + 8];
+    status = frame[pos + 9];
+    cw = frame.readUInt16LE(pos + 10);
+    pos += 12;
+  } else if (ci === 0x7a) {
+    if (pos + 4 > frame.length) fail("short transport header truncated");
+    accessNumber = frame[pos];
+    status = frame[pos + 1];
+    cw = frame.readUInt16LE(pos + 2);
+    pos += 4;
+  } else if (ci !== 0x78) {
+    fail(`unsupported CI field 0x${ci.toString(16)}`);
+  }
+
+  const mode = (cw >> 8) & 0x1f;
+  if (mode === 7) pos++; // configuration field extension
+  let apl = frame.subarray(pos);
+
+  if (mode !== 0) {
+    if (mode !== 5 && mode !== 7) fail(`security mode ${mode} is not supported`);
+    if (!key) fail(`telegram is encrypted (mode ${mode}) but no key is stored for the device`);
+    const blocks = (cw >> 4) & 0x0f;
+    const encLength = blocks ? blocks * 16 : apl.length - (apl.length % 16);
+    if (encLength > apl.length || encLength === 0) fail("encrypted part is shorter than announced");
+
+    let aesKey = key;
+    let iv: Buffer;
+    if (mode === 5) {
+      iv = Buffer.concat([mBytes, idBytes, Buffer.from([version, deviceType]), Buffer.alloc(8, accessNumber ?? 0)]);
+    } else {
+      if (!messageCounter) fail("mode 7 telegram without AFL message counter");
+      aesKey = aesCmac(key, Buffer.concat([Buffer.from([0x00]), messageCounter, idBytes, Buffer.alloc(7, 0x07)]));
+      iv = Buffer.alloc(16);
+    }
+    const plain = aesCbcDecrypt(aesKey, iv, apl.subarray(0, encLength));
+    if (plain[0] !== 0x2f || plain[1] !== 0x2f) fail("decryption failed (wrong key?)");
+    apl = Buffer.concat([plain, apl.subarray(encLength)]);
+  }
+
+  const records = parseDataRecords(apl);
+  const volume = currentValue(records, "volume");
+  const flow = currentValue(records, "volume_flow");
+  const energy = energyKwh(currentValue(records, "energy"));
+  const clock = records.find(r => r.quantity === "datetime" && !r.storage && typeof r.value === "string");
+  const useEnergy = ENERGY_MEDIA.has(deviceType) ? energy != null : volume == null && energy != null;
+
+  return {
+    format: "wmbus",
+    manufacturer: manufacturerCode(mBytes.readUInt16LE(0)),
+    id: Buffer.from(idBytes).reverse().toString("hex"),
+    version,
+    device_type: deviceType,
+    medium: MEDIA[deviceType] ?? "unknown",
+    ci,
+    access_number: accessNumber,
+    status,
+    status_flags: status == null ? [] : statusFlags(status),
+    encryption_mode: mode,
+    records,
+    meter_value: useEnergy ? energy : (volume?.value as number | undefined) ?? null,
+    meter_unit: useEnergy ? "kWh" : volume ? "m³" : null,
+    volume_m3: volume?.unit === "m³" ? (volume.value as number) : null,
+    flow_m3h: flow?.unit === "m³/h" ? (flow.value as number) : null,
+    energy_kwh: energy,
+    meter_time: (clock?.value as string | undefined) ?? null,
+  };
+}
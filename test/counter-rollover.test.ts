@@ -0,0 +1,41 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+process.env.DB_PATH = ":memory:";
+const { counterDelta, isCounterRollover } = await import("../src/db.js");
+
+const reading = (at: string, meter_value: number) => ({ at, meter_value });
+const FIVE_DIGITS = { maxCounterValue: 100000, qmax: null };
+
+test("a wrap from the top of the counter to its bottom adds one revolution", () => {
+  const result = counterDelta(reading("2026-01-01T00:00:00Z", 99999.5), reading("2026-01-01T01:00:00Z", 0.25), FIVE_DIGITS);
+  assert.deepEqual(result, { delta: 0.75, rollover: true });
+});
+
+test("a drop in the middle of the counter is not a wrap", () => {
+  const result = counterDelta(reading("2026-01-01T00:00:00Z", 50000), reading("2026-01-01T01:00:00Z", 100), FIVE_DIGITS);
+  assert.deepEqual(result, { delta: -49900, rollover: false });
+});
+
+test("without a counter size nothing wraps", () => {
+  const limits = { maxCounterValue: null, qmax: null };
+  assert.equal(isCounterRollover(reading("2026-01-01T00:00:00Z", 99999.9), reading("2026-01-01T01:00:00Z", 0.2), limits), false);
+  assert.deepEqual(counterDelta(reading("2026-01-01T00:00:00Z", 99999.9), reading("2026-01-01T01:00:00Z", 0.2), limits).rollover, false);
+});
+
+test("a rising counter is never a wrap", () => {
+  const result = counterDelta(reading("2026-01-01T00:00:00Z", 99990), reading("2026-01-01T01:00:00Z", 99995.5), FIVE_DIGITS);
+  assert.deepEqual(result, { delta: 5.5, rollover: false });
+});
+
+test("a previous value above the counter size is not a wrap", () => {
+  assert.equal(isCounterRollover(reading("2026-01-01T00:00:00Z", 100500), reading("2026-01-01T01:00:00Z", 3), FIVE_DIGITS), false);
+});
+
+test("outside the margins, Qmax over the elapsed time decides", () => {
+  const prev = reading("2026-01-01T00:00:00Z", 85000);
+  const cur = reading("2026-01-01T02:00:00Z", 2000);
+  // wrapped delta 17000 over two hours
+  assert.deepEqual(counterDelta(prev, cur, { maxCounterValue: 100000, qmax: 9000 }), { delta: 17000, rollover: true });
+  assert.deepEqual(counterDelta(prev, cur, { maxCounterValue: 100000, qmax: 8000 }), { delta: -83000, rollover: false });
+});
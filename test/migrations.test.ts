@@ -0,0 +1,124 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import Database from "better-sqlite3";
+import { MIGRATIONS, getMigrationStatus, runMigrations } from "../src/migrations.js";
+
+const HOUR = 3600_000;
+const DEV_A = "a000000000000001";
+const DEV_B = "b000000000000002";
+
+/** A database as the first release left it: baseline tables only, no schema_migrations. */
+function baselineDb(file = ":memory:"): Database.Database {
+  const db = new Database(file);
+  db.pragma("foreign_keys = ON");
+  MIGRATIONS[0].up(db);
+
+  const uplink = db.prepare(`INSERT INTO uplinks (dev_eui, at, device_name, deduplication_id, meter_value) VALUES (?, ?, ?, ?, ?)`);
+  const reading = db.prepare(`INSERT INTO readings (dev_eui, at, meter_value, device_name) VALUES (?, ?, ?, ?)`);
+
+  // A: data and settings, but its configured device was never created
+  db.prepare(`INSERT INTO device_settings (dev_eui, device_type) VALUES (?, 'gas')`).run(DEV_A);
+  for (let i = 0; i < 4; i++) {
+    const at = new Date(Date.parse("2026-02-01T00:00:00.000Z") + i * HOUR).toISOString();
+    uplink.run(DEV_A, at, "Gas meter", `a${i}`, 100 + i);
+    reading.run(DEV_A, at, 100 + i, "Gas meter");
+  }
+
+  // B: the module was moved to a new meter, which got a second configured device
+  const device = db.prepare(`INSERT INTO devices (uuid, dev_eui, name, device_type, created_at) VALUES (?, ?, ?, 'water', ?)`);
+  device.run("old-meter", DEV_B, "Old water meter", "2026-01-01T00:00:00.000Z");
+  device.run("new-meter", DEV_B, "New water meter", "2026-03-01T00:00:00.000Z");
+  uplink.run(DEV_B, "2026-02-01T00:00:00.000Z", "Old water meter", "b0", 10);
+  for (let i = 1; i <= 3; i++) {
+    uplink.run(DEV_B, new Date(Date.parse("2026-03-01T00:00:00.000Z") + i * HOUR).toISOString(), "New water meter", `b${i}`, i);
+  }
+  return db;
+}
+
+test("migrates a baseline database to the latest version", () => {
+  const db = baselineDb();
+  const applied = runMigrations(db);
+  assert.deepEqual(applied.map(m => m.version), MIGRATIONS.map(m => m.version));
+
+  const status = getMigrationStatus(db);
+  assert.equal(status.current, status.latest);
+  assert.deepEqual(status.pending, []);
+  assert.ok(status.applied.every(m => m.known));
+  db.close();
+});
+
+test("creates the missing configured device with the type from device_settings", () => {
+  const db = baselineDb();
+  runMigrations(db);
+  const devices = db.prepare(`SELECT name, device_type, bound_from, bound_to FROM devices WHERE dev_eui = ?`).all(DEV_A);
+  assert.deepEqual(devices, [{ name: "Gas meter", device_type: "gas", bound_from: null, bound_to: null }]);
+  assert.equal(db.prepare(`SELECT COUNT(*) FROM readings WHERE dev_eui = ?`).pluck().get(DEV_A), 4);
+  db.close();
+});
+
+test("keeps both devices of one DevEUI and binds them one after the other", () => {
+  const db = baselineDb();
+  const applied = runMigrations(db);
+  const devices = db.prepare(`SELECT uuid, bound_from, bound_to FROM devices WHERE dev_eui = ? ORDER BY created_at`).all(DEV_B);
+  assert.deepEqual(devices, [
+    { uuid: "old-meter", bound_from: null, bound_to: "2026-03-01T00:00:00.000Z" },
+    { uuid: "new-meter", bound_from: "2026-03-01T00:00:00.000Z", bound_to: null },
+  ]);
+
+  const notes = applied.flatMap(m => m.notes);
+  assert.ok(notes.some(n => n.startsWith(`${DEV_B}: 2 configured devices`)), notes.join("\n"));
+  assert.ok(notes.some(n => n.startsWith(`${DEV_B}: old-meter bound until 2026-03-01T00:00:00.000Z`)), notes.join("\n"));
+  db.close();
+});
+
+test("builds device_stats from each module's current binding", () => {
+  const db = baselineDb();
+  runMigrations(db);
+  const stats = db.prepare(`SELECT dev_eui, uplink_count, first_at, last_uplink_at, recent_intervals_json, device_name FROM device_stats ORDER BY dev_eui`).all();
+  assert.deepEqual(stats, [
+    {
+      dev_eui: DEV_A,
+      uplink_count: 4,
+      first_at: "2026-02-01T00:00:00.000Z",
+      last_uplink_at: "2026-02-01T03:00:00.000Z",
+      recent_intervals_json: JSON.stringify([HOUR, HOUR, HOUR]),
+      device_name: "Gas meter",
+    },
+    {
+      // the February uplink belongs to the old meter
+      dev_eui: DEV_B,
+      uplink_count: 3,
+      first_at: "2026-03-01T01:00:00.000Z",
+      last_uplink_at: "2026-03-01T03:00:00.000Z",
+      recent_intervals_json: JSON.stringify([HOUR, HOUR]),
+      device_name: "New water meter",
+    },
+  ]);
+  db.close();
+});
+
+test("a second run applies nothing", () => {
+  const db = baselineDb();
+  runMigrations(db);
+  assert.deepEqual(runMigrations(db), []);
+  db.close();
+});
+
+test("a dry run reports the migrations without changing the database", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "migrations-test-"));
+  try {
+    const db = baselineDb(path.join(dir, "data.db"));
+    const applied = runMigrations(db, { dryRun: true });
+    assert.equal(applied.length, MIGRATIONS.length);
+    assert.equal(getMigrationStatus(db).current, 0);
+    assert.equal(db.prepare(`SELECT COUNT(*) FROM device_settings`).pluck().get(), 1);
+    db.close();
+    // the temporary copy is gone
+    assert.deepEqual(fs.readdirSync(dir).filter(f => f.startsWith(".migrate-dry-run")), []);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,130 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { decodeSml, isSmlTransport } from "../src/sml.js";
+
+// ---- SML frame builders (TL encoding, BSI TR-03109-1) ----
+function tl(type: number, data: Buffer): Buffer {
+  if (data.length + 1 < 16) return Buffer.concat([Buffer.from([(type << 4) | (data.length + 1)]), data]);
+  // two TL bytes; the length counts both of them
+  const len = data.length + 2;
+  return Buffer.concat([Buffer.from([0x80 | (type << 4) | (len >> 4), len & 0x0f]), data]);
+}
+
+const list = (...items: Buffer[]) => Buffer.concat([Buffer.from([0x70 | items.length]), ...items]);
+const octets = (hex: string) => tl(0x0, Buffer.from(hex, "hex"));
+const text = (s: string) => tl(0x0, Buffer.from(s, "latin1"));
+const unsigned = (v: number, bytes: number) => tl(0x6, Buffer.from(BigInt(v).toString(16).padStart(bytes * 2, "0"), "hex"));
+const signed = (v: number, bytes: number) => {
+  const b = Buffer.alloc(bytes);
+  b.writeIntBE(v, 0, bytes);
+  return tl(0x5, b);
+};
+const NONE = Buffer.from([0x01]);
+const END_OF_MESSAGE = Buffer.from([0x00]);
+
+function entry(obis: string, unit: number, scaler: number, value: Buffer): Buffer {
+  return list(octets(obis), NONE, NONE, unsigned(unit, 1), signed(scaler, 1), value, NONE);
+}
+
+function getListResponse(entries: Buffer[]): Buffer {
+  const body = list(
+    NONE,
+    octets("0a01454d480000b8ef27"),
+    NONE,
+    list(unsigned(1, 1), unsigned(123456, 4)),
+    list(...entries),
+    NONE,
+    NONE,
+  );
+  return list(octets("01"), unsigned(0, 1), unsigned(0, 1), list(unsigned(0x0701, 2), body), unsigned(0, 2), END_OF_MESSAGE);
+}
+
+/** CRC-16/X-25 */
+function crc16(buf: Buffer): number {
+  let crc = 0xffff;
+  for (const byte of buf) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+  }
+  return ~crc & 0xffff;
+}
+
+function transportFrame(messages: Buffer, opts: { swapCrc?: boolean; corruptCrc?: boolean } = {}): Buffer {
+  const padding = (4 - (messages.length % 4)) % 4;
+  const head = Buffer.concat([
+    Buffer.from("1b1b1b1b01010101", "hex"),
+    messages,
+    Buffer.alloc(padding),
+    Buffer.from([0x1b, 0x1b, 0x1b, 0x1b, 0x1a, padding]),
+  ]);
+  const crc = crc16(head) ^ (opts.corruptCrc ? 0x0001 : 0);
+  const tail = Buffer.alloc(2);
+  if (opts.swapCrc) tail.writeUInt16BE(crc);
+  else tail.writeUInt16LE(crc);
+  return Buffer.concat([head, tail]);
+}
+
+const ENTRIES = [
+  // 1.8.0 import, 123456789 × 10^-1 Wh
+  entry("0100010800ff", 30, -1, unsigned(123456789, 8)),
+  // 16.7.0 current power, negative while feeding in
+  entry("0100100700ff", 27, 0, signed(-250, 4)),
+  // 20 characters need a two-byte TL field
+  entry("0000600100ff", 255, 0, text("EMH-1234567890-ABCDE")),
+];
+
+test("the CRC helper matches the CRC-16/X-25 check value", () => {
+  assert.equal(crc16(Buffer.from("123456789", "ascii")), 0x906e);
+});
+
+test("decodes a transport frame into registers with scaler and unit", () => {
+  const frame = transportFrame(getListResponse(ENTRIES));
+  assert.ok(isSmlTransport(frame));
+
+  const reading = decodeSml(frame);
+  assert.equal(reading.server_id, "0a01454d480000b8ef27");
+  assert.equal(reading.sensor_time, 123456);
+  assert.equal(reading.registers.length, 3);
+  assert.deepEqual(reading.registers[0], {
+    obis: "1-0:1.8.0*255",
+    code: "1.8.0",
+    unit: "Wh",
+    scaler: -1,
+    value: 12345678.9,
+    raw: 123456789,
+  });
+  assert.equal(reading.meter_value, 12345.6789);
+  assert.equal(reading.meter_unit, "kWh");
+  assert.equal(reading["16.7.0"], -250);
+});
+
+test("reads a value behind a multi-byte TL field", () => {
+  const reading = decodeSml(transportFrame(getListResponse(ENTRIES)));
+  const id = reading.registers.find(r => r.code === "96.1.0");
+  assert.equal(id?.value, "EMH-1234567890-ABCDE");
+  // not an electricity register (A = 0), so no short-code field
+  assert.equal(reading["96.1.0"], undefined);
+});
+
+test("accepts the transport CRC in either byte order", () => {
+  const reading = decodeSml(transportFrame(getListResponse(ENTRIES), { swapCrc: true }));
+  assert.equal(reading.meter_value, 12345.6789);
+});
+
+test("rejects a frame whose transport CRC does not match", () => {
+  assert.throws(() => decodeSml(transportFrame(getListResponse(ENTRIES), { corruptCrc: true })), /transport CRC mismatch/);
+});
+
+test("decodes a bare message list without the transport layer", () => {
+  const reading = decodeSml(getListResponse(ENTRIES));
+  assert.equal(reading.meter_value, 12345.6789);
+});
+
+test("rejects a TL length that runs past the end of the message", () => {
+  // a list whose first element announces four data bytes but carries one
+  assert.throws(() => decodeSml(Buffer.from([0x76, 0x05, 0xaa])), /SML: invalid length at byte 1/);
+});
+
+test("rejects a message list without values", () => {
+  assert.throws(() => decodeSml(getListResponse([])), /no GetList response with values/);
+});
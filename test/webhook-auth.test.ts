@@ -0,0 +1,78 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+
+process.env.DB_PATH = ":memory:";
+const { createWebhookSigningSecret } = await import("../src/db.js");
+const { authorizeWebhook, computeWebhookSignature, generateSigningSecret } = await import("../src/webhook-auth.js");
+
+const TOLERANCE_SEC = 300;
+const { secret, hint } = generateSigningSecret();
+createWebhookSigningSecret({ name: "lns", endpoint: "/webhooks/lorawan", secret, secret_hint: hint });
+
+const body = { devEui: "0011223344556677", fCnt: 7, fPort: 2, data: "AAAwOQu4" };
+const rawBody = Buffer.from(JSON.stringify(body));
+const now = () => String(Math.floor(Date.now() / 1000));
+
+function check(opts: { path?: string; timestamp?: string; signature?: string; raw?: Buffer; token?: string }) {
+  return authorizeWebhook({
+    token: opts.token ?? "",
+    legacyToken: "",
+    body,
+    ctx: { path: opts.path ?? "/webhooks/lorawan", event: "" },
+    signature: {
+      signature: opts.signature ?? "",
+      timestamp: opts.timestamp ?? "",
+      rawBody: opts.raw ?? rawBody,
+      toleranceSec: TOLERANCE_SEC,
+    },
+  });
+}
+
+const reasonOf = (result: ReturnType<typeof check>) => (result.ok ? null : result.reason);
+
+test("a fresh, valid signature is accepted without a token", () => {
+  const timestamp = now();
+  const result = check({ timestamp, signature: computeWebhookSignature(secret, timestamp, rawBody) });
+  assert.deepEqual(result, { ok: true, credentialId: null });
+});
+
+test("the same signature is not accepted twice", () => {
+  // its own body, so it can't collide with the signature accepted above
+  const raw = Buffer.from(JSON.stringify({ ...body, fCnt: 9 }));
+  const timestamp = now();
+  const signature = computeWebhookSignature(secret, timestamp, raw);
+  assert.equal(check({ timestamp, signature, raw }).ok, true);
+  assert.equal(reasonOf(check({ timestamp, signature, raw })), "replayed signature");
+});
+
+test("a timestamp outside the tolerance is rejected even with a valid signature", () => {
+  const timestamp = String(Math.floor(Date.now() / 1000) - TOLERANCE_SEC - 60);
+  const result = check({ timestamp, signature: computeWebhookSignature(secret, timestamp, rawBody) });
+  assert.equal(reasonOf(result), "signature timestamp outside tolerance");
+  if (!result.ok) assert.equal(result.status, 401);
+});
+
+test("a signature over a different body is rejected", () => {
+  const timestamp = now();
+  const signature = computeWebhookSignature(secret, timestamp, rawBody);
+  const tampered = Buffer.from(JSON.stringify({ ...body, fCnt: 8 }));
+  assert.equal(reasonOf(check({ timestamp, signature, raw: tampered })), "invalid signature");
+});
+
+test("a signature made with another secret is rejected", () => {
+  const timestamp = now();
+  const signature = computeWebhookSignature(generateSigningSecret().secret, timestamp, rawBody);
+  assert.equal(reasonOf(check({ timestamp, signature })), "invalid signature");
+});
+
+test("an endpoint with a signing secret requires the signature", () => {
+  assert.equal(reasonOf(check({})), "missing signature");
+  assert.equal(reasonOf(check({ token: "emwh_whatever" })), "missing signature");
+});
+
+test("a signature does not stand in for a token where no secret applies", () => {
+  const timestamp = now();
+  const signature = computeWebhookSignature(secret, timestamp, rawBody);
+  assert.equal(reasonOf(check({ path: "/webhooks/chirpstack", timestamp, signature })), "no signing secret for this request");
+  assert.equal(reasonOf(check({ path: "/webhooks/chirpstack" })), "missing token");
+});
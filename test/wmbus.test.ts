@@ -0,0 +1,92 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { decodeWmbusTelegram, parseDataRecords } from "../src/wmbus.js";
+
+const hex = (s: string) => Buffer.from(s.replace(/\s+/g, ""), "hex");
+
+// KAM, id 12345678, version 0x1b, water (0x07), short transport header, unencrypted
+const HEADER = "44 2d2c 78563412 1b 07 7a 2a 00 0000";
+const RECORDS = [
+  "0c 13 78563412", // volume, 8 digit BCD, 10^-3 m³
+  "04 6d 2a0ea124", // date/time type F
+  "44 13 10270000", // volume at storage 1, 32 bit integer
+  "84 01 13 20a10700", // DIFE: storage 2
+  "0b 3b 250100", // volume flow, 6 digit BCD, 10^-3 m³/h
+  "02 fd 17 0400", // error flags (second VIF extension)
+].join(" ");
+
+function telegram(records: string, header = HEADER): Buffer {
+  const body = hex(`${header} ${records}`);
+  // the L-field counts every byte after itself
+  return Buffer.concat([Buffer.from([body.length]), body]);
+}
+
+test("decodes the header and the main register of an unencrypted telegram", () => {
+  const t = decodeWmbusTelegram(telegram(RECORDS), null);
+  assert.equal(t.manufacturer, "KAM");
+  assert.equal(t.id, "12345678");
+  assert.equal(t.medium, "water");
+  assert.equal(t.access_number, 0x2a);
+  assert.equal(t.encryption_mode, 0);
+  assert.equal(t.meter_value, 12345.678);
+  assert.equal(t.meter_unit, "m³");
+  assert.equal(t.volume_m3, 12345.678);
+  assert.equal(t.flow_m3h, 0.125);
+  assert.equal(t.meter_time, "2021-04-01T14:42:00");
+});
+
+test("reads storage numbers from the DIF and its extensions", () => {
+  const records = parseDataRecords(hex(RECORDS));
+  const volumes = records.filter(r => r.quantity === "volume");
+  assert.deepEqual(volumes.map(r => [r.storage, r.value]), [[0, 12345.678], [1, 10], [2, 500]]);
+  assert.equal(volumes[2].header, "840113");
+});
+
+test("maps the VIF range to quantity, unit and decimal exponent", () => {
+  const [energy, power, temperature] = parseDataRecords(hex("04 06 e8030000  02 2b 6400  02 5a 2d01"));
+  assert.deepEqual([energy.quantity, energy.unit, energy.value], ["energy", "kWh", 1000]);
+  assert.deepEqual([power.quantity, power.unit, power.value], ["power", "W", 100]);
+  assert.deepEqual([temperature.quantity, temperature.unit, temperature.value], ["flow_temperature", "°C", 30.1]);
+});
+
+test("reads the first VIF extension table (0xFB)", () => {
+  const [energy] = parseDataRecords(hex("04 fb 00 0a000000"));
+  // 0xFB 0x00: energy in 10^2 kWh
+  assert.deepEqual([energy.quantity, energy.unit, energy.value], ["energy", "kWh", 1000]);
+});
+
+test("marks records whose VIF carries extensions", () => {
+  const [record] = parseDataRecords(hex("04 93 3c 10270000"));
+  assert.equal(record.quantity, "volume");
+  assert.equal(record.extended, true);
+  assert.equal(record.header, "04933c");
+});
+
+test("reads a negative BCD value", () => {
+  const [record] = parseDataRecords(hex("0a 5a 50f1"));
+  // 0xF in the top nibble is the sign; 0x5A reads in 10^-1 °C
+  assert.equal(record.value, -15);
+});
+
+test("reads a function field and a tariff from the DIF / DIFE", () => {
+  const [record] = parseDataRecords(hex("94 10 13 10270000"));
+  assert.equal(record.function, "maximum");
+  assert.equal(record.tariff, 1);
+  assert.equal(record.storage, 0);
+});
+
+test("skips idle fillers and keeps manufacturer data up to the end", () => {
+  const records = parseDataRecords(hex("2f 2f 0c 13 01000000 0f aabbcc"));
+  assert.equal(records.length, 2);
+  assert.equal(records[0].value, 0.001);
+  assert.deepEqual([records[1].quantity, records[1].value], ["manufacturer_data", "aabbcc"]);
+});
+
+test("rejects a record cut off inside its data", () => {
+  assert.throws(() => parseDataRecords(hex("0c 13 7856")), /record truncated at byte 2/);
+});
+
+test("asks for a key when the telegram is encrypted", () => {
+  const encrypted = "44 2d2c 78563412 1b 07 7a 2a 00 1005";
+  assert.throws(() => decodeWmbusTelegram(telegram("00".repeat(16), encrypted), null), /encrypted \(mode 5\) but no key/);
+});